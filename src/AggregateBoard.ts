@@ -0,0 +1,340 @@
+/**
+ * Aggregate boards for Base Kanban
+ *
+ * A note with `kanban-plugin: aggregate` in its frontmatter is a virtual board: it has no
+ * lanes of its own, but collects the cards of every other board that match its query.
+ *
+ * ---
+ * kanban-plugin: aggregate
+ * group-by: due            lane (source lane name), due (due bucket) or status ([status::])
+ * assignee: me             Only cards assigned to this name; "me" is the name in the settings
+ * tags: [bug]              Only cards with one of these tags
+ * due: due-week            overdue, due-today, due-week, no-date or has-date
+ * folder: Projects         Only boards in this folder
+ * include-completed: false
+ * ---
+ *
+ * Lanes are rebuilt from the query every time. Edits to cards, and moves between lanes, are
+ * written back to the board each card came from, as is the next occurrence of a recurring
+ * card checked off here.
+ */
+
+import { parseYaml } from 'obsidian';
+import { DueStateFilter, KanbanBoard, KanbanCard, KanbanLane } from './types';
+import { formatISODate, setCardField, snapshotCard } from './parser';
+
+export const AGGREGATE_BOARD_TYPE = 'aggregate';
+
+export type AggregateGrouping = 'lane' | 'due' | 'status';
+
+export interface AggregateQuery {
+	groupBy: AggregateGrouping;
+	assignee?: string;
+	tags: string[];
+	due: DueStateFilter;
+	folder?: string;
+	includeCompleted: boolean;
+}
+
+export interface AggregateSource {
+	path: string;
+	board: KanbanBoard;
+}
+
+// Where an aggregate card came from
+export interface AggregateCardSource {
+	path: string;
+	laneTitle: string;               // Lane the card is in on its own board
+	cardId: string;
+	rawText?: string;                // Finds cards whose ids aren't written in the file
+	snapshot: string;                // Fingerprint of the copy when it was collected, to find edits
+}
+
+export interface AggregateBoard {
+	query: AggregateQuery;
+	board: KanbanBoard;
+	sources: Map<KanbanCard, AggregateCardSource>;
+	inserts: AggregateChange[];      // Cards added here that belong on a source board
+}
+
+// A card edited, moved, archived or deleted on the aggregate board, or one added next to
+// a collected card (the next occurrence of a recurring card)
+export interface AggregateChange {
+	card: KanbanCard;
+	source: AggregateCardSource;     // For an insert, the card it was added next to
+	kind: 'update' | 'archive' | 'delete' | 'insert';
+	laneTitle?: string;              // With lane grouping, the source lane to move the card to
+}
+
+const DUE_STATES: DueStateFilter[] = ['all', 'overdue', 'due-today', 'due-week', 'no-date', 'has-date'];
+
+const DUE_BUCKETS = ['Overdue', 'Today', 'Tomorrow', 'Next 7 days', 'Later', 'No date'];
+
+// Due buckets that stand for one day, or for no date, so that a card can be dropped in them
+const DROPPABLE_DUE_BUCKETS = ['Today', 'Tomorrow', 'No date'];
+
+const NO_STATUS = 'No status';
+
+/**
+ * The frontmatter of a note, or an empty object when it has none or it isn't valid YAML
+ */
+export function readFrontmatter(markdown: string): Record<string, unknown> {
+	const match = markdown.match(/^---\s*\n([\s\S]*?)\n---/);
+	if (!match) return {};
+	try {
+		const frontmatter = parseYaml(match[1]);
+		return frontmatter && typeof frontmatter === 'object' ? frontmatter : {};
+	} catch {
+		return {};
+	}
+}
+
+export function isAggregateBoard(frontmatter: Record<string, unknown>): boolean {
+	return frontmatter['kanban-plugin'] === AGGREGATE_BOARD_TYPE;
+}
+
+/**
+ * The query in an aggregate board's frontmatter, with defaults for what it leaves out
+ */
+export function parseAggregateQuery(frontmatter: Record<string, unknown>): AggregateQuery {
+	const groupBy = String(frontmatter['group-by'] || '').toLowerCase();
+	const due = String(frontmatter['due'] || '').toLowerCase() as DueStateFilter;
+	const tags = frontmatter['tags'];
+	const tagList = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [];
+
+	return {
+		groupBy: groupBy === 'due' || groupBy === 'status' ? groupBy : 'lane',
+		assignee: frontmatter['assignee'] ? String(frontmatter['assignee']).trim() : undefined,
+		tags: tagList.map(tag => String(tag).trim().replace(/^#/, '')).filter(Boolean),
+		due: DUE_STATES.includes(due) ? due : 'all',
+		folder: frontmatter['folder'] ? String(frontmatter['folder']).replace(/^\/+|\/+$/g, '') : undefined,
+		includeCompleted: frontmatter['include-completed'] === true,
+	};
+}
+
+function daysFromToday(date: string, today: Date): number {
+	const [year, month, day] = date.split('-').map(Number);
+	const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+	return Math.round((new Date(year, month - 1, day).getTime() - start.getTime()) / 86400000);
+}
+
+export function getDueBucket(card: KanbanCard, today: Date = new Date()): string {
+	if (!card.dueDate) return 'No date';
+	const days = daysFromToday(card.dueDate, today);
+	if (days < 0) return 'Overdue';
+	if (days === 0) return 'Today';
+	if (days === 1) return 'Tomorrow';
+	return days <= 7 ? 'Next 7 days' : 'Later';
+}
+
+function matchesDueState(card: KanbanCard, due: DueStateFilter, today: Date): boolean {
+	const days = card.dueDate ? daysFromToday(card.dueDate, today) : null;
+	switch (due) {
+		case 'overdue': return days !== null && days < 0;
+		case 'due-today': return days === 0;
+		case 'due-week': return days !== null && days >= 0 && days <= 7;
+		case 'no-date': return days === null;
+		case 'has-date': return days !== null;
+		default: return true;
+	}
+}
+
+/**
+ * Whether a name is one of a card's assignees: a comma separated list of names,
+ * optionally written as @name or [[name]]
+ */
+export function isAssignedTo(card: KanbanCard, name: string): boolean {
+	const normalize = (value: string) => value.trim().replace(/^@|^\[\[|\]\]$/g, '').toLowerCase();
+	const assignees = String(card.metadata.assignee || '').split(',').map(normalize);
+	return assignees.includes(normalize(name));
+}
+
+export function cardMatchesAggregateQuery(card: KanbanCard, query: AggregateQuery, myName: string, today: Date = new Date()): boolean {
+	if (!query.includeCompleted && card.completed) return false;
+	if (query.assignee) {
+		const name = query.assignee.toLowerCase() === 'me' ? myName : query.assignee;
+		if (!name || !isAssignedTo(card, name)) return false;
+	}
+	if (query.tags.length > 0 && !query.tags.some(tag => card.tags.includes(tag))) return false;
+	return matchesDueState(card, query.due, today);
+}
+
+function getGroup(card: KanbanCard, laneTitle: string, grouping: AggregateGrouping, today: Date): string {
+	if (grouping === 'due') return getDueBucket(card, today);
+	if (grouping === 'status') return card.metadata.status ? String(card.metadata.status) : NO_STATUS;
+	return laneTitle;
+}
+
+// A copy of a card that can be edited without touching the board it was read from
+function copyCard(card: KanbanCard): KanbanCard {
+	return JSON.parse(JSON.stringify(card));
+}
+
+/**
+ * Collect the matching cards of the source boards into the lanes of an aggregate board
+ */
+export function buildAggregateBoard(sources: AggregateSource[], query: AggregateQuery, myName: string, today: Date = new Date()): AggregateBoard {
+	const lanes = new Map<string, KanbanLane>();
+	const cardSources = new Map<KanbanCard, AggregateCardSource>();
+
+	if (query.groupBy === 'due') {
+		for (const title of DUE_BUCKETS) {
+			lanes.set(title, { id: `aggregate-${lanes.size}`, title, cards: [] });
+		}
+	}
+
+	for (const { path, board } of sources) {
+		if (query.folder && !path.startsWith(`${query.folder}/`)) continue;
+		for (const lane of board.lanes) {
+			for (const sourceCard of lane.cards) {
+				if (!cardMatchesAggregateQuery(sourceCard, query, myName, today)) continue;
+
+				const group = getGroup(sourceCard, lane.title, query.groupBy, today);
+				if (!lanes.has(group)) {
+					lanes.set(group, { id: `aggregate-${lanes.size}`, title: group, cards: [] });
+				}
+				const card = copyCard(sourceCard);
+				lanes.get(group)!.cards.push(card);
+				cardSources.set(card, {
+					path,
+					laneTitle: lane.title,
+					cardId: sourceCard.id,
+					rawText: sourceCard._rawText,
+					snapshot: snapshotCard(card),
+				});
+			}
+		}
+	}
+
+	let laneList = Array.from(lanes.values());
+	if (query.groupBy === 'status') {
+		laneList = laneList.sort((a, b) => {
+			if (a.title === NO_STATUS || b.title === NO_STATUS) return a.title === NO_STATUS ? 1 : -1;
+			return a.title.localeCompare(b.title);
+		});
+	}
+
+	return {
+		query,
+		board: { lanes: laneList, archive: [], settings: { 'show-add-list': false } },
+		sources: cardSources,
+		inserts: [],
+	};
+}
+
+/**
+ * Whether a card may be dropped into an aggregate lane. Due buckets that span several
+ * days don't say which day the card would be due.
+ */
+export function canMoveToAggregateLane(grouping: AggregateGrouping, laneTitle: string): boolean {
+	return grouping !== 'due' || DROPPABLE_DUE_BUCKETS.includes(laneTitle);
+}
+
+/**
+ * Give a card the field value of the aggregate lane it was moved to. With lane grouping
+ * the card itself stays as it is; the move is made on its own board.
+ */
+export function moveToAggregateLane(card: KanbanCard, grouping: AggregateGrouping, laneTitle: string, today: Date = new Date()): void {
+	if (grouping === 'status') {
+		setCardField(card, 'status', laneTitle === NO_STATUS ? undefined : laneTitle);
+	} else if (grouping === 'due') {
+		if (laneTitle === 'No date') {
+			card.dueDate = undefined;
+			card.dueTime = undefined;
+		} else {
+			const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + (laneTitle === 'Tomorrow' ? 1 : 0));
+			card.dueDate = formatISODate(date);
+		}
+	}
+}
+
+/**
+ * Add a card to the board that another card of the aggregate board came from. Returns
+ * false when that card wasn't collected from a board.
+ */
+export function addAggregateCard(aggregate: AggregateBoard, besideCard: KanbanCard, card: KanbanCard): boolean {
+	const source = aggregate.sources.get(besideCard);
+	if (!source) return false;
+	aggregate.inserts.push({ card, source, kind: 'insert' });
+	return true;
+}
+
+/**
+ * The changes to write back to the source boards: cards that were edited or moved to
+ * another lane, archived, or deleted since they were collected. (A card's own parse-time
+ * fingerprint won't do: a card edited on an open board still carries the one from before.)
+ */
+export function getAggregateChanges(aggregate: AggregateBoard): AggregateChange[] {
+	const laneTitles = new Map<KanbanCard, string>();
+	for (const lane of aggregate.board.lanes) {
+		for (const card of lane.cards) laneTitles.set(card, lane.title);
+	}
+
+	// Inserts come first, while the card they go next to is still in its lane
+	const changes = aggregate.inserts.filter(change => laneTitles.has(change.card));
+
+	aggregate.sources.forEach((source, card) => {
+		if (aggregate.board.archive.includes(card)) {
+			changes.push({ card, source, kind: 'archive' });
+			return;
+		}
+		const laneTitle = laneTitles.get(card);
+		if (laneTitle === undefined) {
+			changes.push({ card, source, kind: 'delete' });
+			return;
+		}
+		const movedLane = aggregate.query.groupBy === 'lane' && laneTitle !== source.laneTitle;
+		if (movedLane || snapshotCard(card) !== source.snapshot) {
+			changes.push({ card, source, kind: 'update', laneTitle: movedLane ? laneTitle : undefined });
+		}
+	});
+
+	return changes;
+}
+
+/**
+ * Make a change on the board the card came from. Returns false when the card (or the
+ * lane it was moved to) is no longer there.
+ */
+export function applyAggregateChange(board: KanbanBoard, change: AggregateChange): boolean {
+	const { source } = change;
+	for (const lane of board.lanes) {
+		const index = lane.cards.findIndex(card =>
+			card.id === source.cardId || (!!source.rawText && card._rawText === source.rawText));
+		if (index === -1) continue;
+
+		const card = copyCard(change.card);
+		if (change.kind === 'insert') {
+			insertCard(board, lane, card);
+			return true;
+		}
+		if (change.kind !== 'update') {
+			lane.cards.splice(index, 1);
+			if (change.kind === 'archive') board.archive.push(card);
+			return true;
+		}
+
+		if (change.laneTitle === undefined) {
+			lane.cards[index] = card;
+			return true;
+		}
+		const toLane = board.lanes.find(l => l.title === change.laneTitle);
+		if (!toLane) return false;
+		lane.cards.splice(index, 1);
+		toLane.cards.push(card);
+		return true;
+	}
+	return false;
+}
+
+// Add a card where the board puts the next occurrence of a recurring card, unless it is there already
+function insertCard(board: KanbanBoard, besideLane: KanbanLane, card: KanbanCard): void {
+	const alreadyAdded = board.lanes.some(lane => lane.cards.some(c => c.title === card.title && c.dueDate === card.dueDate));
+	if (alreadyAdded) return;
+	const lane = board.settings['recurring-card-lane'] === 'same' ? besideLane : board.lanes[0] || besideLane;
+	if (board.settings['new-card-insertion-method'] === 'prepend') {
+		lane.cards.unshift(card);
+	} else {
+		lane.cards.push(card);
+	}
+}
@@ -0,0 +1,119 @@
+/**
+ * Associated files for Base Kanban
+ *
+ * Besides its dedicated note, a card can list any number of related vault files
+ * (specs, meeting notes, PDFs) in a [files::] field:
+ *   - [ ] Launch plan [files::[[Launch spec]], [[Kickoff notes]], [[budget.pdf]]] ^abc123
+ *
+ * The links are kept up to date when the files are renamed, and dropped when
+ * the files are deleted.
+ */
+
+import { KanbanBoard, KanbanCard } from './types';
+import { setCardField } from './parser';
+
+const FILES_FIELD = 'files';
+
+/**
+ * Link targets in a [files::] value: [[wikilinks]], or bare comma-separated paths
+ */
+export function parseFileLinks(value: string | number | undefined): string[] {
+	if (value === undefined) return [];
+	const text = String(value);
+	const links: string[] = [];
+
+	const wikilinkRegex = /\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+	let match;
+	while ((match = wikilinkRegex.exec(text)) !== null) {
+		links.push(match[1].trim());
+	}
+
+	const rest = text.replace(wikilinkRegex, '');
+	for (const part of rest.split(',')) {
+		if (part.trim()) links.push(part.trim());
+	}
+	return links;
+}
+
+export function getCardFiles(card: KanbanCard): string[] {
+	return parseFileLinks(card.metadata[FILES_FIELD]);
+}
+
+/**
+ * The display text of a card's [[link|alias]] links, by link target
+ */
+export function getCardFileAliases(card: KanbanCard): Map<string, string> {
+	const aliases = new Map<string, string>();
+	const wikilinkRegex = /\[\[([^\]|]+)\|([^\]]*)\]\]/g;
+	let match;
+	while ((match = wikilinkRegex.exec(String(card.metadata[FILES_FIELD] ?? ''))) !== null) {
+		aliases.set(match[1].trim(), match[2]);
+	}
+	return aliases;
+}
+
+/**
+ * Replace a card's associated files, dropping the field when there are none.
+ * Links keep the aliases they were written with.
+ */
+export function setCardFiles(card: KanbanCard, links: string[], aliases: Map<string, string> = getCardFileAliases(card)): void {
+	const text = links.map(link => aliases.has(link) ? `[[${link}|${aliases.get(link)}]]` : `[[${link}]]`).join(', ');
+	setCardField(card, FILES_FIELD, links.length > 0 ? text : undefined);
+}
+
+/**
+ * Whether a link target names the file at a path: the full path or the file name,
+ * with or without the .md extension, ignoring any #heading
+ */
+export function linkMatchesPath(link: string, path: string): boolean {
+	const target = link.split('#')[0].trim().toLowerCase();
+	const fullPath = path.toLowerCase();
+	const fileName = fullPath.split('/').pop() || fullPath;
+	const candidates = [fullPath, fileName];
+	if (fullPath.endsWith('.md')) {
+		candidates.push(fullPath.slice(0, -3), fileName.slice(0, -3));
+	}
+	return candidates.includes(target);
+}
+
+/**
+ * Every card on a board (lanes and archive) with associated files
+ */
+export function getCardsWithFiles(board: KanbanBoard): KanbanCard[] {
+	return board.lanes
+		.reduce<KanbanCard[]>((all, lane) => all.concat(lane.cards), [])
+		.concat(board.archive)
+		.filter(card => getCardFiles(card).length > 0);
+}
+
+/**
+ * Point the links to a renamed file at its new link text, or with null, drop them.
+ * A link that still resolves to a file (another file of the same name, or the renamed
+ * file under a name the link still matches) is left alone. Returns whether any card changed.
+ */
+export function replaceFileLinks(board: KanbanBoard, oldPath: string, newLink: string | null, resolves: (link: string) => boolean = () => false): boolean {
+	let changed = false;
+	for (const card of getCardsWithFiles(board)) {
+		const links = getCardFiles(card);
+		const isOldLink = (link: string) => linkMatchesPath(link, oldPath) && !resolves(link);
+		if (!links.some(isOldLink)) continue;
+
+		// The new link keeps any #heading and alias of the old one
+		const aliases = getCardFileAliases(card);
+		const updated: string[] = [];
+		for (const link of links) {
+			if (!isOldLink(link)) {
+				updated.push(link);
+			} else if (newLink !== null) {
+				const headingIndex = link.indexOf('#');
+				const renamed = newLink + (headingIndex === -1 ? '' : link.slice(headingIndex));
+				const alias = aliases.get(link);
+				if (alias !== undefined) aliases.set(renamed, alias);
+				updated.push(renamed);
+			}
+		}
+		setCardFiles(card, updated, aliases);
+		changed = true;
+	}
+	return changed;
+}
@@ -6,6 +6,7 @@
  * Features:
  * - Lane move → Base status field update
  * - Progress/project field sync
+ * - Start/due date sync
  * - Background sync to pull Base tasks into lanes
  * - Conflict resolution (local, remote, or prompt)
  */
@@ -13,6 +14,7 @@
 import { App, TFile, TFolder, Notice, Modal, Setting } from 'obsidian';
 import type { TAbstractFile } from 'obsidian';
 import { KanbanCard, KanbanLane, KanbanBoard, BaseSyncConfig, BaseTaskMetadata, DEFAULT_BASE_SYNC_CONFIG, ConflictResolution } from './types';
+import { appendTimeLog } from './TimeTracking';
 
 // Base task representation from frontmatter
 export interface BaseTask {
@@ -22,6 +24,7 @@ export interface BaseTask {
 	progress?: number;
 	project?: string;
 	priority?: string;
+	startDate?: string;
 	dueDate?: string;
 	tags?: string[];
 	completed?: boolean;
@@ -97,6 +100,7 @@ export class BaseSyncService {
 				progress: frontmatter[this.config.progressField],
 				project: frontmatter[this.config.projectField],
 				priority: frontmatter.priority,
+				startDate: frontmatter.start || frontmatter.startDate,
 				dueDate: frontmatter.due || frontmatter.dueDate,
 				tags: frontmatter.tags,
 				completed: frontmatter.completed === true || frontmatter.status === 'done',
@@ -267,7 +271,7 @@ export class BaseSyncService {
 	/**
 	 * Create a new Base task file
 	 */
-	async createBaseTask(title: string, metadata: BaseTaskMetadata, lane?: KanbanLane): Promise<string | null> {
+	async createBaseTask(title: string, metadata: BaseTaskMetadata, lane?: KanbanLane, dates: { start?: string; due?: string } = {}): Promise<string | null> {
 		try {
 			// Ensure tasks folder exists
 			const folder = this.app.vault.getAbstractFileByPath(this.config.tasksFolder);
@@ -317,6 +321,12 @@ export class BaseSyncService {
 			if (metadata.priority) {
 				frontmatter.priority = metadata.priority;
 			}
+			if (dates.start) {
+				frontmatter.start = dates.start;
+			}
+			if (dates.due) {
+				frontmatter.due = dates.due;
+			}
 
 			// Create file content
 			const content = this.createFileWithFrontmatter(frontmatter, `# ${title || 'Untitled Task'}\n`);
@@ -359,6 +369,45 @@ export class BaseSyncService {
 		return await this.updateTaskField(card.baseTaskPath, this.config.progressField, progress);
 	}
 
+	/**
+	 * Sync time spent on a card to its Base task, adding the new time entry to the task's time log
+	 */
+	async syncSpent(card: KanbanCard, spent: string, logLine?: string): Promise<boolean> {
+		if (!this.config.enabled || !card.baseTaskPath) {
+			return false;
+		}
+
+		try {
+			const file = this.app.vault.getAbstractFileByPath(card.baseTaskPath);
+			if (!(file instanceof TFile)) {
+				console.warn(`Task file not found: ${card.baseTaskPath}`);
+				return false;
+			}
+
+			let content = await this.app.vault.read(file);
+			content = this.updateFrontmatterField(content, this.config.spentField || DEFAULT_BASE_SYNC_CONFIG.spentField, spent);
+			if (logLine) {
+				content = appendTimeLog(content, logLine);
+			}
+			await this.app.vault.modify(file, content);
+			return true;
+		} catch (error) {
+			console.error(`Error updating task ${card.baseTaskPath}:`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Sync a card's start and due dates to its Base task
+	 */
+	async syncDates(card: KanbanCard): Promise<boolean> {
+		if (!this.config.enabled || !card.baseTaskPath) {
+			return false;
+		}
+
+		return await this.updateTaskFields(card.baseTaskPath, { start: card.startDate, due: card.dueDate });
+	}
+
 	/**
 	 * Sync card project to Base task
 	 */
@@ -461,6 +510,7 @@ export class BaseSyncService {
 			title: task.title,
 			completed: task.completed || false,
 			tags: task.tags || [],
+			startDate: task.startDate,
 			dueDate: task.dueDate,
 			metadata: {
 				progress: task.progress,
@@ -491,6 +541,7 @@ export class BaseSyncService {
 			{ field: 'title', local: card.title, remote: task.title },
 			{ field: 'progress', local: card.metadata.progress, remote: task.progress },
 			{ field: 'project', local: card.metadata.project, remote: task.project },
+			{ field: 'startDate', local: card.startDate, remote: task.startDate },
 		];
 
 		for (const { field, local, remote } of fieldsToCheck) {
@@ -524,6 +575,7 @@ export class BaseSyncService {
 					if (field === 'title') card.title = remote as string;
 					if (field === 'progress') card.metadata.progress = remote as number;
 					if (field === 'project') card.metadata.project = remote as string;
+					if (field === 'startDate') card.startDate = remote as string;
 				}
 
 				conflicts.push(conflict);
@@ -532,6 +584,7 @@ export class BaseSyncService {
 				if (field === 'title') card.title = remote as string;
 				if (field === 'progress') card.metadata.progress = remote as number;
 				if (field === 'project') card.metadata.project = remote as string;
+				if (field === 'startDate') card.startDate = remote as string;
 			}
 		}
 
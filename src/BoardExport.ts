@@ -0,0 +1,218 @@
+/**
+ * Board export and import for Base Kanban
+ *
+ * CSV: one row per card (archived cards use the lane "Archive") with columns
+ *   lane, title, completed, tags, due, <every metadata key>, subtasks done, subtasks total
+ *
+ * JSON: the public shape of KanbanBoard with every underscore-prefixed (private,
+ * round-trip bookkeeping) field removed:
+ *
+ * {
+ *   "format": "base-kanban",
+ *   "version": 1,
+ *   "lanes": [
+ *     { "id": "abc123", "title": "To Do", "cards": [
+ *       {
+ *         "id": "def456",
+ *         "title": "Write spec #docs",        // As stored, including inline tags/dates
+ *         "completed": false,
+ *         "tags": ["docs"],
+ *         "dueDate": "2024-01-15",             // Optional, as are all fields below
+ *         "dueTime": "14:00",
+ *         "recurrence": { "frequency": "weekly", "interval": 1 },
+ *         "reminderTime": "1h",
+ *         "notes": "...",
+ *         "notePath": "Notes/Write spec.md",
+ *         "content": "\t- [ ] Outline ^ghi789", // Markdown under the card, written back verbatim
+ *         "subtasks": [{ "id": "ghi789", "text": "Outline", "completed": false }],
+ *         "metadata": { "project": "Alpha", "progress": 50 },
+ *         "baseTaskPath": "Tasks/Write spec.md"
+ *       }
+ *     ] }
+ *   ],
+ *   "archive": [ ...cards ],
+ *   "settings": { ...BoardSettings }
+ * }
+ */
+
+import { KanbanBoard, KanbanCard, KanbanLane, BoardSettings, METADATA_KEYS } from './types';
+import { BASIC_FRONTMATTER, generateId, INLINE_FIELD_REGEX, parseRecurrence } from './parser';
+
+export const BOARD_JSON_FORMAT = 'base-kanban';
+export const BOARD_JSON_VERSION = 1;
+
+export interface ExportedBoard {
+	format: typeof BOARD_JSON_FORMAT;
+	version: number;
+	lanes: Array<Pick<KanbanLane, 'id' | 'title'> & { cards: KanbanCard[] }>;
+	archive: KanbanCard[];
+	settings: BoardSettings;
+}
+
+// ============ JSON ============
+
+/**
+ * Convert a board to its documented JSON form (private fields removed)
+ */
+export function boardToJson(board: KanbanBoard): ExportedBoard {
+	return {
+		format: BOARD_JSON_FORMAT,
+		version: BOARD_JSON_VERSION,
+		lanes: board.lanes.map(lane => ({
+			id: lane.id,
+			title: lane.title,
+			cards: lane.cards.map(card => stripPrivateFields(card)),
+		})),
+		archive: board.archive.map(card => stripPrivateFields(card)),
+		settings: stripPrivateFields(board.settings),
+	};
+}
+
+/**
+ * Read a board from its JSON form. Throws an Error describing the first problem found.
+ */
+export function boardFromJson(data: unknown): KanbanBoard {
+	if (!data || typeof data !== 'object') {
+		throw new Error('Expected a JSON object');
+	}
+
+	const exported = data as Partial<ExportedBoard>;
+	if (exported.format !== BOARD_JSON_FORMAT) {
+		throw new Error(`Expected "format": "${BOARD_JSON_FORMAT}"`);
+	}
+	if (typeof exported.version !== 'number' || exported.version > BOARD_JSON_VERSION) {
+		throw new Error(`Unsupported version ${exported.version}`);
+	}
+	if (!Array.isArray(exported.lanes)) {
+		throw new Error('Expected "lanes" to be an array');
+	}
+
+	const lanes: KanbanLane[] = exported.lanes.map((lane, index) => {
+		if (!lane || typeof lane.title !== 'string') {
+			throw new Error(`Lane ${index + 1} has no title`);
+		}
+		return {
+			id: typeof lane.id === 'string' && lane.id ? lane.id : generateId(),
+			title: lane.title,
+			cards: (Array.isArray(lane.cards) ? lane.cards : []).map((card, cardIndex) =>
+				readCard(card, `Lane "${lane.title}", card ${cardIndex + 1}`)),
+		};
+	});
+
+	const archive = (Array.isArray(exported.archive) ? exported.archive : []).map((card, index) =>
+		readCard(card, `Archive card ${index + 1}`));
+
+	return {
+		lanes,
+		archive,
+		settings: exported.settings && typeof exported.settings === 'object' ? exported.settings : {},
+		_frontmatter: BASIC_FRONTMATTER,
+	};
+}
+
+// Fill in required card fields, rejecting cards without a title
+function readCard(card: Partial<KanbanCard>, label: string): KanbanCard {
+	if (!card || typeof card.title !== 'string') {
+		throw new Error(`${label} has no title`);
+	}
+	return {
+		...stripPrivateFields(card),
+		id: typeof card.id === 'string' && card.id ? card.id : generateId(),
+		title: card.title,
+		completed: !!card.completed,
+		tags: Array.isArray(card.tags) ? card.tags : [],
+		metadata: card.metadata && typeof card.metadata === 'object' ? card.metadata : {},
+	};
+}
+
+// Deep copy without keys starting with an underscore
+function stripPrivateFields<T>(value: T): T {
+	if (Array.isArray(value)) {
+		return value.map(item => stripPrivateFields(item)) as unknown as T;
+	}
+	if (value && typeof value === 'object') {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			if (!key.startsWith('_') && item !== undefined) {
+				result[key] = stripPrivateFields(item);
+			}
+		}
+		return result as T;
+	}
+	return value;
+}
+
+// ============ CSV ============
+
+/**
+ * Convert a board to CSV with one row per card
+ */
+export function boardToCsv(board: KanbanBoard): string {
+	const rows: { lane: string; card: KanbanCard }[] = [];
+	for (const lane of board.lanes) {
+		for (const card of lane.cards) {
+			rows.push({ lane: lane.title, card });
+		}
+	}
+	for (const card of board.archive) {
+		rows.push({ lane: 'Archive', card });
+	}
+
+	// Standard metadata keys first, then any custom keys in order of appearance
+	const metadataKeys = [...METADATA_KEYS];
+	for (const { card } of rows) {
+		for (const key of Object.keys(card.metadata)) {
+			if (!metadataKeys.includes(key)) metadataKeys.push(key);
+		}
+	}
+
+	const header = ['lane', 'title', 'completed', 'tags', 'due', ...metadataKeys, 'subtasks done', 'subtasks total'];
+	const lines = [header.map(escapeCsv).join(',')];
+
+	const dateLocale = board.settings['date-locale'];
+	for (const { lane, card } of rows) {
+		const due = card.dueDate && card.dueTime ? `${card.dueDate} ${card.dueTime}` : card.dueDate || card.dueTime || '';
+		const subtasks = card.subtasks || [];
+		const values = [
+			lane,
+			csvCardTitle(card, dateLocale),
+			card.completed ? 'true' : 'false',
+			card.tags.join(' '),
+			due,
+			...metadataKeys.map(key => card.metadata[key] !== undefined ? String(card.metadata[key]) : ''),
+			String(subtasks.filter(s => s.completed).length),
+			String(subtasks.length),
+		];
+		lines.push(values.map(escapeCsv).join(','));
+	}
+
+	return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Card title without inline tags, dates and metadata
+ */
+export function plainCardTitle(title: string): string {
+	return title
+		.replace(/#[\w-/]+/g, '')
+		.replace(/@\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?/g, '')
+		.replace(/@@\{?\d{1,2}:\d{2}\}?/g, '')
+		.replace(/@\{\d{4}-\d{2}-\d{2}\}|@\[\[\d{4}-\d{2}-\d{2}(?:\|[^\]]*)?\]\]/g, '')
+		.replace(new RegExp(INLINE_FIELD_REGEX.source, 'g'), '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+// Plain card title, without an inline recurrence ("every week") either
+function csvCardTitle(card: KanbanCard, dateLocale?: string): string {
+	const matched = card.recurrence ? parseRecurrence(card.title, dateLocale).matched : null;
+	return plainCardTitle(matched ? card.title.replace(matched, '') : card.title);
+}
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+function escapeCsv(value: string): string {
+	if (/[",\r\n]/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
@@ -0,0 +1,287 @@
+/**
+ * Calendar view for Base Kanban
+ *
+ * Shows a board's cards on a month or week calendar by due date, in their lane's color.
+ * Recurring cards also appear on their upcoming occurrences; only a card's own date
+ * can be dragged. Cards without a due date are listed beside the calendar and can be
+ * dragged onto a day to schedule them.
+ */
+
+import { setIcon } from 'obsidian';
+import { KanbanBoard, KanbanCard, KanbanLane, RecurrencePattern } from './types';
+import { formatISODate, getNextOccurrence } from './parser';
+import { plainCardTitle } from './BoardExport';
+
+export type CalendarMode = 'month' | 'week';
+
+/**
+ * What the calendar needs from the view that hosts it
+ */
+export interface CalendarHost {
+	getBoard(): KanbanBoard;
+	getHolidays(): string[];
+	isCardVisible(card: KanbanCard, lane: KanbanLane): boolean;
+	getLaneColor(lane: KanbanLane): string;
+	openCard(card: KanbanCard): void;
+	setCardDate(card: KanbanCard, date: string): void;
+}
+
+interface CalendarEntry {
+	card: KanbanCard;
+	lane: KanbanLane;
+	date: string;
+	occurrence: boolean;            // A later occurrence of a recurring card
+}
+
+const CARD_DRAG_TYPE = 'application/x-kanban-card';
+const MAX_OCCURRENCES = 400;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class BoardCalendar {
+	mode: CalendarMode = 'month';
+	private anchor: Date = startOfDay(new Date());
+	private host: CalendarHost;
+	private containerEl: HTMLElement | null = null;
+
+	constructor(host: CalendarHost) {
+		this.host = host;
+	}
+
+	render(containerEl: HTMLElement): void {
+		this.containerEl = containerEl.createDiv({ cls: 'kanban-calendar' });
+		this.draw();
+	}
+
+	private draw(): void {
+		if (!this.containerEl) return;
+		this.containerEl.empty();
+
+		const days = this.getVisibleDays();
+		this.renderToolbar(this.containerEl);
+
+		const bodyEl = this.containerEl.createDiv({ cls: 'kanban-calendar-body' });
+		this.renderGrid(bodyEl, days, this.collectEntries(days[0], days[days.length - 1]));
+		this.renderUndated(bodyEl);
+	}
+
+	private renderToolbar(containerEl: HTMLElement): void {
+		const toolbarEl = containerEl.createDiv({ cls: 'kanban-calendar-toolbar' });
+
+		const navEl = toolbarEl.createDiv({ cls: 'kanban-calendar-nav' });
+		const prevBtn = navEl.createDiv({ cls: 'kanban-calendar-btn', attr: { 'aria-label': 'Previous' } });
+		setIcon(prevBtn, 'chevron-left');
+		prevBtn.addEventListener('click', () => this.step(-1));
+
+		const todayBtn = navEl.createDiv({ cls: 'kanban-calendar-btn', text: 'Today' });
+		todayBtn.addEventListener('click', () => {
+			this.anchor = startOfDay(new Date());
+			this.draw();
+		});
+
+		const nextBtn = navEl.createDiv({ cls: 'kanban-calendar-btn', attr: { 'aria-label': 'Next' } });
+		setIcon(nextBtn, 'chevron-right');
+		nextBtn.addEventListener('click', () => this.step(1));
+
+		toolbarEl.createDiv({ cls: 'kanban-calendar-title', text: this.getTitle() });
+
+		const modesEl = toolbarEl.createDiv({ cls: 'kanban-calendar-modes' });
+		for (const mode of ['month', 'week'] as CalendarMode[]) {
+			const modeBtn = modesEl.createDiv({
+				cls: `kanban-calendar-btn${this.mode === mode ? ' is-active' : ''}`,
+				text: mode === 'month' ? 'Month' : 'Week',
+			});
+			modeBtn.addEventListener('click', () => {
+				this.mode = mode;
+				this.draw();
+			});
+		}
+	}
+
+	private renderGrid(containerEl: HTMLElement, days: Date[], entries: CalendarEntry[]): void {
+		const gridEl = containerEl.createDiv({ cls: `kanban-calendar-grid is-${this.mode}` });
+		for (const name of WEEKDAY_NAMES) {
+			gridEl.createDiv({ cls: 'kanban-calendar-weekday', text: name });
+		}
+
+		const today = formatISODate(new Date());
+		const month = this.anchor.getMonth();
+
+		for (const day of days) {
+			const date = formatISODate(day);
+			const dayClasses = ['kanban-calendar-day'];
+			if (date === today) dayClasses.push('is-today');
+			if (this.mode === 'month' && day.getMonth() !== month) dayClasses.push('is-other-month');
+
+			const dayEl = gridEl.createDiv({ cls: dayClasses.join(' '), attr: { 'data-date': date } });
+			dayEl.createDiv({ cls: 'kanban-calendar-day-number', text: String(day.getDate()) });
+			this.makeDropTarget(dayEl, date);
+
+			const dayEntries = entries
+				.filter(entry => entry.date === date)
+				.sort((a, b) => (a.card.dueTime || '').localeCompare(b.card.dueTime || ''));
+			const cardsEl = dayEl.createDiv({ cls: 'kanban-calendar-day-cards' });
+			for (const entry of dayEntries) {
+				this.renderCard(cardsEl, entry.card, entry.lane, entry.occurrence);
+			}
+		}
+	}
+
+	// Cards without a due date, ready to be dragged onto a day
+	private renderUndated(containerEl: HTMLElement): void {
+		const sidebarEl = containerEl.createDiv({ cls: 'kanban-calendar-sidebar' });
+		sidebarEl.createDiv({ cls: 'kanban-calendar-sidebar-title', text: 'No due date' });
+
+		const listEl = sidebarEl.createDiv({ cls: 'kanban-calendar-undated' });
+		let count = 0;
+		for (const lane of this.host.getBoard().lanes) {
+			for (const card of lane.cards) {
+				if (card.dueDate || card.completed || !this.host.isCardVisible(card, lane)) continue;
+				this.renderCard(listEl, card, lane, false);
+				count++;
+			}
+		}
+
+		if (count === 0) {
+			listEl.createDiv({ cls: 'kanban-calendar-empty', text: 'Every open card has a due date' });
+		}
+	}
+
+	private renderCard(containerEl: HTMLElement, card: KanbanCard, lane: KanbanLane, occurrence: boolean): void {
+		const cardClasses = ['kanban-calendar-card'];
+		if (card.completed) cardClasses.push('is-completed');
+		if (occurrence) cardClasses.push('is-occurrence');
+
+		const cardEl = containerEl.createDiv({ cls: cardClasses.join(' '), attr: { 'data-card-id': card.id } });
+		cardEl.style.setProperty('--kanban-lane-color', this.host.getLaneColor(lane));
+		cardEl.title = `${plainCardTitle(card.title)}\n${lane.title}${occurrence ? ' (repeats)' : ''}`;
+
+		if (card.dueTime && card.dueDate) {
+			cardEl.createSpan({ cls: 'kanban-calendar-card-time', text: card.dueTime });
+		}
+		if (occurrence) {
+			setIcon(cardEl.createSpan({ cls: 'kanban-calendar-card-icon' }), 'repeat');
+		}
+		cardEl.createSpan({ cls: 'kanban-calendar-card-title', text: plainCardTitle(card.title) });
+
+		cardEl.addEventListener('click', () => this.host.openCard(card));
+
+		if (!occurrence) {
+			cardEl.draggable = true;
+			cardEl.addEventListener('dragstart', (event: DragEvent) => {
+				event.dataTransfer?.setData(CARD_DRAG_TYPE, card.id);
+				event.dataTransfer?.setData('text/plain', plainCardTitle(card.title));
+				cardEl.addClass('is-dragging');
+			});
+			cardEl.addEventListener('dragend', () => cardEl.removeClass('is-dragging'));
+		}
+	}
+
+	private makeDropTarget(dayEl: HTMLElement, date: string): void {
+		dayEl.addEventListener('dragover', (event: DragEvent) => {
+			if (!event.dataTransfer?.types.includes(CARD_DRAG_TYPE)) return;
+			event.preventDefault();
+			dayEl.addClass('is-drop-target');
+		});
+		dayEl.addEventListener('dragleave', () => dayEl.removeClass('is-drop-target'));
+		dayEl.addEventListener('drop', (event: DragEvent) => {
+			dayEl.removeClass('is-drop-target');
+			const cardId = event.dataTransfer?.getData(CARD_DRAG_TYPE);
+			if (!cardId) return;
+			event.preventDefault();
+
+			for (const lane of this.host.getBoard().lanes) {
+				const card = lane.cards.find(c => c.id === cardId);
+				if (card) {
+					if (card.dueDate !== date) this.host.setCardDate(card, date);
+					return;
+				}
+			}
+		});
+	}
+
+	// Dated cards in the range, plus the later occurrences of recurring cards
+	private collectEntries(start: Date, end: Date): CalendarEntry[] {
+		const first = formatISODate(start);
+		const last = formatISODate(end);
+		const entries: CalendarEntry[] = [];
+
+		for (const lane of this.host.getBoard().lanes) {
+			for (const card of lane.cards) {
+				if (!card.dueDate || !this.host.isCardVisible(card, lane)) continue;
+				if (card.dueDate >= first && card.dueDate <= last) {
+					entries.push({ card, lane, date: card.dueDate, occurrence: false });
+				}
+				if (card.recurrence && !card.completed) {
+					for (const date of this.getOccurrences(card.dueDate, card.recurrence, last)) {
+						if (date >= first) entries.push({ card, lane, date, occurrence: true });
+					}
+				}
+			}
+		}
+		return entries;
+	}
+
+	// Occurrences after a card's due date, up to the last visible day
+	private getOccurrences(dueDate: string, recurrence: RecurrencePattern, last: string): string[] {
+		const dates: string[] = [];
+		const pattern: RecurrencePattern = { ...recurrence };
+		let from = new Date(`${dueDate}T00:00:00`);
+
+		while (dates.length < MAX_OCCURRENCES) {
+			const next = getNextOccurrence(pattern, from, this.host.getHolidays());
+			if (!next) break;
+			const date = formatISODate(next);
+			if (date > last) break;
+			dates.push(date);
+			from = next;
+			// count includes the current occurrence, as when completing a card
+			if (pattern.count !== undefined) pattern.count -= 1;
+		}
+		return dates;
+	}
+
+	private getVisibleDays(): Date[] {
+		let start: Date;
+		let end: Date;
+		if (this.mode === 'week') {
+			start = addDays(this.anchor, -this.anchor.getDay());
+			end = addDays(start, 6);
+		} else {
+			const firstOfMonth = new Date(this.anchor.getFullYear(), this.anchor.getMonth(), 1);
+			const lastOfMonth = new Date(this.anchor.getFullYear(), this.anchor.getMonth() + 1, 0);
+			start = addDays(firstOfMonth, -firstOfMonth.getDay());
+			end = addDays(lastOfMonth, 6 - lastOfMonth.getDay());
+		}
+
+		const days: Date[] = [];
+		for (let day = start; day <= end; day = addDays(day, 1)) {
+			days.push(day);
+		}
+		return days;
+	}
+
+	private getTitle(): string {
+		if (this.mode === 'month') {
+			return this.anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+		}
+		const start = addDays(this.anchor, -this.anchor.getDay());
+		const end = addDays(start, 6);
+		const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+		return `${format(start)} – ${format(end)}, ${end.getFullYear()}`;
+	}
+
+	private step(direction: number): void {
+		this.anchor = this.mode === 'month'
+			? new Date(this.anchor.getFullYear(), this.anchor.getMonth() + direction, 1)
+			: addDays(this.anchor, direction * 7);
+		this.draw();
+	}
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
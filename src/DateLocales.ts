@@ -0,0 +1,459 @@
+/**
+ * Locale packs for natural language dates and recurrence
+ *
+ * English is built into the parser and is always tried as a fallback. A locale pack adds
+ * the phrases of one language on top of it:
+ * - Weekday, month and ordinal names
+ * - Date phrases ("내일", "nächsten Montag", "来週の月曜日")
+ * - Time phrases ("오후 3시", "um 15 Uhr", "15時30分")
+ * - Recurrence phrases ("매주 금요일", "jeden Freitag", "毎月最終金曜日")
+ *
+ * Phrases are regex sources with placeholders, filled in from the pack's names:
+ *   {day} weekday, {days} list of weekdays, {month} month name, {nth} ordinal or "last",
+ *   {ampm} am/pm word, {n} any number, {date} day of month, {year}, {hour}, {minute}
+ * Groups inside phrases must be non-capturing.
+ */
+
+import { DayOfWeek } from './types';
+
+export type LocalizedDateKind =
+	| 'today' | 'tomorrow' | 'dayAfterTomorrow' | 'yesterday'
+	| 'nextDay'          // the coming weekday
+	| 'thisDay'          // weekday later this week
+	| 'lastDay'          // the previous weekday
+	| 'nextWeekDay'      // weekday in next week
+	| 'dayOfWeek'        // bare weekday, only used together with a time
+	| 'inMinutes' | 'inHours' | 'inDays' | 'inWeeks' | 'inMonths' | 'inYears' | 'daysAgo'
+	| 'nextWeek' | 'nextMonth' | 'nextYear'
+	| 'endOfWeek' | 'endOfMonth' | 'endOfQuarter' | 'endOfYear'
+	| 'monthDay';
+
+export type LocalizedRecurrenceKind =
+	| 'daily' | 'weekly' | 'monthly' | 'yearly'
+	| 'everyNDays' | 'everyNWeeks' | 'everyNMonths' | 'everyNYears'
+	| 'everyWeekday'     // every {days}
+	| 'weekdays' | 'weekends'
+	| 'monthlyOnDate'    // every month on the {date}
+	| 'nthWeekday';      // {nth} {day} of every month
+
+export interface DateLocale {
+	id: string;
+	name: string;
+	wordBoundaries: boolean;               // Phrases must stand alone as words (false for scripts without spaces)
+	weekdays: Record<DayOfWeek, string[]>;
+	months: string[][];                    // Spellings per month, January first
+	ordinals: string[][];                  // Spellings for 1st to 5th
+	last: string[];                        // "last", as in the last Friday of the month
+	am: string[];
+	pm: string[];
+	listSeparators: string[];              // Regex sources joining weekday lists
+	dates: Partial<Record<LocalizedDateKind, string[]>>;
+	times: string[];
+	recurrence: Partial<Record<LocalizedRecurrenceKind, string[]>>;
+}
+
+// A phrase found in text, with placeholder values normalized:
+// day/days → english weekday names, month → 1-12, nth → 1-5 or -1, ampm → 'am' | 'pm'
+export interface LocalizedMatch<K extends string> {
+	kind: K;
+	start: number;
+	end: number;
+	values: Record<string, string>;
+}
+
+// ============ Locale Packs ============
+
+const KOREAN: DateLocale = {
+	id: 'ko',
+	name: '한국어 (Korean)',
+	wordBoundaries: false,
+	weekdays: {
+		sunday: ['일요일'],
+		monday: ['월요일'],
+		tuesday: ['화요일'],
+		wednesday: ['수요일'],
+		thursday: ['목요일'],
+		friday: ['금요일'],
+		saturday: ['토요일'],
+	},
+	months: ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'].map(month => [month]),
+	ordinals: [
+		['첫째', '첫 번째', '첫번째', '1번째'],
+		['둘째', '두 번째', '두번째', '2번째'],
+		['셋째', '세 번째', '세번째', '3번째'],
+		['넷째', '네 번째', '네번째', '4번째'],
+		['다섯째', '다섯 번째', '다섯번째', '5번째'],
+	],
+	last: ['마지막'],
+	am: ['오전'],
+	pm: ['오후'],
+	listSeparators: [',', '와', '과', '및', '그리고'],
+	dates: {
+		today: ['오늘'],
+		tomorrow: ['내일'],
+		dayAfterTomorrow: ['모레'],
+		yesterday: ['어제'],
+		thisDay: ['이번\\s*주\\s*{day}'],
+		lastDay: ['지난\\s*주\\s*{day}', '지난\\s*{day}'],
+		nextWeekDay: ['다음\\s*주\\s*{day}'],
+		nextDay: ['다음\\s*{day}', '오는\\s*{day}'],
+		dayOfWeek: ['{day}'],
+		inMinutes: ['{n}\\s*분\\s*(?:후|뒤)'],
+		inHours: ['{n}\\s*시간\\s*(?:후|뒤)'],
+		inDays: ['{n}\\s*일\\s*(?:후|뒤)'],
+		inWeeks: ['{n}\\s*주\\s*(?:후|뒤)'],
+		inMonths: ['{n}\\s*(?:개월|달)\\s*(?:후|뒤)'],
+		inYears: ['{n}\\s*년\\s*(?:후|뒤)'],
+		daysAgo: ['{n}\\s*일\\s*전'],
+		nextWeek: ['다음\\s*주'],
+		nextMonth: ['다음\\s*달'],
+		nextYear: ['내년'],
+		endOfWeek: ['이번\\s*주\\s*말'],
+		endOfMonth: ['이번\\s*달\\s*말', '월말'],
+		endOfQuarter: ['분기\\s*말'],
+		endOfYear: ['올해\\s*말', '연말'],
+		monthDay: ['(?:{year}\\s*년\\s*)?{month}\\s*{date}\\s*일'],
+	},
+	times: ['(?:{ampm}\\s*)?{hour}\\s*시(?:\\s*{minute}\\s*분)?'],
+	recurrence: {
+		daily: ['매일'],
+		weekly: ['매주'],
+		monthly: ['매월', '매달'],
+		yearly: ['매년'],
+		everyNDays: ['{n}\\s*일\\s*마다'],
+		everyNWeeks: ['{n}\\s*주\\s*마다'],
+		everyNMonths: ['{n}\\s*(?:개월|달)\\s*마다'],
+		everyNYears: ['{n}\\s*년\\s*마다'],
+		everyWeekday: ['매주\\s*{days}', '{days}\\s*마다'],
+		weekdays: ['평일마다', '매\\s*평일', '평일'],
+		weekends: ['주말마다', '매\\s*주말'],
+		monthlyOnDate: ['(?:매월|매달)\\s*{date}\\s*일'],
+		nthWeekday: ['(?:매월|매달)\\s*{nth}\\s*(?:주\\s*)?{day}'],
+	},
+};
+
+const GERMAN: DateLocale = {
+	id: 'de',
+	name: 'Deutsch (German)',
+	wordBoundaries: true,
+	weekdays: {
+		sunday: ['sonntag'],
+		monday: ['montag'],
+		tuesday: ['dienstag'],
+		wednesday: ['mittwoch'],
+		thursday: ['donnerstag'],
+		friday: ['freitag'],
+		saturday: ['samstag', 'sonnabend'],
+	},
+	months: [
+		['januar', 'jan'], ['februar', 'feb'], ['märz', 'maerz', 'mär'], ['april', 'apr'],
+		['mai'], ['juni', 'jun'], ['juli', 'jul'], ['august', 'aug'],
+		['september', 'sept', 'sep'], ['oktober', 'okt'], ['november', 'nov'], ['dezember', 'dez'],
+	],
+	ordinals: [
+		['ersten', 'erster', '1.'],
+		['zweiten', 'zweiter', '2.'],
+		['dritten', 'dritter', '3.'],
+		['vierten', 'vierter', '4.'],
+		['fünften', 'fünfter', '5.'],
+	],
+	last: ['letzten', 'letzter'],
+	am: ['vormittags', 'morgens'],
+	pm: ['nachmittags', 'abends'],
+	listSeparators: [',', 'und'],
+	dates: {
+		today: ['heute'],
+		tomorrow: ['morgen'],
+		dayAfterTomorrow: ['übermorgen'],
+		yesterday: ['gestern'],
+		nextDay: ['nächsten\\s+{day}', 'kommenden\\s+{day}'],
+		thisDay: ['diesen\\s+{day}'],
+		lastDay: ['letzten\\s+{day}'],
+		nextWeekDay: ['{day}\\s+nächste\\s+woche'],
+		dayOfWeek: ['(?:am\\s+)?{day}'],
+		inMinutes: ['in\\s+{n}\\s+minuten?'],
+		inHours: ['in\\s+{n}\\s+stunden?'],
+		inDays: ['in\\s+{n}\\s+tagen?'],
+		inWeeks: ['in\\s+{n}\\s+wochen?'],
+		inMonths: ['in\\s+{n}\\s+monaten?'],
+		inYears: ['in\\s+{n}\\s+jahren?'],
+		daysAgo: ['vor\\s+{n}\\s+tagen?'],
+		nextWeek: ['nächste\\s+woche'],
+		nextMonth: ['nächsten\\s+monat'],
+		nextYear: ['nächstes\\s+jahr'],
+		endOfWeek: ['ende\\s+der\\s+woche'],
+		endOfMonth: ['ende\\s+des\\s+monats', 'monatsende'],
+		endOfQuarter: ['ende\\s+des\\s+quartals', 'quartalsende'],
+		endOfYear: ['ende\\s+des\\s+jahres', 'jahresende'],
+		monthDay: ['(?:am\\s+)?{date}\\.\\s*{month}(?:\\s+{year})?'],
+	},
+	times: ['(?:um\\s+)?{hour}(?::{minute})?\\s*uhr(?:\\s+{ampm})?', 'um\\s+{hour}:{minute}'],
+	recurrence: {
+		daily: ['täglich', 'jeden\\s+tag'],
+		weekly: ['wöchentlich', 'jede\\s+woche'],
+		monthly: ['monatlich', 'jeden\\s+monat'],
+		yearly: ['jährlich', 'jedes\\s+jahr'],
+		everyNDays: ['alle\\s+{n}\\s+tage'],
+		everyNWeeks: ['alle\\s+{n}\\s+wochen'],
+		everyNMonths: ['alle\\s+{n}\\s+monate'],
+		everyNYears: ['alle\\s+{n}\\s+jahre'],
+		everyWeekday: ['jeden\\s+{days}'],
+		weekdays: ['werktags', 'an\\s+werktagen'],
+		weekends: ['am\\s+wochenende', 'wochenends'],
+		monthlyOnDate: ['am\\s+{date}\\.\\s+jeden\\s+monats', 'monatlich\\s+am\\s+{date}\\.'],
+		nthWeekday: ['jeden\\s+{nth}\\s+{day}(?:\\s+im\\s+monat)?', '(?:am\\s+)?{nth}\\s+{day}\\s+jeden\\s+monats'],
+	},
+};
+
+const JAPANESE: DateLocale = {
+	id: 'ja',
+	name: '日本語 (Japanese)',
+	wordBoundaries: false,
+	weekdays: {
+		sunday: ['日曜日', '日曜'],
+		monday: ['月曜日', '月曜'],
+		tuesday: ['火曜日', '火曜'],
+		wednesday: ['水曜日', '水曜'],
+		thursday: ['木曜日', '木曜'],
+		friday: ['金曜日', '金曜'],
+		saturday: ['土曜日', '土曜'],
+	},
+	months: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'].map(month => [month]),
+	ordinals: [
+		['第1', '第一'],
+		['第2', '第二'],
+		['第3', '第三'],
+		['第4', '第四'],
+		['第5', '第五'],
+	],
+	last: ['最終', '最後の'],
+	am: ['午前'],
+	pm: ['午後'],
+	listSeparators: ['、', ',', 'と'],
+	dates: {
+		today: ['今日', 'きょう'],
+		tomorrow: ['明日', 'あした'],
+		dayAfterTomorrow: ['明後日', 'あさって'],
+		yesterday: ['昨日', 'きのう'],
+		thisDay: ['今週の?{day}'],
+		lastDay: ['先週の?{day}'],
+		nextWeekDay: ['来週の?{day}'],
+		nextDay: ['次の{day}'],
+		dayOfWeek: ['{day}'],
+		inMinutes: ['{n}分後'],
+		inHours: ['{n}時間後'],
+		inDays: ['{n}日後'],
+		inWeeks: ['{n}週間後'],
+		inMonths: ['{n}[かヶケカ]月後'],
+		inYears: ['{n}年後'],
+		daysAgo: ['{n}日前'],
+		nextWeek: ['来週'],
+		nextMonth: ['来月'],
+		nextYear: ['来年'],
+		endOfWeek: ['今週末'],
+		endOfMonth: ['月末'],
+		endOfQuarter: ['四半期末'],
+		endOfYear: ['年末'],
+		monthDay: ['(?:{year}年)?{month}{date}日'],
+	},
+	times: ['(?:{ampm})?{hour}時(?:{minute}分)?'],
+	recurrence: {
+		daily: ['毎日'],
+		weekly: ['毎週'],
+		monthly: ['毎月'],
+		yearly: ['毎年'],
+		everyNDays: ['{n}日ごと'],
+		everyNWeeks: ['{n}週間?ごと'],
+		everyNMonths: ['{n}[かヶケカ]月ごと'],
+		everyNYears: ['{n}年ごと'],
+		everyWeekday: ['毎週{days}'],
+		weekdays: ['平日'],
+		weekends: ['毎週末', '週末ごと'],
+		monthlyOnDate: ['毎月{date}日'],
+		nthWeekday: ['毎月{nth}{day}'],
+	},
+};
+
+export const DATE_LOCALES: Record<string, DateLocale> = {
+	ko: KOREAN,
+	de: GERMAN,
+	ja: JAPANESE,
+};
+
+/**
+ * Locale pack for an id, or null for English and unknown ids
+ */
+export function getDateLocale(id: string | undefined): DateLocale | null {
+	return id ? DATE_LOCALES[id] || null : null;
+}
+
+// ============ Matching ============
+
+interface CompiledPhrase<K extends string> {
+	kind: K;
+	regex: RegExp;
+	placeholders: string[];
+}
+
+interface CompiledLocale {
+	dates: CompiledPhrase<LocalizedDateKind>[];
+	times: CompiledPhrase<'time'>[];
+	recurrence: CompiledPhrase<LocalizedRecurrenceKind>[];
+	names: Record<string, Map<string, string>>;   // placeholder → spelling → normalized value
+}
+
+const compiledLocales = new Map<string, CompiledLocale>();
+
+/**
+ * Date phrases of a locale found in text (first match of each phrase)
+ */
+export function matchLocalizedDates(text: string, locale: DateLocale): LocalizedMatch<LocalizedDateKind>[] {
+	return matchPhrases(text, compileLocale(locale).dates, locale);
+}
+
+/**
+ * Earliest time phrase of a locale in text, as HH:mm
+ */
+export function matchLocalizedTime(text: string, locale: DateLocale): { start: number; end: number; time: string } | null {
+	const matches = matchPhrases(text, compileLocale(locale).times, locale)
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+	for (const match of matches) {
+		let hours = parseInt(match.values.hour, 10);
+		const minutes = match.values.minute ? parseInt(match.values.minute, 10) : 0;
+		if (match.values.ampm === 'pm' && hours < 12) hours += 12;
+		if (match.values.ampm === 'am' && hours === 12) hours = 0;
+		if (hours > 23 || minutes > 59) continue;
+		return {
+			start: match.start,
+			end: match.end,
+			time: `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`,
+		};
+	}
+	return null;
+}
+
+/**
+ * Earliest (and then longest) recurrence phrase of a locale in text
+ */
+export function matchLocalizedRecurrence(text: string, locale: DateLocale): LocalizedMatch<LocalizedRecurrenceKind> | null {
+	const matches = matchPhrases(text, compileLocale(locale).recurrence, locale)
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+	return matches[0] || null;
+}
+
+function matchPhrases<K extends string>(text: string, phrases: CompiledPhrase<K>[], locale: DateLocale): LocalizedMatch<K>[] {
+	const { names } = compileLocale(locale);
+	const result: LocalizedMatch<K>[] = [];
+
+	for (const phrase of phrases) {
+		const match = text.match(phrase.regex);
+		if (!match || match.index === undefined) continue;
+
+		// With word boundaries, group 1 is the character before the phrase
+		const offset = locale.wordBoundaries ? 1 : 0;
+		const leading = locale.wordBoundaries ? match[1].length : 0;
+		const values: Record<string, string> = {};
+		phrase.placeholders.forEach((placeholder, index) => {
+			const value = match[index + 1 + offset];
+			if (value === undefined) return;
+			if (placeholder === 'days') {
+				values.days = findNames(value, names.day).join(',');
+			} else if (names[placeholder]) {
+				values[placeholder] = names[placeholder].get(value.toLowerCase()) || value;
+			} else {
+				values[placeholder] = value;
+			}
+		});
+
+		result.push({
+			kind: phrase.kind,
+			start: match.index + leading,
+			end: match.index + match[0].length,
+			values,
+		});
+	}
+	return result;
+}
+
+// Normalized values of every name in text, in order of appearance
+function findNames(text: string, names: Map<string, string>): string[] {
+	const regex = new RegExp(alternation(Array.from(names.keys())), 'gi');
+	return (text.match(regex) || []).map(name => names.get(name.toLowerCase()) || name);
+}
+
+function compileLocale(locale: DateLocale): CompiledLocale {
+	const cached = compiledLocales.get(locale.id);
+	if (cached) return cached;
+
+	const names: Record<string, Map<string, string>> = {
+		day: new Map(),
+		month: new Map(),
+		nth: new Map(),
+		ampm: new Map(),
+	};
+	for (const [day, spellings] of Object.entries(locale.weekdays)) {
+		for (const spelling of spellings) names.day.set(spelling.toLowerCase(), day);
+	}
+	locale.months.forEach((spellings, index) => {
+		for (const spelling of spellings) names.month.set(spelling.toLowerCase(), String(index + 1));
+	});
+	locale.ordinals.forEach((spellings, index) => {
+		for (const spelling of spellings) names.nth.set(spelling.toLowerCase(), String(index + 1));
+	});
+	for (const spelling of locale.last) names.nth.set(spelling.toLowerCase(), '-1');
+	for (const spelling of locale.am) names.ampm.set(spelling.toLowerCase(), 'am');
+	for (const spelling of locale.pm) names.ampm.set(spelling.toLowerCase(), 'pm');
+
+	const day = alternation(Array.from(names.day.keys()));
+	const separator = `\\s*(?:${locale.listSeparators.join('|')})\\s*`;
+	const sources: Record<string, string> = {
+		day,
+		days: `${day}(?:${separator}${day})*`,
+		month: alternation(Array.from(names.month.keys())),
+		nth: alternation(Array.from(names.nth.keys())),
+		ampm: alternation(Array.from(names.ampm.keys())),
+		n: '\\d+',
+		date: '\\d{1,2}',
+		year: '\\d{4}',
+		hour: '\\d{1,2}',
+		minute: '\\d{2}',
+	};
+
+	const compile = <K extends string>(kind: K, template: string): CompiledPhrase<K> => {
+		const placeholders: string[] = [];
+		const body = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+			placeholders.push(name);
+			return `(${sources[name]})`;
+		});
+		const source = locale.wordBoundaries
+			? `(^|[^\\wÀ-ɏ])(?:${body})(?=$|[^\\wÀ-ɏ])`
+			: body;
+		return { kind, regex: new RegExp(source, 'i'), placeholders };
+	};
+
+	const compiled: CompiledLocale = {
+		dates: [],
+		times: locale.times.map(template => compile('time' as const, template)),
+		recurrence: [],
+		names,
+	};
+	for (const [kind, templates] of Object.entries(locale.dates)) {
+		for (const template of templates || []) compiled.dates.push(compile(kind as LocalizedDateKind, template));
+	}
+	for (const [kind, templates] of Object.entries(locale.recurrence)) {
+		for (const template of templates || []) compiled.recurrence.push(compile(kind as LocalizedRecurrenceKind, template));
+	}
+
+	compiledLocales.set(locale.id, compiled);
+	return compiled;
+}
+
+// Regex alternation of literal names, longest first so "월요일" wins over a shorter prefix
+function alternation(names: string[]): string {
+	return `(?:${[...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
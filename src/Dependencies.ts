@@ -0,0 +1,217 @@
+/**
+ * Card dependencies for Base Kanban
+ *
+ * Cards point at each other with [blocked-by::] and [blocks::] fields, each holding a
+ * comma-separated list of card references:
+ * - ^card-id              A card on the same board
+ * - [[Board#^card-id]]    A card on another board
+ *
+ * A card is blocked while any of its blockers is open. Its blockers are the cards in its
+ * own [blocked-by::] plus the cards on the same board that list it in [blocks::].
+ */
+
+import { App, TFile } from 'obsidian';
+import { KanbanBoard, KanbanCard, KanbanLane, LaneStatusMapping } from './types';
+import { parseKanbanBoard, ParseOptions, setCardField } from './parser';
+
+export type DependencyField = 'blocked-by' | 'blocks';
+
+export interface CardReference {
+	boardLink?: string;              // Link to another board; absent for the same board
+	cardId: string;
+}
+
+export interface LinkedCard {
+	reference: CardReference;
+	card: KanbanCard;
+}
+
+const REFERENCE_REGEX = /\[\[([^\]|#]*)#\^([\w-]+)(?:\|[^\]]*)?\]\]|\^([\w-]+)/g;
+
+/**
+ * Card references in a [blocked-by::] or [blocks::] value
+ */
+export function parseCardReferences(value: string | number | undefined): CardReference[] {
+	if (value === undefined) return [];
+	const references: CardReference[] = [];
+	const regex = new RegExp(REFERENCE_REGEX.source, 'g');
+	let match;
+	while ((match = regex.exec(String(value))) !== null) {
+		references.push(match[3]
+			? { cardId: match[3] }
+			: { boardLink: match[1] || undefined, cardId: match[2] });
+	}
+	return references;
+}
+
+/**
+ * A card reference as written in a field: ^id or [[Board#^id]]
+ */
+export function formatCardReference(reference: CardReference): string {
+	return reference.boardLink ? `[[${reference.boardLink}#^${reference.cardId}]]` : `^${reference.cardId}`;
+}
+
+export function getCardReferences(card: KanbanCard, field: DependencyField): CardReference[] {
+	return parseCardReferences(card.metadata[field]);
+}
+
+/**
+ * Replace a card's references in a field, dropping the field when the list is empty
+ */
+export function setCardReferences(card: KanbanCard, field: DependencyField, references: CardReference[]): void {
+	setCardField(card, field, references.length > 0 ? references.map(formatCardReference).join(', ') : undefined);
+}
+
+export function isSameReference(a: CardReference, b: CardReference): boolean {
+	return a.cardId === b.cardId && (a.boardLink || '') === (b.boardLink || '');
+}
+
+/**
+ * Whether a lane stands for finished work: mapped to a "done" status,
+ * or (when unmapped) titled like "Done" or "Completed"
+ */
+export function isDoneLane(lane: KanbanLane, laneMapping: LaneStatusMapping = {}): boolean {
+	const status = laneMapping[lane.title];
+	if (status) return status.toLowerCase() === 'done';
+	return /\b(done|complete|completed)\b/i.test(lane.title);
+}
+
+/**
+ * Find a card by block ID among a board's lanes and archive
+ */
+export function findCardById(board: KanbanBoard, cardId: string): KanbanCard | null {
+	for (const lane of board.lanes) {
+		const card = lane.cards.find(c => c.id === cardId);
+		if (card) return card;
+	}
+	return board.archive.find(c => c.id === cardId) || null;
+}
+
+/**
+ * Looks up cards on other boards. Boards are parsed on first use and kept until
+ * their file changes; lookups return undefined while a board is still loading.
+ */
+export class CardReferenceResolver {
+	private app: App;
+	private getOptions: () => ParseOptions;
+	private onLoad: (path: string) => void;
+	private boards: Map<string, KanbanBoard | null> = new Map();
+	private loading: Set<string> = new Set();
+
+	constructor(app: App, getOptions: () => ParseOptions, onLoad: (path: string) => void) {
+		this.app = app;
+		this.getOptions = getOptions;
+		this.onLoad = onLoad;
+	}
+
+	/**
+	 * The card a reference points at, null when it does not exist,
+	 * or undefined while its board is loading
+	 */
+	getCard(reference: CardReference, sourcePath: string, localBoard: KanbanBoard): KanbanCard | null | undefined {
+		if (!reference.boardLink) {
+			return findCardById(localBoard, reference.cardId);
+		}
+
+		const file = this.app.metadataCache.getFirstLinkpathDest(reference.boardLink, sourcePath);
+		if (!file) return null;
+		if (file.path === sourcePath) {
+			return findCardById(localBoard, reference.cardId);
+		}
+
+		const board = this.boards.get(file.path);
+		if (board === undefined) {
+			this.load(file);
+			return undefined;
+		}
+		return board ? findCardById(board, reference.cardId) : null;
+	}
+
+	/**
+	 * Forget a cached board; returns whether it was cached
+	 */
+	invalidate(path: string): boolean {
+		return this.boards.delete(path);
+	}
+
+	private async load(file: TFile): Promise<void> {
+		if (this.loading.has(file.path)) return;
+		this.loading.add(file.path);
+		try {
+			const markdown = await this.app.vault.cachedRead(file);
+			this.boards.set(file.path, parseKanbanBoard(markdown, this.getOptions()));
+		} catch (error) {
+			console.error('Error loading board for card references:', error);
+			this.boards.set(file.path, null);
+		} finally {
+			this.loading.delete(file.path);
+		}
+		this.onLoad(file.path);
+	}
+}
+
+/**
+ * Cards that block a card, resolved. Unresolved references are left out.
+ */
+export function getBlockers(
+	card: KanbanCard,
+	board: KanbanBoard,
+	sourcePath: string,
+	resolver: CardReferenceResolver
+): LinkedCard[] {
+	const blockers: LinkedCard[] = [];
+	for (const reference of getCardReferences(card, 'blocked-by')) {
+		const blocker = resolver.getCard(reference, sourcePath, board);
+		if (blocker) blockers.push({ reference, card: blocker });
+	}
+
+	// Cards on this board that say they block this one
+	for (const lane of board.lanes) {
+		for (const other of lane.cards) {
+			if (other === card || blockers.some(b => b.card === other)) continue;
+			const blocksThis = getCardReferences(other, 'blocks')
+				.some(reference => reference.cardId === card.id && resolver.getCard(reference, sourcePath, board) === card);
+			if (blocksThis) blockers.push({ reference: { cardId: other.id }, card: other });
+		}
+	}
+	return blockers;
+}
+
+/**
+ * Blockers of a card that are still open
+ */
+export function getOpenBlockers(
+	card: KanbanCard,
+	board: KanbanBoard,
+	sourcePath: string,
+	resolver: CardReferenceResolver
+): LinkedCard[] {
+	return getBlockers(card, board, sourcePath, resolver).filter(blocker => !blocker.card.completed);
+}
+
+/**
+ * Cards that a card blocks, resolved: the cards in its [blocks::] plus the cards
+ * on the same board that list it in [blocked-by::]
+ */
+export function getDependents(
+	card: KanbanCard,
+	board: KanbanBoard,
+	sourcePath: string,
+	resolver: CardReferenceResolver
+): LinkedCard[] {
+	const dependents: LinkedCard[] = [];
+	for (const reference of getCardReferences(card, 'blocks')) {
+		const dependent = resolver.getCard(reference, sourcePath, board);
+		if (dependent) dependents.push({ reference, card: dependent });
+	}
+
+	for (const lane of board.lanes) {
+		for (const other of lane.cards) {
+			if (other === card || dependents.some(d => d.card === other)) continue;
+			const blockedByThis = getCardReferences(other, 'blocked-by')
+				.some(reference => reference.cardId === card.id && resolver.getCard(reference, sourcePath, board) === card);
+			if (blockedByThis) dependents.push({ reference: { cardId: other.id }, card: other });
+		}
+	}
+	return dependents;
+}
@@ -0,0 +1,324 @@
+/**
+ * Filter queries for Base Kanban
+ *
+ * The query box of the filter toolbar takes expressions such as
+ *
+ *   (tag:bug OR tag:regression) AND priority>=high AND due<+7d AND NOT lane:Done
+ *
+ * - Terms are key:value, or a comparison with =, !=, <, <=, > or >=
+ * - AND, OR and NOT (in any case) and parentheses combine terms; terms side by side are ANDed
+ * - Words without a key search the title, notes and content
+ * - Values with spaces are quoted: lane:"In progress"
+ *
+ * Keys:
+ * - tag                   #tags (tag:bug also matches bug/ui)
+ * - lane                  Lane title
+ * - title                 Words in the title
+ * - due, start            Dates: YYYY-MM-DD, today, tomorrow, yesterday or +3d, -1w, +2m
+ * - priority              low < medium < high < urgent
+ * - assignee              One of the card's assignees; "me" is the name in the settings
+ * - completed             true or false
+ * - any other key         A [key::value] field used on the board (progress, project, status...)
+ *
+ * Other words with a colon, such as links, are searched as text. key:* matches cards that have the field and key:none cards that don't.
+ */
+
+import { KanbanCard } from './types';
+import { formatISODate } from './parser';
+import { isAssignedTo } from './AggregateBoard';
+
+export type FilterQueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterQueryNode =
+	| { type: 'and' | 'or'; children: FilterQueryNode[] }
+	| { type: 'not'; child: FilterQueryNode }
+	| { type: 'term'; key: string; operator: FilterQueryOperator; value: string }
+	| { type: 'text'; value: string };
+
+export interface FilterQueryResult {
+	node: FilterQueryNode | null;    // null for an empty query, or one with an error
+	error?: { message: string; offset: number };
+}
+
+// What a card is matched against besides its own fields
+export interface FilterQueryContext {
+	laneTitle: string;
+	myName: string;
+	today: Date;
+}
+
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+const DATE_KEYS = ['due', 'start'];
+
+// Keys that are terms on every board; field keys are terms only on boards that use them
+const KNOWN_KEYS = ['tag', 'lane', 'title', 'due', 'start', 'priority', 'assignee', 'completed'];
+
+// Relative dates: today, tomorrow, yesterday, or a signed count of days, weeks or months
+const RELATIVE_DATE_REGEX = /^([+-]\d+)([dwm])$/i;
+
+class FilterQuerySyntaxError extends Error {
+	offset: number;
+
+	constructor(message: string, offset: number) {
+		super(message);
+		this.offset = offset;
+	}
+}
+
+type Token =
+	| { type: '('; offset: number }
+	| { type: ')'; offset: number }
+	| { type: 'word'; text: string; offset: number }
+	| { type: 'term'; key: string; operator: FilterQueryOperator; value: string; offset: number };
+
+function readValue(query: string, start: number): { value: string; end: number } {
+	if (query[start] === '"') {
+		const close = query.indexOf('"', start + 1);
+		if (close === -1) throw new FilterQuerySyntaxError('Missing closing quote', start);
+		return { value: query.slice(start + 1, close), end: close + 1 };
+	}
+	const match = query.slice(start).match(/^[^\s()"]*/)!;
+	return { value: match[0], end: start + match[0].length };
+}
+
+function tokenize(query: string, fieldKeys: string[]): Token[] {
+	const isKey = (key: string) => KNOWN_KEYS.includes(key) || fieldKeys.includes(key);
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < query.length) {
+		const char = query[i];
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === '(' || char === ')') {
+			tokens.push({ type: char, offset: i });
+			i++;
+		} else {
+			const term = query.slice(i).match(/^([\w-]+)(<=|>=|!=|:|=|<|>)/);
+			if (term && isKey(term[1].toLowerCase())) {
+				const { value, end } = readValue(query, i + term[0].length);
+				if (!value) throw new FilterQuerySyntaxError(`Missing a value after ${term[0]}`, i);
+				tokens.push({ type: 'term', key: term[1].toLowerCase(), operator: term[2] as FilterQueryOperator, value, offset: i });
+				i = end;
+			} else {
+				const { value, end } = readValue(query, i);
+				if (!value) throw new FilterQuerySyntaxError(`Unexpected "${char}"`, i);
+				tokens.push({ type: 'word', text: value, offset: i });
+				i = end;
+			}
+		}
+	}
+	return tokens;
+}
+
+function parseDateValue(value: string, today: Date): string | null {
+	const lower = value.toLowerCase();
+	const offsets: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+	if (lower in offsets) {
+		return formatISODate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + offsets[lower]));
+	}
+	const relative = lower.match(RELATIVE_DATE_REGEX);
+	if (relative) {
+		const count = parseInt(relative[1], 10);
+		const date = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+		if (relative[2] === 'm') {
+			date.setMonth(date.getMonth() + count);
+		} else {
+			date.setDate(date.getDate() + count * (relative[2] === 'w' ? 7 : 1));
+		}
+		return formatISODate(date);
+	}
+	return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+// Values that can't mean anything for their key are reported with the rest of the syntax
+function checkTerm(token: Extract<Token, { type: 'term' }>): void {
+	const { key, operator, value } = token;
+	if (value === '*' || value.toLowerCase() === 'none') {
+		if (operator !== ':' && operator !== '=') {
+			throw new FilterQuerySyntaxError(`Use ${key}:${value} to match cards by whether they have a ${key}`, token.offset);
+		}
+		return;
+	}
+	const ordered = operator === '<' || operator === '<=' || operator === '>' || operator === '>=';
+	if (DATE_KEYS.includes(key) && parseDateValue(value, new Date()) === null) {
+		throw new FilterQuerySyntaxError(`"${value}" is not a date (try YYYY-MM-DD, today or +7d)`, token.offset);
+	}
+	if (key === 'priority' && !PRIORITIES.includes(value.toLowerCase())) {
+		throw new FilterQuerySyntaxError(`Priority is one of ${PRIORITIES.join(', ')}`, token.offset);
+	}
+	if (key === 'completed' && !/^(true|false|yes|no)$/i.test(value)) {
+		throw new FilterQuerySyntaxError('Completed is true or false', token.offset);
+	}
+	if (ordered && ['tag', 'lane', 'title', 'assignee', 'completed'].includes(key)) {
+		throw new FilterQuerySyntaxError(`${key} can't be compared with ${operator}`, token.offset);
+	}
+}
+
+/**
+ * Parse a filter query. An empty query gives no node and no error. fieldKeys are the
+ * [key::value] fields used on the board, which can be queried besides the known keys.
+ */
+export function parseFilterQuery(query: string, fieldKeys: string[] = []): FilterQueryResult {
+	let tokens: Token[];
+	let position = 0;
+
+	const peek = (): Token | undefined => tokens[position];
+	const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+		token?.type === 'word' && token.text.toUpperCase() === keyword;
+	const endOffset = () => peek()?.offset ?? query.length;
+
+	// or := and (OR and)*
+	const parseOr = (): FilterQueryNode => {
+		const children = [parseAnd()];
+		while (isKeyword(peek(), 'OR')) {
+			position++;
+			children.push(parseAnd());
+		}
+		return children.length === 1 ? children[0] : { type: 'or', children };
+	};
+
+	// and := not ((AND)? not)*
+	const parseAnd = (): FilterQueryNode => {
+		const children = [parseNot()];
+		for (;;) {
+			const token = peek();
+			if (!token || token.type === ')' || isKeyword(token, 'OR')) break;
+			if (isKeyword(token, 'AND')) position++;
+			children.push(parseNot());
+		}
+		return children.length === 1 ? children[0] : { type: 'and', children };
+	};
+
+	// not := NOT not | ( or ) | term
+	const parseNot = (): FilterQueryNode => {
+		const token = peek();
+		if (!token) throw new FilterQuerySyntaxError('Expected a term', query.length);
+		if (isKeyword(token, 'NOT')) {
+			position++;
+			return { type: 'not', child: parseNot() };
+		}
+		if (token.type === '(') {
+			position++;
+			const node = parseOr();
+			if (peek()?.type !== ')') throw new FilterQuerySyntaxError('Expected ")"', endOffset());
+			position++;
+			return node;
+		}
+		if (token.type === ')') throw new FilterQuerySyntaxError('Unexpected ")"', token.offset);
+		if (token.type === 'word') {
+			if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+				throw new FilterQuerySyntaxError(`Expected a term before ${token.text}`, token.offset);
+			}
+			position++;
+			return { type: 'text', value: token.text };
+		}
+		position++;
+		checkTerm(token);
+		return { type: 'term', key: token.key, operator: token.operator, value: token.value };
+	};
+
+	try {
+		tokens = tokenize(query, fieldKeys.map(key => key.toLowerCase()));
+		if (tokens.length === 0) return { node: null };
+		const node = parseOr();
+		if (position < tokens.length) throw new FilterQuerySyntaxError('Unexpected ")"', endOffset());
+		return { node };
+	} catch (error) {
+		if (error instanceof FilterQuerySyntaxError) {
+			return { node: null, error: { message: error.message, offset: error.offset } };
+		}
+		throw error;
+	}
+}
+
+function compare(a: number | string, b: number | string, operator: FilterQueryOperator): boolean {
+	switch (operator) {
+		case ':':
+		case '=': return a === b;
+		case '!=': return a !== b;
+		case '<': return a < b;
+		case '<=': return a <= b;
+		case '>': return a > b;
+		case '>=': return a >= b;
+	}
+}
+
+// The card's value for a key, as a string, or undefined when it has none
+function getFieldValue(card: KanbanCard, key: string, context: FilterQueryContext): string | undefined {
+	switch (key) {
+		case 'lane': return context.laneTitle;
+		case 'title': return card.title;
+		case 'due': return card.dueDate;
+		case 'start': return card.startDate;
+		case 'completed': return String(card.completed);
+		case 'tag': return card.tags.length > 0 ? card.tags.join(' ') : undefined;
+	}
+	const value = card.metadata[key];
+	return value === undefined || value === '' ? undefined : String(value);
+}
+
+function matchesTerm(card: KanbanCard, node: Extract<FilterQueryNode, { type: 'term' }>, context: FilterQueryContext): boolean {
+	const { key, operator } = node;
+	const value = node.value.toLowerCase();
+	const fieldValue = getFieldValue(card, key, context);
+
+	if (value === '*') return fieldValue !== undefined;
+	if (value === 'none') return fieldValue === undefined;
+
+	const negated = operator === '!=';
+	const equality = operator === ':' || operator === '=' || negated;
+
+	switch (key) {
+		case 'tag': {
+			const hasTag = card.tags.some(tag => tag.toLowerCase() === value || tag.toLowerCase().startsWith(`${value}/`));
+			return hasTag !== negated;
+		}
+		case 'title':
+			return card.title.toLowerCase().includes(value) !== negated;
+		case 'assignee': {
+			const name = value === 'me' ? context.myName : node.value;
+			return (!!name && isAssignedTo(card, name)) !== negated;
+		}
+		case 'completed':
+			return (card.completed === (value === 'true' || value === 'yes')) !== negated;
+		case 'priority': {
+			// A priority that isn't one of the known ones has no place in their order
+			const rank = fieldValue === undefined ? -1 : PRIORITIES.indexOf(fieldValue.toLowerCase());
+			if (rank === -1) return negated;
+			return compare(rank, PRIORITIES.indexOf(value), operator);
+		}
+	}
+
+	if (fieldValue === undefined) return negated;
+
+	if (DATE_KEYS.includes(key)) {
+		return compare(fieldValue, parseDateValue(node.value, context.today) || '', operator);
+	}
+
+	const number = Number(fieldValue);
+	const targetNumber = Number(node.value);
+	if (!isNaN(number) && !isNaN(targetNumber)) {
+		return compare(number, targetNumber, operator);
+	}
+
+	return equality
+		? compare(fieldValue.toLowerCase(), value, operator)
+		: compare(fieldValue.toLowerCase().localeCompare(value), 0, operator);
+}
+
+/**
+ * Whether a card matches a parsed filter query
+ */
+export function cardMatchesQuery(card: KanbanCard, node: FilterQueryNode, context: FilterQueryContext): boolean {
+	switch (node.type) {
+		case 'and': return node.children.every(child => cardMatchesQuery(card, child, context));
+		case 'or': return node.children.some(child => cardMatchesQuery(card, child, context));
+		case 'not': return !cardMatchesQuery(card, node.child, context);
+		case 'text': {
+			const text = node.value.toLowerCase();
+			return [card.title, card.notes, card.content].some(field => field?.toLowerCase().includes(text));
+		}
+		case 'term': return matchesTerm(card, node, context);
+	}
+}
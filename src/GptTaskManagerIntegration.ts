@@ -380,6 +380,7 @@ export function createBoardFromGptTasks(
 				statusField: config.statusField,
 				progressField: 'progress',
 				projectField: config.projectField,
+				spentField: 'spent',
 				laneMapping: { ...GPT_TASK_MANAGER_LANE_MAPPING },
 				conflictResolution: 'prompt',
 				syncInterval: 0,
@@ -540,6 +541,7 @@ export function configureBaseSyncForGpt(config: GptTaskManagerConfig): import('.
 		statusField: config.statusField,
 		progressField: 'progress',
 		projectField: config.projectField,
+		spentField: 'spent',
 		laneMapping: { ...GPT_TASK_MANAGER_LANE_MAPPING },
 		conflictResolution: 'prompt',
 		syncInterval: 0,
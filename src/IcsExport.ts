@@ -0,0 +1,266 @@
+/**
+ * iCalendar (.ics) export for Base Kanban
+ *
+ * Every card with a due date becomes a VEVENT (or VTODO), so boards can be
+ * subscribed to from a calendar app:
+ * - Cards with a due time become one-hour events; date-only cards become all-day events
+ * - RecurrencePattern → RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, COUNT, UNTIL),
+ *   with the holidays an "except holidays" recurrence skips as EXDATE
+ * - reminderTime → VALARM
+ * - UIDs are derived from card IDs, so re-exporting updates events instead of duplicating them
+ *
+ * Dates are written as floating local times, matching how the board stores them.
+ */
+
+import { KanbanBoard, KanbanCard, RecurrencePattern, DayOfWeek } from './types';
+import { formatISODate, getNextOccurrence, parseRecurrence } from './parser';
+import { plainCardTitle } from './BoardExport';
+
+export type IcsComponent = 'VEVENT' | 'VTODO';
+
+export interface IcsBoardSource {
+	name: string;           // Board name, used in descriptions
+	board: KanbanBoard;
+	dateLocale?: string;    // Locale the board's recurrences are written in
+}
+
+const UID_DOMAIN = 'obsidian-base-kanban';
+
+const ICS_DAYS: Record<DayOfWeek, string> = {
+	sunday: 'SU',
+	monday: 'MO',
+	tuesday: 'TU',
+	wednesday: 'WE',
+	thursday: 'TH',
+	friday: 'FR',
+	saturday: 'SA',
+};
+
+/**
+ * Build a VCALENDAR containing every dated card of the given boards (archived cards are skipped)
+ */
+export function boardsToIcs(sources: IcsBoardSource[], component: IcsComponent = 'VEVENT', holidays: string[] = [], now: Date = new Date()): string {
+	const lines: string[] = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:-//${UID_DOMAIN}//Kanban Export//EN`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+	];
+
+	const dtstamp = formatUtcDateTime(now);
+
+	for (const { name, board, dateLocale } of sources) {
+		for (const lane of board.lanes) {
+			for (const card of lane.cards) {
+				if (!card.dueDate) continue;
+				lines.push(...cardToComponent(card, name, lane.title, component, dtstamp, holidays, dateLocale));
+			}
+		}
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Stable UID for a card, so calendar apps replace the event on re-import
+ */
+export function cardUid(card: KanbanCard): string {
+	return `${card.id}@${UID_DOMAIN}`;
+}
+
+// Convert a single dated card to a VEVENT/VTODO block
+function cardToComponent(card: KanbanCard, boardName: string, laneTitle: string, component: IcsComponent, dtstamp: string, holidays: string[], dateLocale?: string): string[] {
+	const lines = [
+		`BEGIN:${component}`,
+		`UID:${cardUid(card)}`,
+		`DTSTAMP:${dtstamp}`,
+		`SUMMARY:${escapeText(plainCardTitle(card.title) || card.title)}`,
+	];
+
+	const date = card.dueDate!.replace(/-/g, '');
+	const time = card.dueTime ? card.dueTime.replace(':', '') + '00' : null;
+	const rrule = card.recurrence ? recurrenceToRRule(card.recurrence, !!time, dateLocale) : null;
+
+	if (component === 'VEVENT') {
+		if (time) {
+			lines.push(`DTSTART:${date}T${time}`, 'DURATION:PT1H');
+		} else {
+			lines.push(`DTSTART;VALUE=DATE:${date}`, `DTEND;VALUE=DATE:${nextDay(card.dueDate!)}`);
+		}
+	} else {
+		lines.push(...todoDates(card, rrule !== null), `STATUS:${card.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+	}
+
+	if (rrule) {
+		lines.push(`RRULE:${rrule}`);
+		const skipped = getSkippedHolidays(card, holidays).map(holiday => holiday.replace(/-/g, ''));
+		if (skipped.length > 0) {
+			lines.push(time
+				? `EXDATE:${skipped.map(holiday => `${holiday}T${time}`).join(',')}`
+				: `EXDATE;VALUE=DATE:${skipped.join(',')}`);
+		}
+	}
+
+	const description = [`Board: ${boardName}`, `Lane: ${laneTitle}`];
+	if (card.notes) description.push('', card.notes);
+	lines.push(`DESCRIPTION:${escapeText(description.join('\n'))}`);
+
+	if (card.tags.length > 0) {
+		lines.push(`CATEGORIES:${card.tags.map(escapeText).join(',')}`);
+	}
+
+	const trigger = card.reminderTime ? reminderToTrigger(card.reminderTime) : null;
+	if (trigger) {
+		lines.push(
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			`DESCRIPTION:${escapeText(plainCardTitle(card.title) || card.title)}`,
+			`TRIGGER:${trigger}`,
+			'END:VALARM'
+		);
+	}
+
+	lines.push(`END:${component}`);
+	return lines;
+}
+
+/**
+ * DTSTART and DUE of a VTODO. DUE is the deadline and has to come after DTSTART, so DTSTART
+ * is the card's start date when that is earlier. A recurring card needs DTSTART to anchor
+ * its RRULE: that is the due date, and DUE the end of that day (or an hour after the due time).
+ */
+function todoDates(card: KanbanCard, recurring: boolean): string[] {
+	const date = card.dueDate!.replace(/-/g, '');
+	const time = card.dueTime ? card.dueTime.replace(':', '') + '00' : null;
+
+	if (recurring) {
+		if (!time) return [`DTSTART;VALUE=DATE:${date}`, `DUE;VALUE=DATE:${nextDay(card.dueDate!)}`];
+		const [year, month, day] = card.dueDate!.split('-').map(Number);
+		const [hours, minutes] = card.dueTime!.split(':').map(Number);
+		const due = new Date(year, month - 1, day, hours + 1, minutes);
+		return [`DTSTART:${date}T${time}`, `DUE:${formatLocalDateTime(due)}`];
+	}
+
+	const lines: string[] = [];
+	if (card.startDate && card.startDate < card.dueDate!) {
+		const start = card.startDate.replace(/-/g, '');
+		lines.push(time ? `DTSTART:${start}T000000` : `DTSTART;VALUE=DATE:${start}`);
+	}
+	lines.push(time ? `DUE:${date}T${time}` : `DUE;VALUE=DATE:${date}`);
+	return lines;
+}
+
+// Occurrences after the first that fall on holidays, which "except holidays" recurrences skip
+function getSkippedHolidays(card: KanbanCard, holidays: string[]): string[] {
+	if (!card.recurrence?.skipHolidays || holidays.length === 0) return [];
+	const lastHoliday = holidays.reduce((latest, holiday) => holiday > latest ? holiday : latest, '');
+	const series: RecurrencePattern = { ...card.recurrence, count: undefined, skipHolidays: false };
+
+	const skipped: string[] = [];
+	let occurrence = getNextOccurrence(series, new Date(`${card.dueDate}T00:00:00`));
+	for (let step = 0; occurrence && step < 1000; step++) {
+		const isoDate = formatISODate(occurrence);
+		if (isoDate > lastHoliday) break;
+		if (holidays.includes(isoDate)) skipped.push(isoDate);
+		occurrence = getNextOccurrence(series, occurrence);
+	}
+	return skipped;
+}
+
+/**
+ * Convert a recurrence pattern to an RRULE value. Returns null for patterns we could not parse.
+ * UNTIL takes precedence over COUNT, since RFC 5545 does not allow both.
+ */
+export function recurrenceToRRule(pattern: RecurrencePattern, timed: boolean, dateLocale?: string): string | null {
+	// Unparseable [recur::] text is kept with a placeholder frequency; don't export a made-up rule
+	if (pattern._rawPattern && !parseRecurrence(pattern._rawPattern, dateLocale).pattern) {
+		return null;
+	}
+
+	const parts = [`FREQ=${pattern.frequency.toUpperCase()}`];
+	if (pattern.interval && pattern.interval > 1) {
+		parts.push(`INTERVAL=${pattern.interval}`);
+	}
+	if (pattern.ordinalWeekdays && pattern.ordinalWeekdays.length > 0) {
+		parts.push(`BYDAY=${pattern.ordinalWeekdays.map(({ ordinal, day }) => `${ordinal}${ICS_DAYS[day]}`).join(',')}`);
+	} else if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+		parts.push(`BYDAY=${pattern.daysOfWeek.map(day => ICS_DAYS[day]).join(',')}`);
+	}
+	if (pattern.dayOfMonth) {
+		parts.push(`BYMONTHDAY=${pattern.dayOfMonth}`);
+	}
+	if (pattern.monthsOfYear && pattern.monthsOfYear.length > 0) {
+		parts.push(`BYMONTH=${pattern.monthsOfYear.join(',')}`);
+	}
+	if (pattern.endDate) {
+		const until = pattern.endDate.replace(/-/g, '');
+		parts.push(`UNTIL=${timed ? `${until}T235959` : until}`);
+	} else if (pattern.count) {
+		parts.push(`COUNT=${pattern.count}`);
+	}
+	return parts.join(';');
+}
+
+// Convert a reminder offset (30m, 1h, 2d) to a negative VALARM trigger duration
+function reminderToTrigger(reminderTime: string): string | null {
+	const match = reminderTime.match(/^(\d+)\s*(m|min|h|hr|d|day)s?$/i);
+	if (!match) return null;
+
+	const value = parseInt(match[1], 10);
+	const unit = match[2].toLowerCase();
+	if (unit === 'd' || unit === 'day') return `-P${value}D`;
+	if (unit === 'h' || unit === 'hr') return `-PT${value}H`;
+	return `-PT${value}M`;
+}
+
+function nextDay(isoDate: string): string {
+	const [year, month, day] = isoDate.split('-').map(Number);
+	const date = new Date(year, month - 1, day + 1);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+// Floating local date-time, as the board's dates are written
+function formatLocalDateTime(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+function escapeText(text: string): string {
+	return text
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 3.1)
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	if (encoder.encode(line).length <= 75) return line;
+
+	const chunks: string[] = [];
+	let current = '';
+	let currentBytes = 0;
+	for (const char of line) {
+		const charBytes = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards the limit
+		const limit = chunks.length === 0 ? 75 : 74;
+		if (currentBytes + charBytes > limit) {
+			chunks.push(current);
+			current = '';
+			currentBytes = 0;
+		}
+		current += char;
+		currentBytes += charBytes;
+	}
+	chunks.push(current);
+	return chunks.join('\r\n ');
+}
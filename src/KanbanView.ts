@@ -1,7 +1,18 @@
-import { Menu, Modal, TextFileView, TFile, WorkspaceLeaf, setIcon, Setting, Notice } from 'obsidian';
+import { Menu, Modal, FuzzySuggestModal, MarkdownView, TextFileView, TFile, WorkspaceLeaf, ViewStateResult, setIcon, Setting, Notice, debounce } from 'obsidian';
 import Sortable from 'sortablejs';
-import { parseKanbanBoard, serializeKanbanBoard, createEmptyBoard, formatDate, prependArchiveDate, createCardFromTemplate, formatRelativeDate, serializeRecurrence, getNextOccurrence, updateSubtaskInContent, addSubtaskToContent, createTemplateContext, substituteTemplateVariables } from './parser';
-import { KanbanBoard, KanbanCard, KanbanLane, BoardSettings, BaseTaskMetadata, KANBAN_VIEW_TYPE, DEFAULT_SETTINGS, RecurrencePattern, Subtask, BaseSyncConfig, DEFAULT_BASE_SYNC_CONFIG, BoardFilterState, DEFAULT_FILTER_STATE, DueStateFilter, LaneConfig, TemplateContext } from './types';
+import { parseKanbanBoard, serializeKanbanBoard, createEmptyBoard, formatDate, prependArchiveDate, createCardFromTemplate, formatRelativeDate, serializeRecurrence, getNextOccurrence, createNextOccurrenceCard, findTitleNaturalDate, updateSubtaskInContent, addSubtaskToContent, parseSubtasksFromContent, assignSubtaskIds, serializeSubtask, getSubtaskProgress, createTemplateContext, substituteTemplateVariables, lintKanbanBoard, regenerateDuplicateIds, regenerateClashingIds, removeOrphanedLaneConfigs, findFormattedDate, getAcceptedDateFormats, INLINE_FIELD_REGEX } from './parser';
+import { KanbanBoard, KanbanCard, KanbanLane, BoardSettings, BaseTaskMetadata, KANBAN_VIEW_TYPE, DEFAULT_SETTINGS, RecurrencePattern, Subtask, BaseSyncConfig, DEFAULT_BASE_SYNC_CONFIG, BoardFilterState, DEFAULT_FILTER_STATE, DueStateFilter, FilterPreset, LaneConfig, TemplateContext, BoardDiagnostic, DiagnosticCode, BoardViewMode, BOARD_VIEW_MODES, LANE_COLORS, LaneColor } from './types';
+import { boardToCsv, boardToJson, plainCardTitle } from './BoardExport';
+import { getCardFiles, getCardsWithFiles, setCardFiles } from './AssociatedFiles';
+import { BoardCalendar } from './CalendarView';
+import { BoardTimeline } from './TimelineView';
+import { BoardTable } from './TableView';
+import { cardMatchesQuery, FilterQueryResult, parseFilterQuery } from './FilterQuery';
+import { addAggregateCard, AggregateBoard, AggregateChange, AggregateSource, applyAggregateChange, buildAggregateBoard, canMoveToAggregateLane, getAggregateChanges, isAggregateBoard, moveToAggregateLane, parseAggregateQuery, readFrontmatter } from './AggregateBoard';
+import { getSwimlanes, getSwimlaneValue, normalizeSwimlaneField, setSwimlaneValue, SWIMLANE_FIELDS } from './Swimlanes';
+import { DATE_LOCALES } from './DateLocales';
+import { getBlockers, getCardReferences, getDependents, getOpenBlockers, isDoneLane, LinkedCard, setCardReferences } from './Dependencies';
+import { describeEffort, formatDuration, hasEffort, isOverEstimate, parseDuration, parseEstimate, sumEffort } from './TimeTracking';
 import { BaseSyncService, ConflictResolutionModal, BaseTaskPickerModal, SyncConflict, createSyncStatusElement, updateSyncStatus } from './BaseSync';
 import type KanbanPlugin from './main';
 
@@ -13,9 +24,22 @@ export class KanbanView extends TextFileView {
 	baseSyncService: BaseSyncService;
 	syncStatusEl: HTMLElement;
 	syncIntervalId: number | null = null;
-	// Filter state (runtime only, not persisted)
+	// Filter state (saved presets aside, only the last-used filter is kept, in the plugin settings)
 	filterState: BoardFilterState = { ...DEFAULT_FILTER_STATE };
 	filterToolbarEl: HTMLElement | null = null;
+	private filterQuery: { text: string; result: FilterQueryResult } | null = null;
+	private saveLastFilters = debounce(() => this.plugin.saveSettings(), 1000, true);
+	// Collapsed swimlanes by field value (runtime only, not persisted)
+	collapsedSwimlanes: Set<string> = new Set();
+	// Board, calendar, timeline or table (kept in the workspace with the view state)
+	viewMode: BoardViewMode = 'board';
+	calendar: BoardCalendar;
+	timeline: BoardTimeline;
+	table: BoardTable;
+	// Aggregate boards: the query note, and the cards collected from other boards
+	aggregateMarkdown: string | null = null;
+	aggregate: AggregateBoard | null = null;
+	private aggregateUpdate: Promise<void> = Promise.resolve();
 
 	constructor(leaf: WorkspaceLeaf, plugin: KanbanPlugin) {
 		super(leaf);
@@ -24,6 +48,40 @@ export class KanbanView extends TextFileView {
 		this.baseSyncService = new BaseSyncService(this.app);
 		this.syncStatusEl = createSyncStatusElement();
 		this.filterState = { ...DEFAULT_FILTER_STATE };
+		this.calendar = new BoardCalendar({
+			getBoard: () => this.board,
+			getHolidays: () => this.plugin.settings.holidays,
+			isCardVisible: (card, lane) => !this.hasActiveFilters() || this.cardMatchesFilter(card, lane),
+			getLaneColor: (lane) => this.getLaneColor(lane),
+			openCard: (card) => this.openCardEditModal(card),
+			setCardDate: (card, date) => this.setCardDates(card, card.startDate, date),
+		});
+		this.timeline = new BoardTimeline({
+			getBoard: () => this.board,
+			isCardVisible: (card, lane) => !this.hasActiveFilters() || this.cardMatchesFilter(card, lane),
+			getLaneColor: (lane) => this.getLaneColor(lane),
+			getBlockers: (card) => this.file
+				? getBlockers(card, this.board, this.file.path, this.plugin.cardReferences).map(blocker => blocker.card)
+				: [],
+			openCard: (card) => this.openCardEditModal(card),
+			setCardDates: (card, startDate, dueDate) => this.setCardDates(card, startDate, dueDate),
+		});
+		this.table = new BoardTable({
+			getBoard: () => this.board,
+			isCardVisible: (card, lane) => !this.hasActiveFilters() || this.cardMatchesFilter(card, lane),
+			getLaneColor: (lane) => this.getLaneColor(lane),
+			moveCard: (card, fromLane, toLane) => this.moveCard(card, fromLane, toLane),
+			setCardDates: (card, startDate, dueDate) => this.setCardDates(card, startDate, dueDate),
+			onCardEdited: (card, column) => {
+				if (column === 'progress' && card.metadata.progress !== undefined) {
+					this.syncCardProgressToBase(card, card.metadata.progress);
+				} else if (column === 'project') {
+					this.syncCardProjectToBase(card, card.metadata.project);
+				}
+				this.requestSave();
+				this.render();
+			},
+		});
 	}
 
 	getViewType(): string {
@@ -38,17 +96,53 @@ export class KanbanView extends TextFileView {
 		return 'columns';
 	}
 
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), viewMode: this.viewMode };
+	}
+
+	async setState(state: any, result: ViewStateResult): Promise<void> {
+		if ((BOARD_VIEW_MODES as readonly string[]).includes(state?.viewMode)) {
+			this.viewMode = state.viewMode;
+		}
+		await super.setState(state, result);
+		this.render();
+	}
+
+	setViewMode(mode: BoardViewMode): void {
+		this.viewMode = mode;
+		this.app.workspace.requestSaveLayout();
+		this.render();
+	}
+
 	getViewData(): string {
-		return serializeKanbanBoard(this.board);
+		if (this.aggregateMarkdown !== null) return this.aggregateMarkdown;
+		return serializeKanbanBoard(this.board, this.plugin.getBoardOptions());
 	}
 
 	setViewData(data: string, clear: boolean): void {
+		if (isAggregateBoard(readFrontmatter(data))) {
+			this.aggregateMarkdown = data;
+			if (clear) {
+				this.filterState = this.getInitialFilterState();
+			}
+			this.aggregateUpdate = this.aggregateUpdate.then(() => this.loadAggregate());
+			return;
+		}
+		this.aggregateMarkdown = null;
+		this.aggregate = null;
+
 		if (clear) {
 			this.board = createEmptyBoard();
 		}
 
 		if (data.trim()) {
-			this.board = parseKanbanBoard(data);
+			this.board = parseKanbanBoard(data, this.plugin.getBoardOptions());
+		}
+
+		// A board opened in this view starts with its own filter
+		if (clear) {
+			this.filterState = this.getInitialFilterState();
+			if (data.trim()) this.noticeBoardErrors(data);
 		}
 
 		this.render();
@@ -59,6 +153,14 @@ export class KanbanView extends TextFileView {
 		this.render();
 	}
 
+	// An aggregate board's note stays as it is: its cards are written back to their own boards
+	async save(clear?: boolean): Promise<void> {
+		if (this.aggregateMarkdown === null) return super.save(clear);
+		const aggregate = this.aggregate;
+		this.aggregateUpdate = this.aggregateUpdate.then(() => this.updateAggregate(aggregate));
+		await this.aggregateUpdate;
+	}
+
 	async onOpen(): Promise<void> {
 		const container = this.containerEl.children[1];
 		container.empty();
@@ -76,13 +178,58 @@ export class KanbanView extends TextFileView {
 	onPaneMenu(menu: Menu, source: string): void {
 		super.onPaneMenu(menu, source);
 
+		const viewModes: { mode: BoardViewMode; title: string; icon: string }[] = [
+			{ mode: 'board', title: 'Show as board', icon: 'columns' },
+			{ mode: 'calendar', title: 'Show as calendar', icon: 'calendar-days' },
+			{ mode: 'timeline', title: 'Show as timeline', icon: 'gantt-chart' },
+			{ mode: 'table', title: 'Show as table', icon: 'table' },
+		];
+		for (const { mode, title, icon } of viewModes) {
+			if (mode === this.viewMode) continue;
+			menu.addItem((item) => {
+				item
+					.setTitle(title)
+					.setIcon(icon)
+					.onClick(() => this.setViewMode(mode));
+			});
+		}
+
+		const swimlaneField = this.getSetting('swimlane-field');
 		menu.addItem((item) => {
-			item
-				.setTitle('Add a list')
-				.setIcon('plus-circle')
-				.onClick(() => this.addLane());
+			item.setTitle('Swimlanes');
+			item.setIcon('rows');
+
+			const submenu = (item as any).setSubmenu();
+			submenu.addItem((subItem: any) => {
+				subItem
+					.setTitle('None')
+					.setChecked(!swimlaneField)
+					.onClick(() => this.setSwimlaneField(undefined));
+			});
+			for (const field of SWIMLANE_FIELDS) {
+				submenu.addItem((subItem: any) => {
+					subItem
+						.setTitle(field === 'tag' ? 'First tag' : field.charAt(0).toUpperCase() + field.slice(1))
+						.setChecked(swimlaneField === field)
+						.onClick(() => this.setSwimlaneField(field));
+				});
+			}
+			if (swimlaneField && !SWIMLANE_FIELDS.includes(swimlaneField)) {
+				submenu.addItem((subItem: any) => {
+					subItem.setTitle(swimlaneField).setChecked(true);
+				});
+			}
 		});
 
+		if (!this.aggregate) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Add a list')
+					.setIcon('plus-circle')
+					.onClick(() => this.addLane());
+			});
+		}
+
 		menu.addItem((item) => {
 			item
 				.setTitle('Archive completed cards')
@@ -90,6 +237,34 @@ export class KanbanView extends TextFileView {
 				.onClick(() => this.archiveCompletedCards());
 		});
 
+		menu.addItem((item) => {
+			item
+				.setTitle('Associated files')
+				.setIcon('paperclip')
+				.onClick(() => this.openAssociatedFiles());
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle('Export to CSV')
+				.setIcon('download')
+				.onClick(() => this.exportBoard('csv'));
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle('Export to JSON')
+				.setIcon('download')
+				.onClick(() => this.exportBoard('json'));
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle('Export to iCalendar')
+				.setIcon('calendar')
+				.onClick(() => this.exportIcs());
+		});
+
 		menu.addSeparator();
 
 		menu.addItem((item) => {
@@ -100,6 +275,15 @@ export class KanbanView extends TextFileView {
 		});
 	}
 
+	// @date typed as ISO or in one of the board's date formats
+	private findTypedDate(title: string): { date: string; time?: string } | null {
+		const isoMatch = title.match(/@(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/);
+		if (isoMatch) {
+			return { date: isoMatch[1], time: isoMatch[2] };
+		}
+		return findFormattedDate(title, getAcceptedDateFormats(this.board.settings, this.plugin.getBoardOptions()));
+	}
+
 	// Get effective setting (board-level overrides global)
 	private getSetting<K extends keyof BoardSettings>(key: K): BoardSettings[K] {
 		if (this.board.settings[key] !== undefined) {
@@ -118,7 +302,7 @@ export class KanbanView extends TextFileView {
 		if (this.board.settings['base-sync']) {
 			return { ...DEFAULT_BASE_SYNC_CONFIG, ...this.board.settings['base-sync'] };
 		}
-		return { ...this.plugin.settings['base-sync'] };
+		return { ...DEFAULT_BASE_SYNC_CONFIG, ...this.plugin.settings['base-sync'] };
 	}
 
 	// ============ Base Sync Operations ============
@@ -237,7 +421,7 @@ export class KanbanView extends TextFileView {
 		}
 
 		this.baseSyncService.setConfig(config);
-		const taskPath = await this.baseSyncService.createBaseTask(card.title, card.metadata, lane);
+		const taskPath = await this.baseSyncService.createBaseTask(card.title, card.metadata, lane, { start: card.startDate, due: card.dueDate });
 		
 		if (taskPath) {
 			card.baseTaskPath = taskPath;
@@ -257,11 +441,18 @@ export class KanbanView extends TextFileView {
 		this.sortableInstances = [];
 	}
 
+	// Re-render after a change made outside the view (e.g. a timer started elsewhere)
+	refresh(): void {
+		this.render();
+	}
+
 	private render(): void {
 		if (!this.boardContainer) return;
 
 		this.destroySortables();
 		this.boardContainer.empty();
+		// Cards may have gained or lost fields that the filter query names
+		this.filterQuery = null;
 
 		// Apply lane width CSS variable
 		const laneWidth = this.getSetting('lane-width') || this.plugin.settings['default-lane-width'];
@@ -279,23 +470,40 @@ export class KanbanView extends TextFileView {
 			this.renderFilterToolbar();
 		}
 
+		if (this.viewMode !== 'board') {
+			const views = { calendar: this.calendar, timeline: this.timeline, table: this.table };
+			views[this.viewMode].render(this.boardContainer);
+			this.startBackgroundSync();
+			return;
+		}
+
 		const boardEl = this.boardContainer.createDiv({ cls: 'kanban-board' });
+		const swimlaneField = this.getSetting('swimlane-field');
+
+		// With swimlanes, the lanes are a row of headers above the swimlane rows
+		const lanesEl = swimlaneField
+			? boardEl.createDiv({ cls: 'kanban-swimlane-lanes' })
+			: boardEl;
 
 		// Render lanes (with filtering applied)
 		for (const lane of this.board.lanes) {
-			this.renderLane(boardEl, lane);
+			this.renderLane(lanesEl, lane, !swimlaneField);
 		}
 
 		// Add "Add Lane" button if setting enabled
 		const showAddList = this.getSetting('show-add-list') !== false;
 		if (showAddList) {
-			const addLaneBtn = boardEl.createDiv({ cls: 'kanban-add-lane-btn' });
+			const addLaneBtn = lanesEl.createDiv({ cls: 'kanban-add-lane-btn' });
 			addLaneBtn.createSpan({ text: '+ Add list' });
 			addLaneBtn.addEventListener('click', () => this.addLane());
 		}
 
 		// Setup lane drag and drop
-		this.setupLaneSortable(boardEl);
+		this.setupLaneSortable(lanesEl);
+
+		if (swimlaneField) {
+			this.renderSwimlanes(boardEl, swimlaneField);
+		}
 
 		// Start background sync if enabled
 		this.startBackgroundSync();
@@ -338,9 +546,41 @@ export class KanbanView extends TextFileView {
 			this.applyFilters();
 		});
 
+		// Filter query: syntax errors show while typing, the query applies on Enter or blur
+		const queryContainer = this.filterToolbarEl.createDiv({ cls: 'filter-search-container filter-query-container' });
+		setIcon(queryContainer.createSpan({ cls: 'filter-search-icon' }), 'code');
+		const queryInput = queryContainer.createEl('input', {
+			type: 'text',
+			cls: 'filter-search-input filter-query-input',
+			attr: { placeholder: 'Query, e.g. tag:bug AND due<+7d', spellcheck: 'false' }
+		});
+		queryInput.value = this.filterState.query;
+		const queryErrorEl = this.filterToolbarEl.createDiv({ cls: 'filter-query-error' });
+		const showQueryError = () => {
+			const { error } = parseFilterQuery(queryInput.value, this.getBoardFieldKeys());
+			queryContainer.toggleClass('has-error', !!error);
+			queryErrorEl.setText(error ? `${error.message} (at character ${error.offset + 1})` : '');
+		};
+		showQueryError();
+		queryInput.addEventListener('input', showQueryError);
+		queryInput.addEventListener('change', () => {
+			this.filterState.query = queryInput.value.trim();
+			this.applyFilters();
+		});
+
 		// Filter buttons container
 		const filtersContainer = this.filterToolbarEl.createDiv({ cls: 'filter-buttons' });
 
+		// Saved filter presets dropdown
+		const activePreset = this.getActiveFilterPreset();
+		const presetBtn = filtersContainer.createDiv({ cls: 'filter-btn' });
+		setIcon(presetBtn, 'bookmark');
+		presetBtn.createSpan({ text: activePreset ? activePreset.name : 'Presets' });
+		if (activePreset) {
+			presetBtn.addClass('has-filter');
+		}
+		presetBtn.addEventListener('click', (e) => this.showFilterPresetMenu(e));
+
 		// Tag filter dropdown
 		const tagBtn = filtersContainer.createDiv({ cls: 'filter-btn' });
 		setIcon(tagBtn, 'tag');
@@ -396,6 +636,20 @@ export class KanbanView extends TextFileView {
 			const countEl = this.filterToolbarEl.createDiv({ cls: 'filter-count' });
 			countEl.textContent = `Showing ${filteredCount} of ${totalCount} cards`;
 		}
+
+		// Effort totals for the visible cards
+		const visibleCards: KanbanCard[] = [];
+		for (const lane of this.board.lanes) {
+			visibleCards.push(...this.getFilteredCards(lane));
+		}
+		const effort = sumEffort(visibleCards);
+		if (hasEffort(effort)) {
+			const { text, tooltip } = describeEffort(effort);
+			const effortEl = this.filterToolbarEl.createDiv({ cls: 'filter-effort' });
+			setIcon(effortEl.createSpan(), 'timer');
+			effortEl.createSpan({ text });
+			effortEl.title = tooltip;
+		}
 	}
 
 	private showTagFilterMenu(event: MouseEvent): void {
@@ -531,7 +785,8 @@ export class KanbanView extends TextFileView {
 			this.filterState.tags.length > 0 ||
 			this.filterState.projects.length > 0 ||
 			this.filterState.dueState !== 'all' ||
-			!this.filterState.showCompleted;
+			!this.filterState.showCompleted ||
+			this.filterState.query !== '';
 	}
 
 	private clearFilters(): void {
@@ -540,11 +795,12 @@ export class KanbanView extends TextFileView {
 	}
 
 	private applyFilters(): void {
-		// Just re-render, the filter logic is in cardMatchesFilter
+		// Remember the filter and re-render, the filter logic is in cardMatchesFilter
+		this.rememberFilter();
 		this.render();
 	}
 
-	private cardMatchesFilter(card: KanbanCard): boolean {
+	private cardMatchesFilter(card: KanbanCard, lane: KanbanLane): boolean {
 		// Text search
 		if (this.filterState.text) {
 			const searchText = this.filterState.text.toLowerCase();
@@ -610,14 +866,42 @@ export class KanbanView extends TextFileView {
 			return false;
 		}
 
+		// Filter query (one with a syntax error filters nothing)
+		const query = this.getFilterQuery();
+		if (query.node) {
+			const context = { laneTitle: lane.title, myName: this.plugin.settings['assignee-name'], today: new Date() };
+			if (!cardMatchesQuery(card, query.node, context)) {
+				return false;
+			}
+		}
+
 		return true;
 	}
 
+	// The filter query, parsed again only when its text changes or the board is rendered
+	private getFilterQuery(): FilterQueryResult {
+		if (this.filterQuery?.text !== this.filterState.query) {
+			this.filterQuery = { text: this.filterState.query, result: parseFilterQuery(this.filterState.query, this.getBoardFieldKeys()) };
+		}
+		return this.filterQuery.result;
+	}
+
+	// The [key::value] fields used on the board, which the filter query can match on
+	private getBoardFieldKeys(): string[] {
+		const keys = new Set<string>();
+		for (const lane of this.board.lanes) {
+			for (const card of lane.cards) {
+				Object.keys(card.metadata).forEach(key => keys.add(key));
+			}
+		}
+		return Array.from(keys);
+	}
+
 	private getFilteredCards(lane: KanbanLane): KanbanCard[] {
 		if (!this.hasActiveFilters()) {
 			return lane.cards;
 		}
-		return lane.cards.filter(card => this.cardMatchesFilter(card));
+		return lane.cards.filter(card => this.cardMatchesFilter(card, lane));
 	}
 
 	private getFilteredCardCount(): number {
@@ -636,7 +920,7 @@ export class KanbanView extends TextFileView {
 		return count;
 	}
 
-	private renderLane(boardEl: HTMLElement, lane: KanbanLane): void {
+	private renderLane(boardEl: HTMLElement, lane: KanbanLane, withCards: boolean = true): void {
 		// Get WIP limit config for this lane
 		const wipConfig = this.getLaneWipConfig(lane);
 		const cardCount = lane.cards.length;
@@ -648,14 +932,19 @@ export class KanbanView extends TextFileView {
 		if (isOverLimit) laneClasses.push('wip-exceeded');
 		else if (isAtWarning) laneClasses.push('wip-warning');
 		
+		const laneColor = this.getLaneConfig(lane)?.color;
+		if (laneColor) laneClasses.push('has-color');
+
 		const laneEl = boardEl.createDiv({ cls: laneClasses.join(' '), attr: { 'data-lane-id': lane.id } });
+		if (laneColor) laneEl.style.setProperty('--kanban-lane-color', this.getLaneColor(lane));
 
 		// Lane header
 		const headerEl = laneEl.createDiv({ cls: 'kanban-lane-header' });
 		
 		const titleContainer = headerEl.createDiv({ cls: 'kanban-lane-title-container' });
 		const titleEl = titleContainer.createSpan({ cls: 'kanban-lane-title', text: lane.title });
-		titleEl.contentEditable = 'true';
+		// An aggregate board's lanes are built from its query, so they can't be changed
+		titleEl.contentEditable = this.aggregate ? 'false' : 'true';
 		titleEl.addEventListener('blur', () => {
 			lane.title = titleEl.textContent || 'Untitled';
 			this.requestSave();
@@ -687,47 +976,60 @@ export class KanbanView extends TextFileView {
 			}
 		}
 
+		// Estimate / spent / remaining totals
+		const effort = sumEffort(lane.cards);
+		if (hasEffort(effort)) {
+			const { text, tooltip } = describeEffort(effort);
+			const effortEl = titleContainer.createSpan({ cls: 'kanban-lane-effort', text });
+			effortEl.title = tooltip;
+		}
+
 		// Lane menu
-		const menuBtn = headerEl.createDiv({ cls: 'kanban-lane-menu-btn' });
-		setIcon(menuBtn, 'more-vertical');
-		menuBtn.addEventListener('click', (event: MouseEvent) => {
-			event.stopPropagation();
-			this.showLaneMenu(event, lane);
-		});
+		if (!this.aggregate) {
+			const menuBtn = headerEl.createDiv({ cls: 'kanban-lane-menu-btn' });
+			setIcon(menuBtn, 'more-vertical');
+			menuBtn.addEventListener('click', (event: MouseEvent) => {
+				event.stopPropagation();
+				this.showLaneMenu(event, lane);
+			});
+		}
 
-		// Quick-add composer settings
+		// Quick-add composer settings (an aggregate board's cards are added on their own boards)
 		const showComposer = this.getSetting('show-card-composer') !== false;
+		const showAddCard = !this.aggregate;
 		const composerPosition = this.getSetting('composer-position') || this.plugin.settings['composer-position'] || 'bottom';
 		const canAddCards = !wipConfig.blockExceeded || !isOverLimit;
 
 		// Composer at top
-		if (showComposer && composerPosition === 'top') {
+		if (showAddCard && showComposer && composerPosition === 'top') {
 			this.renderCardComposer(laneEl, lane, canAddCards);
 		}
 
-		// Cards container
-		const cardsEl = laneEl.createDiv({ cls: 'kanban-lane-cards', attr: { 'data-lane-id': lane.id } });
+		// Cards container (swimlanes draw the cards in their own rows)
+		const cardsEl = withCards ? laneEl.createDiv({ cls: 'kanban-lane-cards', attr: { 'data-lane-id': lane.id } }) : null;
 		
 		// Render filtered cards
 		const filteredCards = this.getFilteredCards(lane);
-		for (const card of filteredCards) {
-			this.renderCard(cardsEl, card, lane);
+		if (cardsEl) {
+			for (const card of filteredCards) {
+				this.renderCard(cardsEl, card, lane);
+			}
 		}
 
 		// Show "hidden by filter" indicator if some cards are hidden
-		if (this.hasActiveFilters() && filteredCards.length < lane.cards.length) {
+		if (cardsEl && this.hasActiveFilters() && filteredCards.length < lane.cards.length) {
 			const hiddenCount = lane.cards.length - filteredCards.length;
 			const hiddenEl = cardsEl.createDiv({ cls: 'kanban-hidden-cards-indicator' });
 			hiddenEl.textContent = `${hiddenCount} card${hiddenCount > 1 ? 's' : ''} hidden by filter`;
 		}
 
 		// Composer at bottom (default)
-		if (showComposer && composerPosition === 'bottom') {
+		if (showAddCard && showComposer && composerPosition === 'bottom') {
 			this.renderCardComposer(laneEl, lane, canAddCards);
 		}
 
 		// Add card button (shown if composer is disabled)
-		if (!showComposer) {
+		if (showAddCard && !showComposer) {
 			const addCardBtn = laneEl.createDiv({ cls: `kanban-add-card-btn ${canAddCards ? '' : 'disabled'}` });
 			addCardBtn.createSpan({ text: '+ Add card' });
 			if (canAddCards) {
@@ -738,7 +1040,9 @@ export class KanbanView extends TextFileView {
 		}
 
 		// Setup card drag and drop
-		this.setupCardSortable(cardsEl, lane);
+		if (cardsEl) {
+			this.setupCardSortable(cardsEl, lane);
+		}
 	}
 
 	private getLaneWipConfig(lane: KanbanLane): { limit: number; warnAt?: number; blockExceeded: boolean } {
@@ -790,6 +1094,30 @@ export class KanbanView extends TextFileView {
 
 		textarea.addEventListener('input', autoResize);
 
+		// Show which words will become the due date
+		const parseNatural = this.getSetting('parse-natural-dates') !== false;
+		const dateHintEl = composerEl.createDiv({ cls: 'kanban-composer-date-hint' });
+		dateHintEl.hide();
+		const updateDateHint = () => {
+			const title = textarea.value.split('\n')[0];
+			const natural = parseNatural && !this.findTypedDate(title) ? findTitleNaturalDate(title, this.getSetting('date-locale')) : null;
+			dateHintEl.empty();
+			if (!natural?.date || !natural.span) {
+				dateHintEl.hide();
+				return;
+			}
+			dateHintEl.show();
+			setIcon(dateHintEl.createSpan({ cls: 'kanban-composer-date-hint-icon' }), 'calendar');
+			dateHintEl.createSpan({ text: title.slice(0, natural.span.start) });
+			dateHintEl.createEl('mark', { text: natural.matched || '' });
+			dateHintEl.createSpan({ text: title.slice(natural.span.end) });
+			dateHintEl.createSpan({
+				cls: 'kanban-composer-date-hint-value',
+				text: natural.time ? `${natural.date} ${natural.time}` : natural.date,
+			});
+		};
+		textarea.addEventListener('input', updateDateHint);
+
 		textarea.addEventListener('keydown', (event: KeyboardEvent) => {
 			if (event.key === 'Enter') {
 				if (event.shiftKey) {
@@ -803,12 +1131,14 @@ export class KanbanView extends TextFileView {
 						this.addCardFromComposer(lane, text);
 						textarea.value = '';
 						autoResize();
+						updateDateHint();
 					}
 				}
 			} else if (event.key === 'Escape') {
 				textarea.value = '';
 				textarea.blur();
 				autoResize();
+				updateDateHint();
 			}
 		});
 
@@ -821,31 +1151,30 @@ export class KanbanView extends TextFileView {
 				this.addCardFromComposer(lane, text);
 				textarea.value = '';
 				autoResize();
+				updateDateHint();
 			}
 		});
 	}
 
 	private async addCardFromComposer(lane: KanbanLane, text: string): Promise<void> {
 		const lines = text.split('\n');
-		const title = lines[0].trim();
+		let title = lines[0].trim();
 		const contentLines = lines.slice(1);
-		
-		// Parse subtasks and content from additional lines
-		const subtasks: Subtask[] = [];
-		const otherContent: string[] = [];
-		
-		for (const line of contentLines) {
-			const subtaskMatch = line.match(/^\s*-\s*\[([ xX])\]\s*(.*)$/);
-			if (subtaskMatch) {
-				subtasks.push({
-					id: Math.random().toString(36).substring(2, 11) + Date.now().toString(36).slice(-4),
-					text: subtaskMatch[2].trim(),
-					completed: subtaskMatch[1].toLowerCase() === 'x',
-				});
-			} else if (line.trim()) {
-				otherContent.push(line);
+
+		// Write natural language dates as ISO, so "tomorrow" still means the same day after a reload
+		if (this.getSetting('parse-natural-dates') !== false && !this.findTypedDate(title)) {
+			const natural = findTitleNaturalDate(title, this.getSetting('date-locale'));
+			if (natural?.date && natural.span) {
+				const before = title.slice(0, natural.span.start).trimEnd();
+				const after = title.slice(natural.span.end).trimStart();
+				const dateToken = natural.time ? `@${natural.date}T${natural.time}` : `@${natural.date}`;
+				title = [before, after, dateToken].filter(part => part).join(' ');
 			}
 		}
+		
+		// Parse subtasks from additional lines, giving each a block ID up front
+		const content = contentLines.length > 0 ? assignSubtaskIds(contentLines.map(l => '\t' + l).join('\n')) : undefined;
+		const subtasks: Subtask[] = content ? parseSubtasksFromContent(content) : [];
 
 		const defaultProject = this.getSetting('default-project');
 		
@@ -856,17 +1185,17 @@ export class KanbanView extends TextFileView {
 			tags: [],
 			metadata: defaultProject ? { project: defaultProject } : {},
 			subtasks: subtasks.length > 0 ? subtasks : undefined,
-			content: contentLines.length > 0 ? contentLines.map(l => '\t' + l).join('\n') : undefined,
+			content,
 		};
 
 		// Parse tags, dates, etc. from title
 		const tagMatches = title.match(/#[\w-/]+/g) || [];
 		newCard.tags = tagMatches.map(tag => tag.substring(1));
 
-		const dateMatch = title.match(/@(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/);
-		if (dateMatch) {
-			newCard.dueDate = dateMatch[1];
-			newCard.dueTime = dateMatch[2];
+		const typedDate = this.findTypedDate(title);
+		if (typedDate) {
+			newCard.dueDate = typedDate.date;
+			newCard.dueTime = typedDate.time;
 		}
 
 		const insertMethod = this.getSetting('new-card-insertion-method') || this.plugin.settings['new-card-insertion-method'];
@@ -899,7 +1228,7 @@ export class KanbanView extends TextFileView {
 		
 		const progressBar = progressEl.createDiv({ cls: 'subtask-progress-bar' });
 		const progressFill = progressBar.createDiv({ cls: 'subtask-progress-fill' });
-		progressFill.style.width = `${(completed / total) * 100}%`;
+		progressFill.style.width = `${getSubtaskProgress(card.subtasks)}%`;
 		
 		if (completed === total) {
 			progressEl.addClass('all-complete');
@@ -908,7 +1237,7 @@ export class KanbanView extends TextFileView {
 		// Subtask list
 		const listEl = subtasksEl.createDiv({ cls: 'kanban-subtasks-list' });
 		
-		card.subtasks.forEach((subtask, index) => {
+		card.subtasks.forEach(subtask => {
 			const subtaskEl = listEl.createDiv({ 
 				cls: `kanban-subtask ${subtask.completed ? 'is-completed' : ''}` 
 			});
@@ -922,20 +1251,47 @@ export class KanbanView extends TextFileView {
 				
 				// Update content if it exists
 				if (card.content) {
-					card.content = updateSubtaskInContent(card.content, index, subtask.completed);
+					card.content = updateSubtaskInContent(card.content, subtask.id, subtask.completed);
 				}
 				
 				// Update progress display
 				const newCompleted = card.subtasks!.filter(s => s.completed).length;
 				const countEl = progressEl.querySelector('.subtask-count');
 				if (countEl) countEl.textContent = `${newCompleted}/${total}`;
-				progressFill.style.width = `${(newCompleted / total) * 100}%`;
+				progressFill.style.width = `${getSubtaskProgress(card.subtasks!)}%`;
 				progressEl.toggleClass('all-complete', newCompleted === total);
 				
 				this.requestSave();
 			});
 			
 			subtaskEl.createSpan({ cls: 'subtask-text', text: subtask.text });
+
+			// Inline subtask metadata
+			if (subtask.dueDate) {
+				const dateEl = subtaskEl.createSpan({ cls: 'subtask-meta subtask-due' });
+				dateEl.setText(this.getSetting('show-relative-date')
+					? formatRelativeDate(subtask.dueDate)
+					: formatDate(subtask.dueDate, this.getSetting('date-format') || this.plugin.settings['date-format'], false));
+			}
+			if (subtask.assignee) {
+				subtaskEl.createSpan({ cls: 'subtask-meta subtask-assignee', text: `@${subtask.assignee}` });
+			}
+
+			// Subtasks carry block IDs, so they can be linked from other notes
+			subtaskEl.addEventListener('contextmenu', (e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				const menu = new Menu();
+				menu.addItem(item => item
+					.setTitle('Copy link to subtask')
+					.setIcon('link')
+					.onClick(async () => {
+						const link = `[[${this.file?.basename || ''}#^${subtask.id}]]`;
+						await navigator.clipboard.writeText(link);
+						new Notice('Subtask link copied');
+					}));
+				menu.showAtMouseEvent(e);
+			});
 		});
 	}
 
@@ -943,6 +1299,8 @@ export class KanbanView extends TextFileView {
 		const cardClasses = ['kanban-card'];
 		if (card.completed) cardClasses.push('is-completed');
 		if (card.baseTaskPath) cardClasses.push('has-base-task');
+		if (this.isTimerRunning(card)) cardClasses.push('is-timing');
+		if (this.getOpenBlockers(card).length > 0) cardClasses.push('is-blocked');
 		
 		const cardEl = cardsEl.createDiv({ 
 			cls: cardClasses.join(' '),
@@ -964,6 +1322,11 @@ export class KanbanView extends TextFileView {
 			checkbox.addEventListener('change', () => {
 				card.completed = checkbox.checked;
 				cardEl.toggleClass('is-completed', card.completed);
+				this.updateDependents(card);
+				if (card.completed && card.recurrence) {
+					this.completeRecurringCard(card, lane);
+					return;
+				}
 				this.requestSave();
 			});
 		}
@@ -1090,12 +1453,17 @@ export class KanbanView extends TextFileView {
 		// Optionally hide dates
 		if (this.getSetting('hide-date-in-title')) {
 			title = title.replace(/@\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?/g, '').trim();
-			title = title.replace(/@@\d{2}:\d{2}/g, '').trim();
+			const formattedDate = findFormattedDate(title, getAcceptedDateFormats(this.board.settings, this.plugin.getBoardOptions()));
+			if (formattedDate) {
+				title = title.replace(formattedDate.matched, '').trim();
+			}
+			title = title.replace(/@@\{?\d{2}:\d{2}\}?/g, '').trim();
+			title = title.replace(/@\{\d{4}-\d{2}-\d{2}\}|@\[\[\d{4}-\d{2}-\d{2}(?:\|[^\]]*)?\]\]/g, '').trim();
 		}
 
 		// Optionally hide metadata
 		if (this.getSetting('hide-metadata-in-title')) {
-			title = title.replace(/\[\w+::[^\]]+\]/g, '').trim();
+			title = title.replace(new RegExp(INLINE_FIELD_REGEX.source, 'g'), '').trim();
 			title = title.replace(/\w+::\S+/g, '').trim();
 		}
 
@@ -1157,6 +1525,31 @@ export class KanbanView extends TextFileView {
 		const pillsEl = container.createDiv({ cls: 'kanban-card-metadata-pills' });
 		let hasPills = false;
 
+		// On an aggregate board, the board the card came from
+		const source = this.aggregate?.sources.get(card);
+		if (source) {
+			hasPills = true;
+			const sourcePill = pillsEl.createDiv({ cls: 'kanban-metadata-pill kanban-source-pill' });
+			setIcon(sourcePill.createSpan(), 'columns');
+			sourcePill.createSpan({ cls: 'pill-value', text: (source.path.split('/').pop() || source.path).replace(/\.md$/, '') });
+			sourcePill.title = `${source.path} › ${source.laneTitle}`;
+			sourcePill.addEventListener('click', (event) => {
+				event.stopPropagation();
+				this.app.workspace.openLinkText(source.path, this.file?.path || '');
+			});
+		}
+
+		// Blocked pill, listing the open blockers
+		const openBlockers = this.getOpenBlockers(card);
+		if (openBlockers.length > 0) {
+			hasPills = true;
+			const titles = openBlockers.map(blocker => plainCardTitle(blocker.card.title));
+			const blockedPill = pillsEl.createDiv({ cls: 'kanban-metadata-pill kanban-blocked-pill' });
+			setIcon(blockedPill.createSpan(), 'lock');
+			blockedPill.createSpan({ cls: 'pill-value', text: titles.join(', ') });
+			blockedPill.title = `Blocked by:\n${titles.join('\n')}`;
+		}
+
 		// Progress pill
 		if (this.getSetting('show-progress') && card.metadata.progress !== undefined) {
 			hasPills = true;
@@ -1250,8 +1643,8 @@ export class KanbanView extends TextFileView {
 			
 			// Add tooltip with next occurrence
 			if (card.dueDate) {
-				const nextDate = getNextOccurrence(card.recurrence, new Date(card.dueDate));
-				recurPill.title = `Next: ${nextDate.toISOString().split('T')[0]}`;
+				const nextDate = getNextOccurrence(card.recurrence, new Date(card.dueDate), this.plugin.settings.holidays);
+				recurPill.title = nextDate ? `Next: ${nextDate.toISOString().split('T')[0]}` : 'Last occurrence';
 			}
 		}
 
@@ -1265,6 +1658,22 @@ export class KanbanView extends TextFileView {
 			priorityPill.createSpan({ cls: 'pill-value', text: card.metadata.priority });
 		}
 
+		// Time spent pill (spent / estimate)
+		if (card.metadata.spent || card.metadata.estimate || this.isTimerRunning(card)) {
+			hasPills = true;
+			const timePill = pillsEl.createDiv({ cls: 'kanban-metadata-pill kanban-time-pill' });
+			setIcon(timePill.createSpan(), 'timer');
+			const spent = card.metadata.spent || '0m';
+			timePill.createSpan({ cls: 'pill-value', text: card.metadata.estimate ? `${spent} / ${card.metadata.estimate}` : spent });
+			if (this.isTimerRunning(card)) {
+				timePill.addClass('is-running');
+				timePill.title = 'Timer running';
+			} else if (isOverEstimate(card)) {
+				timePill.addClass('over-estimate');
+				timePill.title = `Over estimate by ${formatDuration(parseDuration(spent) - parseEstimate(card.metadata.estimate).minutes)}`;
+			}
+		}
+
 		// Reminder pill
 		if (card.reminderTime && this.plugin.settings['enable-reminders']) {
 			hasPills = true;
@@ -1274,6 +1683,20 @@ export class KanbanView extends TextFileView {
 			reminderPill.title = `Reminder ${card.reminderTime} before due`;
 		}
 
+		// Associated files pill, listing the files on hover
+		const files = getCardFiles(card);
+		if (files.length > 0) {
+			hasPills = true;
+			const filesPill = pillsEl.createDiv({ cls: 'kanban-metadata-pill kanban-files-pill' });
+			setIcon(filesPill.createSpan(), 'paperclip');
+			filesPill.createSpan({ cls: 'pill-value', text: String(files.length) });
+			filesPill.title = files.join('\n');
+			filesPill.addEventListener('click', (event) => {
+				event.stopPropagation();
+				this.showCardFilesMenu(event, card);
+			});
+		}
+
 		if (!hasPills) {
 			pillsEl.remove();
 		}
@@ -1299,7 +1722,8 @@ export class KanbanView extends TextFileView {
 
 	private setupCardSortable(cardsEl: HTMLElement, lane: KanbanLane): void {
 		const sortable = Sortable.create(cardsEl, {
-			group: 'cards',
+			// Cards can't be dragged between a normal board and an aggregate one
+			group: this.aggregateMarkdown === null ? 'cards' : 'aggregate-cards',
 			animation: 150,
 			ghostClass: 'kanban-card-ghost',
 			chosenClass: 'kanban-card-chosen',
@@ -1312,6 +1736,12 @@ export class KanbanView extends TextFileView {
 				const fromLaneId = event.from.getAttribute('data-lane-id');
 				const toLaneId = event.to.getAttribute('data-lane-id');
 
+				// Dropped on a board open in another pane
+				if (!this.contentEl.contains(event.to)) {
+					this.dropCardOnOtherBoard(cardId, fromLaneId, event.to, event.item, event.newIndex || 0);
+					return;
+				}
+
 				if (!cardId || !fromLaneId || !toLaneId) return;
 
 				const fromLane = this.board.lanes.find(l => l.id === fromLaneId);
@@ -1322,12 +1752,28 @@ export class KanbanView extends TextFileView {
 				const cardIndex = fromLane.cards.findIndex(c => c.id === cardId);
 				if (cardIndex === -1) return;
 
+				// Put the card back when the board refuses the move
+				if (!this.allowMoveToLane(fromLane.cards[cardIndex], fromLane, toLane)) {
+					this.render();
+					return;
+				}
+
 				const [card] = fromLane.cards.splice(cardIndex, 1);
-				toLane.cards.splice(event.newIndex || 0, 0, card);
+				const toSwimlane = event.to.getAttribute('data-swimlane');
+				if (toSwimlane === null) {
+					toLane.cards.splice(event.newIndex || 0, 0, card);
+				} else {
+					toLane.cards.splice(this.getSwimlaneDropIndex(event.item, toLane), 0, card);
+					if (toSwimlane !== event.from.getAttribute('data-swimlane')) {
+						this.moveCardToSwimlane(card, toSwimlane);
+					}
+				}
 
 				// Notify plugin of card movement for GPT Task Manager integration
 				if (fromLaneId !== toLaneId) {
+					this.moveAggregateCard(card, toLane);
 					this.plugin.onCardMovedToLane(card, toLane.title, fromLane.title);
+					if (this.completeMovedRecurringCard(card, fromLane, toLane)) return;
 				}
 
 				this.requestSave();
@@ -1403,6 +1849,13 @@ export class KanbanView extends TextFileView {
 				.onClick(() => this.moveLane(lane, 1));
 		});
 
+		menu.addItem((item) => {
+			item
+				.setTitle('Move list to board...')
+				.setIcon('file-output')
+				.onClick(() => this.moveLaneToBoard(lane));
+		});
+
 		menu.addSeparator();
 
 		menu.addItem((item) => {
@@ -1430,6 +1883,28 @@ export class KanbanView extends TextFileView {
 				.onClick(() => this.showWipLimitModal(lane));
 		});
 
+		const currentColor = this.getLaneConfig(lane)?.color;
+		menu.addItem((item) => {
+			item.setTitle('Set color');
+			item.setIcon('palette');
+
+			const submenu = (item as any).setSubmenu();
+			submenu.addItem((subItem: any) => {
+				subItem
+					.setTitle('None')
+					.setChecked(!currentColor)
+					.onClick(() => this.setLaneColor(lane, undefined));
+			});
+			for (const color of LANE_COLORS) {
+				submenu.addItem((subItem: any) => {
+					subItem
+						.setTitle(color.charAt(0).toUpperCase() + color.slice(1))
+						.setChecked(currentColor === color)
+						.onClick(() => this.setLaneColor(lane, color));
+				});
+			}
+		});
+
 		menu.addSeparator();
 
 		menu.addItem((item) => {
@@ -1442,6 +1917,34 @@ export class KanbanView extends TextFileView {
 		menu.showAtMouseEvent(event);
 	}
 
+	private getLaneConfig(lane: KanbanLane): LaneConfig | undefined {
+		const laneConfigs = this.board.settings['lane-configs'] || {};
+		return laneConfigs[lane.title] || laneConfigs[lane.id];
+	}
+
+	// A lane's color as CSS; lanes without one take a color by position
+	private getLaneColor(lane: KanbanLane): string {
+		const color = this.getLaneConfig(lane)?.color
+			|| LANE_COLORS[Math.max(0, this.board.lanes.indexOf(lane)) % LANE_COLORS.length];
+		return `var(--color-${color})`;
+	}
+
+	private setLaneColor(lane: KanbanLane, color: LaneColor | undefined): void {
+		if (!this.board.settings['lane-configs']) {
+			this.board.settings['lane-configs'] = {};
+		}
+		const laneConfigs = this.board.settings['lane-configs'];
+		const laneConfig: LaneConfig = { ...(laneConfigs[lane.title] || {}), color };
+		if (!color) delete laneConfig.color;
+		if (Object.keys(laneConfig).length > 0) {
+			laneConfigs[lane.title] = laneConfig;
+		} else {
+			delete laneConfigs[lane.title];
+		}
+		this.requestSave();
+		this.render();
+	}
+
 	private showWipLimitModal(lane: KanbanLane): void {
 		const modal = new WipLimitModal(this.app, lane, this.getLaneWipConfig(lane), (config) => {
 			// Save the lane-specific WIP config
@@ -1505,6 +2008,56 @@ export class KanbanView extends TextFileView {
 			});
 		}
 
+		menu.addItem((item) => {
+			item
+				.setTitle('Add associated file...')
+				.setIcon('paperclip')
+				.onClick(() => this.addCardFile(card));
+		});
+
+		// Time tracking
+		if (this.isTimerRunning(card)) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Stop timer')
+					.setIcon('square')
+					.onClick(() => this.plugin.stopTimer());
+			});
+		} else if (this.file) {
+			const boardPath = this.file.path;
+			menu.addItem((item) => {
+				item
+					.setTitle('Start timer')
+					.setIcon('play')
+					.onClick(() => this.plugin.startTimer(boardPath, card));
+			});
+		}
+
+		// Dependencies
+		menu.addItem((item) => {
+			item
+				.setTitle('Add blocker...')
+				.setIcon('lock')
+				.onClick(() => this.addCardBlocker(card));
+		});
+		if (getCardReferences(card, 'blocked-by').length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Clear blockers')
+					.setIcon('unlock')
+					.onClick(() => this.clearCardBlockers(card));
+			});
+		}
+		menu.addItem((item) => {
+			item
+				.setTitle('Copy card reference')
+				.setIcon('link')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(`[[${this.file?.basename || ''}#^${card.id}]]`);
+					new Notice('Card reference copied');
+				});
+		});
+
 		// Edit content (subtasks, notes, etc.)
 		menu.addItem((item) => {
 			item
@@ -1543,6 +2096,13 @@ export class KanbanView extends TextFileView {
 			});
 		}
 
+		menu.addItem((item) => {
+			item
+				.setTitle('Move to board...')
+				.setIcon('file-output')
+				.onClick(() => this.moveCardToBoard(card, lane));
+		});
+
 		menu.addSeparator();
 
 		// Metadata quick actions
@@ -1756,76 +2316,740 @@ export class KanbanView extends TextFileView {
 	private moveCard(card: KanbanCard, fromLane: KanbanLane, toLane: KanbanLane): void {
 		const cardIndex = fromLane.cards.indexOf(card);
 		if (cardIndex === -1) return;
+		if (!this.allowMoveToLane(card, fromLane, toLane)) return;
 
 		fromLane.cards.splice(cardIndex, 1);
 		toLane.cards.push(card);
+		this.moveAggregateCard(card, toLane);
 
 		// Sync status to Base if enabled
 		this.syncCardStatusToBase(card, toLane);
+		if (this.completeMovedRecurringCard(card, fromLane, toLane)) return;
 
 		this.requestSave();
 		this.render();
 	}
 
-	private async syncCardStatusToBase(card: KanbanCard, lane: KanbanLane): Promise<void> {
-		const syncConfig = this.getBaseSyncConfig();
-		if (!syncConfig.enabled) return;
+	// ============ Filter Presets ============
 
-		this.baseSyncService.setConfig(syncConfig);
-		
-		if (card.baseTaskPath) {
-			const success = await this.baseSyncService.onCardMoveToLane(card, lane);
-			if (success) {
-				updateSyncStatus(this.syncStatusEl, 'success', 'Status synced');
-			}
-		} else if (syncConfig.createMissingTasks) {
-			// Create a new Base task for this card
-			const taskPath = await this.baseSyncService.createBaseTask(card.title, card.metadata, lane);
-			if (taskPath) {
-				card.baseTaskPath = taskPath;
-				card.baseSyncTime = Date.now();
-				updateSyncStatus(this.syncStatusEl, 'success', 'Task created');
-			}
-		}
+	private copyFilterState(filter: BoardFilterState): BoardFilterState {
+		return { ...DEFAULT_FILTER_STATE, ...filter, tags: [...(filter.tags || [])], projects: [...(filter.projects || [])] };
 	}
 
-	private deleteCard(card: KanbanCard, lane: KanbanLane): void {
-		const index = lane.cards.indexOf(card);
-		if (index === -1) return;
-
-		lane.cards.splice(index, 1);
-		this.requestSave();
-		this.render();
+	private isSameFilter(a: BoardFilterState, b: BoardFilterState): boolean {
+		const key = (filter: BoardFilterState) => JSON.stringify([
+			filter.text,
+			[...filter.tags].sort(),
+			[...filter.projects].sort(),
+			filter.dueState,
+			filter.showCompleted,
+			filter.priority || '',
+			filter.query,
+		]);
+		return key(this.copyFilterState(a)) === key(this.copyFilterState(b));
 	}
 
-	private archiveCard(card: KanbanCard, lane: KanbanLane): void {
-		const index = lane.cards.indexOf(card);
-		if (index === -1) return;
+	// The board's own presets, then the ones for every board
+	private getFilterPresets(): { preset: FilterPreset; global: boolean }[] {
+		return [
+			...(this.board.settings['filter-presets'] || []).map(preset => ({ preset, global: false })),
+			...this.plugin.settings['filter-presets'].map(preset => ({ preset, global: true })),
+		];
+	}
 
-		lane.cards.splice(index, 1);
-		
-		// Optionally prepend archive date
-		let archivedCard = card;
-		if (this.plugin.settings['prepend-archive-date']) {
-			archivedCard = prependArchiveDate(card, this.plugin.settings['prepend-archive-format']);
-		}
-		
-		this.board.archive.push(archivedCard);
-		this.requestSave();
-		this.render();
+	// The preset whose filter is the one in use, if any
+	private getActiveFilterPreset(): FilterPreset | undefined {
+		if (!this.hasActiveFilters()) return undefined;
+		const match = this.getFilterPresets().find(({ preset }) => this.isSameFilter(preset.filter, this.filterState));
+		return match?.preset;
 	}
 
-	private archiveLaneCards(lane: KanbanLane): void {
-		for (const card of lane.cards) {
-			let archivedCard = card;
-			if (this.plugin.settings['prepend-archive-date']) {
-				archivedCard = prependArchiveDate(card, this.plugin.settings['prepend-archive-format']);
-			}
-			this.board.archive.push(archivedCard);
-		}
-		lane.cards = [];
-		this.requestSave();
-		this.render();
+	// The filter a board opens with: the one last used on it, or else its default preset
+	private getInitialFilterState(): BoardFilterState {
+		const lastFilter = this.file ? this.plugin.settings['last-filters'][this.file.path] : undefined;
+		if (lastFilter) return this.copyFilterState(lastFilter);
+
+		const defaultName = this.board.settings['default-filter-preset'];
+		const match = this.getFilterPresets().find(({ preset }) => preset.name === defaultName);
+		return match ? this.copyFilterState(match.preset.filter) : { ...DEFAULT_FILTER_STATE };
+	}
+
+	/**
+	 * Keep the filter for the next time the board is opened. Clearing the filter forgets it,
+	 * so that the board opens with its default preset again.
+	 */
+	private rememberFilter(): void {
+		if (!this.file) return;
+		const lastFilters = { ...this.plugin.settings['last-filters'] };
+		if (this.hasActiveFilters()) {
+			lastFilters[this.file.path] = this.copyFilterState(this.filterState);
+		} else if (lastFilters[this.file.path]) {
+			delete lastFilters[this.file.path];
+		} else {
+			return;
+		}
+		this.plugin.settings['last-filters'] = lastFilters;
+		this.saveLastFilters();
+	}
+
+	applyFilterPreset(preset: FilterPreset): void {
+		this.filterState = this.copyFilterState(preset.filter);
+		this.applyFilters();
+	}
+
+	// Pick a preset (or no filter) from the command palette
+	pickFilterPreset(): void {
+		const noFilter: FilterPreset = { name: 'No filter', filter: { ...DEFAULT_FILTER_STATE } };
+		const presets = [noFilter, ...this.getFilterPresets().map(({ preset }) => preset)];
+		new FilterPresetPickerModal(this.app, presets, (preset) => this.applyFilterPreset(preset)).open();
+	}
+
+	private showFilterPresetMenu(event: MouseEvent): void {
+		const menu = new Menu();
+		const presets = this.getFilterPresets();
+		const activePreset = this.getActiveFilterPreset();
+		const defaultName = this.board.settings['default-filter-preset'];
+		// An aggregate board's settings aren't kept, so it only has the presets for every board
+		const hasBoardSettings = this.aggregateMarkdown === null;
+
+		if (presets.length === 0) {
+			menu.addItem((item) => {
+				item.setTitle('No saved filters').setDisabled(true);
+			});
+		}
+		for (const { preset, global } of presets) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`${preset === activePreset ? '✓ ' : ''}${preset.name}${preset.name === defaultName ? ' (default)' : ''}`)
+					.setIcon(global ? 'globe' : 'bookmark')
+					.onClick(() => this.applyFilterPreset(preset));
+			});
+		}
+
+		menu.addSeparator();
+		if (this.hasActiveFilters()) {
+			if (hasBoardSettings) {
+				menu.addItem((item) => {
+					item
+						.setTitle('Save filter for this board...')
+						.setIcon('bookmark-plus')
+						.onClick(() => this.saveFilterPreset(false));
+				});
+			}
+			menu.addItem((item) => {
+				item
+					.setTitle('Save filter for all boards...')
+					.setIcon('globe')
+					.onClick(() => this.saveFilterPreset(true));
+			});
+		}
+		if (activePreset && hasBoardSettings) {
+			const isDefault = activePreset.name === defaultName;
+			menu.addItem((item) => {
+				item
+					.setTitle(isDefault ? 'Stop opening with this filter' : 'Open the board with this filter')
+					.setIcon('star')
+					.onClick(() => this.setDefaultFilterPreset(isDefault ? undefined : activePreset.name));
+			});
+		}
+		if (activePreset) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`Delete "${activePreset.name}"`)
+					.setIcon('trash')
+					.onClick(() => this.deleteFilterPreset(activePreset));
+			});
+		}
+
+		menu.showAtMouseEvent(event);
+	}
+
+	// Save the current filter under a name, replacing a preset of the same name
+	private saveFilterPreset(global: boolean): void {
+		const title = global ? 'Save filter for all boards' : 'Save filter for this board';
+		new QuickInputModal(this.app, title, 'Name', '', async (value) => {
+			const name = value.trim();
+			if (!name) return;
+
+			const preset: FilterPreset = { name, filter: this.copyFilterState(this.filterState) };
+			const presets = [
+				...(global ? this.plugin.settings['filter-presets'] : this.board.settings['filter-presets'] || []).filter(p => p.name !== name),
+				preset,
+			];
+
+			if (global) {
+				this.plugin.settings['filter-presets'] = presets;
+				await this.plugin.saveSettings();
+			} else {
+				this.board.settings['filter-presets'] = presets;
+				this.requestSave();
+			}
+			this.render();
+		}).open();
+	}
+
+	private deleteFilterPreset(preset: FilterPreset): void {
+		const boardPresets = this.board.settings['filter-presets'] || [];
+		if (boardPresets.includes(preset)) {
+			this.board.settings['filter-presets'] = boardPresets.filter(p => p !== preset);
+			if (this.board.settings['filter-presets'].length === 0) {
+				delete this.board.settings['filter-presets'];
+			}
+			this.requestSave();
+		} else {
+			this.plugin.settings['filter-presets'] = this.plugin.settings['filter-presets'].filter(p => p !== preset);
+			this.plugin.saveSettings();
+		}
+		this.render();
+	}
+
+	private setDefaultFilterPreset(name: string | undefined): void {
+		this.board.settings['default-filter-preset'] = name;
+		this.requestSave();
+		this.render();
+	}
+
+	// ============ Swimlanes ============
+
+	// One row per swimlane, with a cell of cards under each lane header
+	private renderSwimlanes(boardEl: HTMLElement, field: string): void {
+		boardEl.addClass('has-swimlanes');
+		const visibleCards = this.board.lanes.reduce<KanbanCard[]>((all, lane) => all.concat(this.getFilteredCards(lane)), []);
+
+		for (const swimlane of getSwimlanes(visibleCards, field)) {
+			const collapsed = this.collapsedSwimlanes.has(swimlane.value);
+			const swimlaneEl = boardEl.createDiv({ cls: `kanban-swimlane${collapsed ? ' is-collapsed' : ''}` });
+
+			const headerEl = swimlaneEl.createDiv({ cls: 'kanban-swimlane-header' });
+			setIcon(headerEl.createSpan({ cls: 'kanban-swimlane-toggle' }), collapsed ? 'chevron-right' : 'chevron-down');
+			headerEl.createSpan({ cls: 'kanban-swimlane-title', text: swimlane.label });
+			const count = visibleCards.filter(card => getSwimlaneValue(card, field) === swimlane.value).length;
+			headerEl.createSpan({ cls: 'kanban-lane-count', text: String(count) });
+			headerEl.addEventListener('click', () => {
+				if (collapsed) {
+					this.collapsedSwimlanes.delete(swimlane.value);
+				} else {
+					this.collapsedSwimlanes.add(swimlane.value);
+				}
+				this.render();
+			});
+			if (collapsed) continue;
+
+			const rowEl = swimlaneEl.createDiv({ cls: 'kanban-swimlane-row' });
+			for (const lane of this.board.lanes) {
+				const cardsEl = rowEl.createDiv({
+					cls: 'kanban-lane-cards kanban-swimlane-cell',
+					attr: { 'data-lane-id': lane.id, 'data-swimlane': swimlane.value },
+				});
+				for (const card of this.getFilteredCards(lane)) {
+					if (getSwimlaneValue(card, field) === swimlane.value) {
+						this.renderCard(cardsEl, card, lane);
+					}
+				}
+				this.setupCardSortable(cardsEl, lane);
+			}
+		}
+	}
+
+	// Where a card dropped into a swimlane cell goes in its lane: before the card
+	// it was dropped above, after the one it was dropped below, or at the end
+	private getSwimlaneDropIndex(itemEl: HTMLElement, lane: KanbanLane): number {
+		const nextId = itemEl.nextElementSibling?.getAttribute('data-card-id');
+		const nextIndex = nextId ? lane.cards.findIndex(c => c.id === nextId) : -1;
+		if (nextIndex !== -1) return nextIndex;
+
+		const previousId = itemEl.previousElementSibling?.getAttribute('data-card-id');
+		const previousIndex = previousId ? lane.cards.findIndex(c => c.id === previousId) : -1;
+		return previousIndex !== -1 ? previousIndex + 1 : lane.cards.length;
+	}
+
+	private moveCardToSwimlane(card: KanbanCard, value: string): void {
+		const field = this.getSetting('swimlane-field');
+		if (!field) return;
+		setSwimlaneValue(card, field, value);
+		if (field === 'project') {
+			this.syncCardProjectToBase(card, card.metadata.project);
+		}
+	}
+
+	private setSwimlaneField(field: string | undefined): void {
+		this.board.settings['swimlane-field'] = field;
+		this.collapsedSwimlanes.clear();
+		this.requestSave();
+		this.render();
+	}
+
+	// ============ Dependencies ============
+
+	private getOpenBlockers(card: KanbanCard): LinkedCard[] {
+		if (!this.file) return [];
+		return getOpenBlockers(card, this.board, this.file.path, this.plugin.cardReferences);
+	}
+
+	/**
+	 * Check a move into a done lane against the card's open blockers: warn about it,
+	 * or refuse it when the board says so. On an aggregate board, also check that the
+	 * lane can take the card. Returns whether the move may go ahead.
+	 */
+	private allowMoveToLane(card: KanbanCard, fromLane: KanbanLane, toLane: KanbanLane): boolean {
+		if (this.aggregate && fromLane !== toLane && !canMoveToAggregateLane(this.aggregate.query.groupBy, toLane.title)) {
+			new Notice(`Cards can't be moved to ${toLane.title} on an aggregate board`);
+			return false;
+		}
+		if (fromLane === toLane || !isDoneLane(toLane, this.getBaseSyncConfig().laneMapping)) return true;
+
+		const openBlockers = this.getOpenBlockers(card);
+		if (openBlockers.length === 0) return true;
+
+		const blockerTitles = openBlockers.map(blocker => `"${plainCardTitle(blocker.card.title)}"`).join(', ');
+		if (this.getSetting('refuse-blocked-done')) {
+			new Notice(`"${plainCardTitle(card.title)}" can't move to ${toLane.title} while it is blocked by ${blockerTitles}`);
+			return false;
+		}
+		new Notice(`"${plainCardTitle(card.title)}" is still blocked by ${blockerTitles}`);
+		return true;
+	}
+
+	// Re-render the cards that depend on a card whose completion changed,
+	// and say which ones it has just unblocked
+	private updateDependents(card: KanbanCard): void {
+		if (!this.file) return;
+		const dependents = getDependents(card, this.board, this.file.path, this.plugin.cardReferences)
+			.filter(dependent => !dependent.reference.boardLink && !dependent.card.completed);
+		if (dependents.length === 0) return;
+
+		if (card.completed) {
+			const unblocked = dependents.filter(dependent => this.getOpenBlockers(dependent.card).length === 0);
+			if (unblocked.length > 0) {
+				new Notice(`Unblocked: ${unblocked.map(dependent => plainCardTitle(dependent.card.title)).join(', ')}`);
+			}
+		}
+		this.render();
+	}
+
+	private addCardBlocker(card: KanbanCard): void {
+		const blockedBy = getCardReferences(card, 'blocked-by');
+		const candidates = this.board.lanes
+			.reduce<KanbanCard[]>((all, lane) => all.concat(lane.cards), [])
+			.filter(other => other !== card && !blockedBy.some(reference => !reference.boardLink && reference.cardId === other.id));
+
+		new CardPickerModal(this.app, candidates, 'Card that blocks this one...', (blocker) => {
+			setCardReferences(card, 'blocked-by', blockedBy.concat({ cardId: blocker.id }));
+			this.requestSave();
+			this.render();
+		}).open();
+	}
+
+	private clearCardBlockers(card: KanbanCard): void {
+		setCardReferences(card, 'blocked-by', []);
+		this.requestSave();
+		this.render();
+	}
+
+	// ============ Moving Between Boards ============
+
+	moveFocusedCardToBoard(): void {
+		const focusedCard = this.findFocusedCard();
+		if (!focusedCard) {
+			new Notice('Focus a card to move it to another board');
+			return;
+		}
+		this.moveCardToBoard(focusedCard.card, focusedCard.lane);
+	}
+
+	// The focused card's list, or one picked from the board
+	pickLaneToMoveToBoard(): void {
+		const focusedCard = this.findFocusedCard();
+		if (focusedCard) {
+			this.moveLaneToBoard(focusedCard.lane);
+			return;
+		}
+		new LanePickerModal(this.app, this.board.lanes, 'List to move...', (lane) => this.moveLaneToBoard(lane)).open();
+	}
+
+	private moveCardToBoard(card: KanbanCard, lane: KanbanLane): void {
+		this.pickTargetBoard(async (targetFile) => {
+			const targetBoard = await this.plugin.readBoard(targetFile);
+			if (targetBoard.lanes.length === 0) {
+				new Notice(`${targetFile.basename} has no lists to move the card to`);
+				return;
+			}
+			new LanePickerModal(this.app, targetBoard.lanes, `List on ${targetFile.basename}...`, (targetLane) => {
+				this.transferCard(card, lane, targetFile, targetLane.id);
+			}).open();
+		});
+	}
+
+	private moveLaneToBoard(lane: KanbanLane): void {
+		this.pickTargetBoard((targetFile) => this.transferLane(lane, targetFile));
+	}
+
+	private pickTargetBoard(onChoose: (file: TFile) => void): void {
+		const boards = this.plugin.getKanbanFiles().filter(file => file.path !== this.file?.path);
+		if (boards.length === 0) {
+			new Notice('There are no other boards in the vault');
+			return;
+		}
+		new FilePickerModal(this.app, boards, 'Board to move to...', onChoose).open();
+	}
+
+	// Finish a drag that ended on another board's list
+	private dropCardOnOtherBoard(cardId: string | null, fromLaneId: string | null, toLaneEl: HTMLElement, itemEl: HTMLElement, index: number): void {
+		const targetView = this.plugin.findKanbanViewForElement(toLaneEl);
+		const toLaneId = toLaneEl.getAttribute('data-lane-id');
+		const fromLane = this.board.lanes.find(l => l.id === fromLaneId);
+		const card = fromLane?.cards.find(c => c.id === cardId);
+
+		// Two views of the same file each hold their own copy of the board
+		if (!targetView?.file || !toLaneId || !fromLane || !card || targetView.file.path === this.file?.path) {
+			this.render();
+			return;
+		}
+
+		// In a swimlane cell, the drop position counts only that swimlane's cards
+		const toLane = targetView.board.lanes.find(l => l.id === toLaneId);
+		const dropIndex = toLane && toLaneEl.hasAttribute('data-swimlane')
+			? targetView.getSwimlaneDropIndex(itemEl, toLane)
+			: index;
+		this.transferCard(card, fromLane, targetView.file, toLaneId, dropIndex);
+	}
+
+	/**
+	 * Move a card into a list on another board. The target board is written first,
+	 * so the card stays where it was if that fails.
+	 */
+	private async transferCard(card: KanbanCard, fromLane: KanbanLane, targetFile: TFile, targetLaneId: string, index?: number): Promise<void> {
+		let moved = false;
+		try {
+			moved = await this.plugin.updateBoard(targetFile, (board) => {
+				const targetLane = board.lanes.find(l => l.id === targetLaneId);
+				if (!targetLane) return false;
+				// A copy, so that IDs replaced where they clash with the other board's stay there
+				const movedCard: KanbanCard = JSON.parse(JSON.stringify(card));
+				regenerateClashingIds(board, [movedCard]);
+				targetLane.cards.splice(index === undefined ? targetLane.cards.length : index, 0, movedCard);
+				return true;
+			});
+		} catch (error) {
+			console.error('Error moving card to another board:', error);
+		}
+
+		if (!moved) {
+			new Notice(`Couldn't move "${plainCardTitle(card.title)}" to ${targetFile.basename}`);
+			this.render();
+			return;
+		}
+
+		const cardIndex = fromLane.cards.indexOf(card);
+		if (cardIndex !== -1) fromLane.cards.splice(cardIndex, 1);
+		if (this.file) this.plugin.onCardsMovedToBoard([card], this.file.path, targetFile.path);
+		this.requestSave();
+		this.render();
+		new Notice(`Moved "${plainCardTitle(card.title)}" to ${targetFile.basename}`);
+	}
+
+	/**
+	 * Move a list, with its cards and list settings, to the end of another board. List
+	 * settings are kept by title, so a list whose title is taken there gets a new one.
+	 */
+	private async transferLane(lane: KanbanLane, targetFile: TFile): Promise<void> {
+		const laneConfigs = this.board.settings['lane-configs'] || {};
+		const laneConfig = laneConfigs[lane.title] || laneConfigs[lane.id];
+
+		let moved = false;
+		let movedTitle = lane.title;
+		try {
+			moved = await this.plugin.updateBoard(targetFile, (board) => {
+				const movedLane: KanbanLane = JSON.parse(JSON.stringify(lane));
+				regenerateClashingIds(board, movedLane.cards, movedLane);
+				const targetConfigs = board.settings['lane-configs'] || {};
+				for (let n = 2; board.lanes.some(l => l.title === movedLane.title) || targetConfigs[movedLane.title]; n++) {
+					movedLane.title = `${lane.title} ${n}`;
+				}
+				movedTitle = movedLane.title;
+				board.lanes.push(movedLane);
+				if (laneConfig) {
+					board.settings['lane-configs'] = { ...targetConfigs, [movedLane.title]: laneConfig };
+				}
+				return true;
+			});
+		} catch (error) {
+			console.error('Error moving list to another board:', error);
+		}
+
+		if (!moved) {
+			new Notice(`Couldn't move "${lane.title}" to ${targetFile.basename}`);
+			return;
+		}
+
+		const laneIndex = this.board.lanes.indexOf(lane);
+		if (laneIndex !== -1) this.board.lanes.splice(laneIndex, 1);
+		if (laneConfig) {
+			delete laneConfigs[lane.title];
+			delete laneConfigs[lane.id];
+		}
+		if (this.file) this.plugin.onCardsMovedToBoard(lane.cards, this.file.path, targetFile.path);
+		this.requestSave();
+		this.render();
+		new Notice(movedTitle === lane.title
+			? `Moved "${lane.title}" to ${targetFile.basename}`
+			: `Moved "${lane.title}" to ${targetFile.basename} as "${movedTitle}"`);
+	}
+
+	// ============ Aggregate Boards ============
+
+	// Collect the cards of every board that match the aggregate board's query
+	private async loadAggregate(): Promise<void> {
+		if (this.aggregateMarkdown === null) return;
+		const query = parseAggregateQuery(readFrontmatter(this.aggregateMarkdown));
+
+		const sources: AggregateSource[] = [];
+		for (const file of this.plugin.getKanbanFiles()) {
+			try {
+				sources.push({ path: file.path, board: await this.plugin.readBoard(file) });
+			} catch (error) {
+				console.error(`Error reading ${file.path} for an aggregate board:`, error);
+			}
+		}
+
+		this.aggregate = buildAggregateBoard(sources, query, this.plugin.settings['assignee-name']);
+		this.board = this.aggregate.board;
+		this.render();
+	}
+
+	/**
+	 * Write the cards that changed on an aggregate board back to their own boards,
+	 * then collect the cards again
+	 */
+	private async updateAggregate(aggregate: AggregateBoard | null): Promise<void> {
+		const changesByPath = new Map<string, AggregateChange[]>();
+		for (const change of aggregate ? getAggregateChanges(aggregate) : []) {
+			changesByPath.set(change.source.path, [...(changesByPath.get(change.source.path) || []), change]);
+		}
+
+		for (const [path, changes] of Array.from(changesByPath)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			let failed = changes.length;
+			if (file instanceof TFile) {
+				try {
+					await this.plugin.updateBoard(file, (board) => {
+						failed = changes.filter(change => !applyAggregateChange(board, change)).length;
+						return failed < changes.length;
+					});
+				} catch (error) {
+					console.error(`Error writing cards back to ${path}:`, error);
+				}
+			}
+			if (failed > 0) {
+				new Notice(`Couldn't write ${failed} card${failed > 1 ? 's' : ''} back to ${path}`);
+			}
+		}
+
+		await this.loadAggregate();
+	}
+
+	// Give a card moved to another lane of an aggregate board that lane's due date or status
+	private moveAggregateCard(card: KanbanCard, toLane: KanbanLane): void {
+		if (this.aggregate) {
+			moveToAggregateLane(card, this.aggregate.query.groupBy, toLane.title);
+		}
+	}
+
+	/**
+	 * Collect the cards again after one of the boards an aggregate board collects from changed.
+	 * This never writes: cards edited here are left for the pending save, which collects them again.
+	 */
+	refreshAggregate(): void {
+		if (this.aggregateMarkdown === null) return;
+		if (this.aggregate && getAggregateChanges(this.aggregate).length > 0) return;
+		this.aggregateUpdate = this.aggregateUpdate.then(() => this.loadAggregate());
+	}
+
+	// ============ Associated Files ============
+
+	private showCardFilesMenu(event: MouseEvent, card: KanbanCard): void {
+		const menu = new Menu();
+		const sourcePath = this.file?.path || '';
+		const links = getCardFiles(card);
+
+		for (const link of links) {
+			const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+			menu.addItem((item) => {
+				item
+					.setTitle(file ? link : `${link} (missing)`)
+					.setIcon('file')
+					.setDisabled(!file)
+					.onClick(() => this.app.workspace.openLinkText(link, sourcePath));
+			});
+		}
+
+		menu.addSeparator();
+
+		menu.addItem((item) => {
+			item
+				.setTitle('Add file...')
+				.setIcon('plus')
+				.onClick(() => this.addCardFile(card));
+		});
+
+		menu.addItem((item) => {
+			item.setTitle('Remove file');
+			item.setIcon('x');
+
+			const submenu = (item as any).setSubmenu();
+			for (const link of links) {
+				submenu.addItem((subItem: any) => {
+					subItem
+						.setTitle(link)
+						.onClick(() => {
+							setCardFiles(card, links.filter(l => l !== link));
+							this.requestSave();
+							this.render();
+						});
+				});
+			}
+		});
+
+		menu.showAtMouseEvent(event);
+	}
+
+	private addCardFile(card: KanbanCard): void {
+		const sourcePath = this.file?.path || '';
+		const files = this.app.vault.getFiles().filter(file => file.path !== sourcePath);
+		new FilePickerModal(this.app, files, 'File to associate with this card...', (file) => {
+			const link = this.app.metadataCache.fileToLinktext(file, sourcePath);
+			const links = getCardFiles(card);
+			if (!links.includes(link)) {
+				setCardFiles(card, links.concat(link));
+				this.requestSave();
+				this.render();
+			}
+		}).open();
+	}
+
+	// Every file the board's cards link to, with the cards that link to it
+	private openAssociatedFiles(): void {
+		const sourcePath = this.file?.path || '';
+		const entries = new Map<string, { link: string; file: TFile | null; cards: string[] }>();
+
+		for (const card of getCardsWithFiles(this.board)) {
+			for (const link of getCardFiles(card)) {
+				const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+				const key = file ? file.path : link;
+				const entry = entries.get(key) || { link, file, cards: [] };
+				entry.cards.push(plainCardTitle(card.title));
+				entries.set(key, entry);
+			}
+		}
+
+		const sorted = Array.from(entries.values()).sort((a, b) => a.link.localeCompare(b.link));
+		new AssociatedFilesModal(this.app, sorted, (link) => this.app.workspace.openLinkText(link, sourcePath)).open();
+	}
+
+	private async syncCardStatusToBase(card: KanbanCard, lane: KanbanLane): Promise<void> {
+		const syncConfig = this.getBaseSyncConfig();
+		if (!syncConfig.enabled) return;
+
+		this.baseSyncService.setConfig(syncConfig);
+		
+		if (card.baseTaskPath) {
+			const success = await this.baseSyncService.onCardMoveToLane(card, lane);
+			if (success) {
+				updateSyncStatus(this.syncStatusEl, 'success', 'Status synced');
+			}
+		} else if (syncConfig.createMissingTasks) {
+			// Create a new Base task for this card
+			const taskPath = await this.baseSyncService.createBaseTask(card.title, card.metadata, lane, { start: card.startDate, due: card.dueDate });
+			if (taskPath) {
+				card.baseTaskPath = taskPath;
+				card.baseSyncTime = Date.now();
+				updateSyncStatus(this.syncStatusEl, 'success', 'Task created');
+			}
+		}
+	}
+
+	private deleteCard(card: KanbanCard, lane: KanbanLane): void {
+		const index = lane.cards.indexOf(card);
+		if (index === -1) return;
+
+		lane.cards.splice(index, 1);
+		this.requestSave();
+		this.render();
+	}
+
+	// Add the next occurrence of a recurring card that was just completed
+	private completeRecurringCard(card: KanbanCard, lane: KanbanLane): void {
+		const nextCard = createNextOccurrenceCard(card, this.plugin.settings.holidays);
+
+		if (!nextCard) {
+			new Notice('That was the last occurrence of this recurring card');
+		} else {
+			// Checking the card again after unchecking it should not add a second copy
+			const alreadyAdded = this.board.lanes.some(l => l.cards.some(c =>
+				c !== card && c.title === nextCard.title && c.dueDate === nextCard.dueDate));
+			if (!alreadyAdded) {
+				// On an aggregate board the card shows beside this one until it's written to its own board
+				const sameLane = !!this.aggregate || this.getSetting('recurring-card-lane') === 'same';
+				const targetLane = sameLane ? lane : this.board.lanes[0] || lane;
+				const insertMethod = this.getSetting('new-card-insertion-method') || this.plugin.settings['new-card-insertion-method'];
+				if (insertMethod === 'prepend') {
+					targetLane.cards.unshift(nextCard);
+				} else {
+					targetLane.cards.push(nextCard);
+				}
+				if (this.aggregate) addAggregateCard(this.aggregate, card, nextCard);
+				new Notice(`Next occurrence added, due ${nextCard.dueDate}`);
+			}
+		}
+
+		if (this.getSetting('archive-completed-recurring')) {
+			this.archiveCard(card, lane);
+		} else {
+			this.requestSave();
+			this.render();
+		}
+	}
+
+	// A recurring card moved into a done lane is completed as if it had been checked off
+	private completeMovedRecurringCard(card: KanbanCard, fromLane: KanbanLane, toLane: KanbanLane): boolean {
+		if (!card.recurrence || card.completed) return false;
+		const laneMapping = this.getBaseSyncConfig().laneMapping;
+		if (!isDoneLane(toLane, laneMapping) || isDoneLane(fromLane, laneMapping)) return false;
+
+		card.completed = true;
+		this.updateDependents(card);
+		this.completeRecurringCard(card, toLane);
+		return true;
+	}
+
+	private archiveCard(card: KanbanCard, lane: KanbanLane): void {
+		const index = lane.cards.indexOf(card);
+		if (index === -1) return;
+
+		lane.cards.splice(index, 1);
+		
+		// Optionally prepend archive date
+		let archivedCard = card;
+		if (this.plugin.settings['prepend-archive-date']) {
+			archivedCard = prependArchiveDate(card, this.plugin.settings['prepend-archive-format']);
+		}
+		
+		this.board.archive.push(archivedCard);
+		this.requestSave();
+		this.render();
+	}
+
+	private archiveLaneCards(lane: KanbanLane): void {
+		for (const card of lane.cards) {
+			let archivedCard = card;
+			if (this.plugin.settings['prepend-archive-date']) {
+				archivedCard = prependArchiveDate(card, this.plugin.settings['prepend-archive-format']);
+			}
+			this.board.archive.push(archivedCard);
+		}
+		lane.cards = [];
+		this.requestSave();
+		this.render();
 	}
 
 	private archiveCompletedInLane(lane: KanbanLane): void {
@@ -1868,7 +3092,9 @@ export class KanbanView extends TextFileView {
 	// Modal dialogs
 	private openCardEditModal(card: KanbanCard): void {
 		const modal = new CardEditModal(this.app, card, (updatedCard) => {
+			const datesChanged = updatedCard.startDate !== card.startDate || updatedCard.dueDate !== card.dueDate;
 			Object.assign(card, updatedCard);
+			if (datesChanged) this.syncCardDatesToBase(card);
 			this.requestSave();
 			this.render();
 		});
@@ -1966,31 +3192,153 @@ export class KanbanView extends TextFileView {
 		}
 	}
 
+	private async syncCardDatesToBase(card: KanbanCard): Promise<void> {
+		const syncConfig = this.getBaseSyncConfig();
+		if (!syncConfig.enabled || !card.baseTaskPath) return;
+
+		this.baseSyncService.setConfig(syncConfig);
+		const success = await this.baseSyncService.syncDates(card);
+		if (success) {
+			updateSyncStatus(this.syncStatusEl, 'success', 'Dates synced');
+		}
+	}
+
 	private setCardDueDate(card: KanbanCard): void {
 		const modal = new QuickInputModal(this.app, 'Set Due Date', 'Enter date (YYYY-MM-DD)',
 			card.dueDate || '',
 			(value) => {
-				if (value.match(/^\d{4}-\d{2}-\d{2}$/)) {
-					card.dueDate = value;
-				} else if (!value) {
-					card.dueDate = undefined;
+				if (value.match(/^\d{4}-\d{2}-\d{2}$/) || !value) {
+					this.setCardDates(card, card.startDate, value || undefined);
 				}
-				this.requestSave();
-				this.render();
 			}
 		);
 		modal.open();
 	}
 
+	/**
+	 * Change a card's start and due dates, and follow them in its Base task. Date edits
+	 * from the board, calendar, timeline and table all come through here.
+	 */
+	private setCardDates(card: KanbanCard, startDate: string | undefined, dueDate: string | undefined): void {
+		const changed = card.startDate !== startDate || card.dueDate !== dueDate;
+		card.startDate = startDate;
+		card.dueDate = dueDate;
+		// An inline @date would bring a cleared due date back
+		if (!dueDate) card.title = card.title.replace(/\s*@\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?/, '').trim();
+		if (changed) this.syncCardDatesToBase(card);
+		this.requestSave();
+		this.render();
+	}
+
 	private openBoardSettings(): void {
+		if (this.aggregateMarkdown !== null) {
+			new Notice('An aggregate board is set up in its frontmatter');
+			return;
+		}
 		const modal = new BoardSettingsModal(this.app, this.board.settings, (settings) => {
+			// Cards are read differently in another language or date format
+			const readingChanged = (['date-locale', 'date-format', 'date-input-formats'] as const)
+				.some(key => JSON.stringify(settings[key]) !== JSON.stringify(this.board.settings[key]));
 			this.board.settings = settings;
+			if (readingChanged) {
+				this.board = parseKanbanBoard(this.getViewData(), this.plugin.getBoardOptions());
+			}
 			this.requestSave();
 			this.render();
 		});
 		modal.open();
 	}
 
+	// Export the board next to its file as CSV or JSON
+	async exportBoard(format: 'csv' | 'json'): Promise<void> {
+		if (!this.file) return;
+
+		const content = format === 'csv'
+			? boardToCsv(this.board)
+			: JSON.stringify(boardToJson(this.board), null, 2);
+
+		const folder = this.file.parent?.path;
+		const basePath = folder && folder !== '/' ? `${folder}/` : '';
+		let filePath = `${basePath}${this.file.basename}.${format}`;
+		let counter = 1;
+
+		// Handle naming conflicts
+		while (this.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = `${basePath}${this.file.basename} ${counter}.${format}`;
+			counter++;
+		}
+
+		try {
+			await this.app.vault.create(filePath, content);
+			new Notice(`Exported board to ${filePath}`);
+		} catch (error) {
+			console.error('Error exporting board:', error);
+			new Notice('Failed to export board');
+		}
+	}
+
+	// Export dated cards to an .ics file next to the board
+	async exportIcs(): Promise<void> {
+		if (!this.file) return;
+		const folder = this.file.parent?.path;
+		const basePath = folder && folder !== '/' ? `${folder}/` : '';
+		await this.plugin.writeIcsExport(
+			[{ name: this.file.basename, board: this.board, dateLocale: this.getSetting('date-locale') }],
+			`${basePath}${this.file.basename}.ics`
+		);
+	}
+
+	// Board diagnostics
+	private noticeBoardErrors(markdown: string): void {
+		const errors = lintKanbanBoard(markdown, this.plugin.getBoardOptions()).filter(d => d.severity === 'error').length;
+		if (errors > 0) {
+			new Notice(`This board has ${errors} error${errors === 1 ? '' : 's'}. Run "Validate board" to see them.`);
+		}
+	}
+
+	validateBoard(): void {
+		const modal = new BoardDiagnosticsModal(
+			this.app,
+			lintKanbanBoard(this.getViewData(), this.plugin.getBoardOptions()),
+			(line) => this.jumpToLine(line),
+			(code) => this.fixDiagnostics(code)
+		);
+		modal.open();
+	}
+
+	private fixDiagnostics(code: DiagnosticCode): BoardDiagnostic[] {
+		let changed = 0;
+		if (code === 'duplicate-id') {
+			changed = regenerateDuplicateIds(this.board);
+			new Notice(`Regenerated ${changed} duplicate ID${changed === 1 ? '' : 's'}`);
+		} else if (code === 'orphaned-lane-config') {
+			changed = removeOrphanedLaneConfigs(this.board);
+			new Notice(`Removed ${changed} orphaned lane config${changed === 1 ? '' : 's'}`);
+		}
+
+		if (changed > 0) {
+			this.requestSave();
+			this.render();
+		}
+
+		// Re-lint what will be written on the next save
+		return lintKanbanBoard(this.getViewData(), this.plugin.getBoardOptions());
+	}
+
+	private async jumpToLine(line: number): Promise<void> {
+		if (!this.file) return;
+
+		this.plugin.kanbanFileModes[this.file.path] = 'markdown';
+		await this.plugin.setMarkdownView(this.leaf);
+
+		const view = this.leaf.view;
+		if (view instanceof MarkdownView) {
+			const pos = { line: Math.max(0, line - 1), ch: 0 };
+			view.editor.setCursor(pos);
+			view.editor.scrollIntoView({ from: pos, to: pos }, true);
+		}
+	}
+
 	// Card note operations
 	async openCardNote(card: KanbanCard): Promise<void> {
 		if (!card.notePath) return;
@@ -2117,13 +3465,14 @@ export class KanbanView extends TextFileView {
 		// Remove wiki link syntax
 		let name = title.replace(/\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g, '$1');
 		// Remove metadata
-		name = name.replace(/\[\w+::[^\]]+\]/g, '');
+		name = name.replace(new RegExp(INLINE_FIELD_REGEX.source, 'g'), '');
 		name = name.replace(/\w+::\S+/g, '');
 		// Remove tags
 		name = name.replace(/#[\w-/]+/g, '');
 		// Remove dates
 		name = name.replace(/@\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?/g, '');
-		name = name.replace(/@@\d{2}:\d{2}/g, '');
+		name = name.replace(/@@\{?\d{2}:\d{2}\}?/g, '');
+		name = name.replace(/@\{\d{4}-\d{2}-\d{2}\}/g, '');
 		// Remove invalid filename characters
 		name = name.replace(/[\\/:*?"<>|]/g, '');
 		// Collapse whitespace
@@ -2375,8 +3724,9 @@ export class KanbanView extends TextFileView {
 				}
 				
 				// Sync metadata from frontmatter
-				if (fm.due && typeof fm.due === 'string') {
+				if (fm.due && typeof fm.due === 'string' && fm.due !== card.dueDate) {
 					card.dueDate = fm.due;
+					this.syncCardDatesToBase(card);
 				}
 				if (fm.progress !== undefined) {
 					card.metadata.progress = typeof fm.progress === 'number' ? fm.progress : parseInt(fm.progress, 10);
@@ -2387,12 +3737,22 @@ export class KanbanView extends TextFileView {
 				if (fm.priority) {
 					card.metadata.priority = fm.priority;
 				}
+				const wasCompleted = card.completed;
 				if (fm.completed !== undefined) {
 					card.completed = fm.completed === true || fm.completed === 'true';
 				}
 				if (Array.isArray(fm.tags)) {
 					card.tags = fm.tags.map((t: string) => t.replace(/^#/, ''));
 				}
+
+				// Completing a recurring card in its note adds the next occurrence too
+				const lane = card.completed && !wasCompleted && card.recurrence
+					? this.board.lanes.find(l => l.cards.includes(card))
+					: undefined;
+				if (lane) {
+					this.completeRecurringCard(card, lane);
+					return;
+				}
 				
 				this.requestSave();
 				this.render();
@@ -2415,6 +3775,25 @@ export class KanbanView extends TextFileView {
 		}
 	}
 
+	// Public method for command palette
+	async toggleFocusedCardTimer(): Promise<void> {
+		const focusedCard = this.findFocusedCard();
+		if (!focusedCard) {
+			new Notice('Focus a card to start or stop its timer');
+			return;
+		}
+		if (this.isTimerRunning(focusedCard.card)) {
+			await this.plugin.stopTimer();
+		} else if (this.file) {
+			await this.plugin.startTimer(this.file.path, focusedCard.card);
+		}
+	}
+
+	private isTimerRunning(card: KanbanCard): boolean {
+		const timer = this.plugin.settings['active-timer'];
+		return !!timer && timer.cardId === card.id && timer.boardPath === this.file?.path;
+	}
+
 	private findFocusedCard(): { card: KanbanCard; lane: KanbanLane } | null {
 		// Try to find a card that's currently focused or has a selection
 		const activeElement = document.activeElement;
@@ -2458,6 +3837,13 @@ class CardEditModal extends Modal {
 				.setValue(this.card.title)
 				.onChange(value => this.card.title = value));
 
+		new Setting(contentEl)
+			.setName('Start Date')
+			.setDesc('YYYY-MM-DD format')
+			.addText(text => text
+				.setValue(this.card.startDate || '')
+				.onChange(value => this.card.startDate = value || undefined));
+
 		new Setting(contentEl)
 			.setName('Due Date')
 			.setDesc('YYYY-MM-DD format')
@@ -2596,7 +3982,7 @@ class CardContentModal extends Modal {
 		
 		// If we have subtasks but no content, generate content from subtasks
 		if (this.subtasks.length > 0 && !this.contentValue) {
-			const subtaskLines = this.subtasks.map(s => `\t- [${s.completed ? 'x' : ' '}] ${s.text}`);
+			const subtaskLines = this.subtasks.map(s => `\t${serializeSubtask(s)}`);
 			this.contentValue = subtaskLines.join('\n');
 		}
 		
@@ -2659,6 +4045,7 @@ class CardContentModal extends Modal {
 				.setButtonText('Save')
 				.setCta()
 				.onClick(() => {
+					this.contentValue = assignSubtaskIds(this.contentValue);
 					this.parseSubtasksFromContent();
 					this.onSave(this.contentValue, this.subtasks);
 					this.close();
@@ -2671,19 +4058,7 @@ class CardContentModal extends Modal {
 	subtaskPreviewEl: HTMLElement;
 
 	private parseSubtasksFromContent(): void {
-		this.subtasks = [];
-		const lines = this.contentValue.split('\n');
-		
-		for (const line of lines) {
-			const match = line.match(/^\s*-\s*\[([ xX])\]\s*(.*)$/);
-			if (match) {
-				this.subtasks.push({
-					id: Math.random().toString(36).substring(2, 11) + Date.now().toString(36).slice(-4),
-					text: match[2].trim(),
-					completed: match[1].toLowerCase() === 'x',
-				});
-			}
-		}
+		this.subtasks = parseSubtasksFromContent(this.contentValue);
 	}
 
 	private updateSubtaskPreview(): void {
@@ -2847,16 +4222,59 @@ class BoardSettingsModal extends Modal {
 				.setValue(this.settings['default-project'] || '')
 				.onChange(value => this.settings['default-project'] = value || undefined));
 
+		new Setting(contentEl)
+			.setName('Field syntax')
+			.setDesc('How edited cards write priority, dates and recurrence')
+			.addDropdown(dropdown => dropdown
+				.addOption('dataview', 'Inline fields ([priority::high])')
+				.addOption('tasks', 'Tasks plugin emoji (⏫ 📅 🔁)')
+				.setValue(this.settings['field-syntax'] || 'dataview')
+				.onChange(value => this.settings['field-syntax'] = value === 'tasks' ? 'tasks' : undefined));
+
 		// Date settings
 		contentEl.createEl('h3', { text: 'Dates' });
 
 		new Setting(contentEl)
 			.setName('Date format')
+			.setDesc('Used to show dates, and accepted when typing them (@15/01/2024)')
 			.addText(text => text
 				.setValue(this.settings['date-format'] || '')
 				.setPlaceholder('YYYY-MM-DD')
 				.onChange(value => this.settings['date-format'] = value || undefined));
 
+		new Setting(contentEl)
+			.setName('Other accepted date formats')
+			.setDesc('Comma-separated, e.g. MM-DD-YYYY, D MMM YYYY')
+			.addText(text => text
+				.setValue((this.settings['date-input-formats'] || []).join(', '))
+				.onChange(value => {
+					const formats = value.split(',').map(format => format.trim()).filter(format => format);
+					this.settings['date-input-formats'] = formats.length > 0 ? formats : undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName('Write dates as')
+			.addDropdown(dropdown => dropdown
+				.addOption('', 'Use global setting')
+				.addOption('iso', 'ISO (2024-01-15)')
+				.addOption('date-format', 'Date format')
+				.setValue(this.settings['date-serialization-format'] || '')
+				.onChange(value => this.settings['date-serialization-format'] = value === 'iso' || value === 'date-format' ? value : undefined));
+
+		new Setting(contentEl)
+			.setName('Date language')
+			.setDesc('Language of natural dates and recurrences on this board, besides English')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Use global setting');
+				dropdown.addOption('en', 'English');
+				for (const locale of Object.values(DATE_LOCALES)) {
+					dropdown.addOption(locale.id, locale.name);
+				}
+				dropdown
+					.setValue(this.settings['date-locale'] || '')
+					.onChange(value => this.settings['date-locale'] = value || undefined);
+			});
+
 		new Setting(contentEl)
 			.setName('Show relative dates')
 			.addToggle(toggle => toggle
@@ -2889,6 +4307,37 @@ class BoardSettingsModal extends Modal {
 				.setPlaceholder('templates/card.md')
 				.onChange(value => this.settings['template-path'] = value || undefined));
 
+		new Setting(contentEl)
+			.setName('Next occurrence lane')
+			.setDesc('Where completing a recurring card adds its next occurrence')
+			.addDropdown(dropdown => dropdown
+				.addOption('first', 'First lane')
+				.addOption('same', 'Same lane')
+				.setValue(this.settings['recurring-card-lane'] || 'first')
+				.onChange(value => this.settings['recurring-card-lane'] = value as 'first' | 'same'));
+
+		new Setting(contentEl)
+			.setName('Archive completed recurring cards')
+			.setDesc('Move a recurring card to the archive once its next occurrence is added')
+			.addToggle(toggle => toggle
+				.setValue(this.settings['archive-completed-recurring'] || false)
+				.onChange(value => this.settings['archive-completed-recurring'] = value));
+
+		new Setting(contentEl)
+			.setName('Refuse blocked cards in done lanes')
+			.setDesc('Keep cards with open blockers out of done lanes, instead of only warning')
+			.addToggle(toggle => toggle
+				.setValue(this.settings['refuse-blocked-done'] || false)
+				.onChange(value => this.settings['refuse-blocked-done'] = value));
+
+		new Setting(contentEl)
+			.setName('Swimlanes')
+			.setDesc('Split every lane into rows by project, assignee, priority, first tag or any [key::value] field. Leave empty for none.')
+			.addText(text => text
+				.setValue(this.settings['swimlane-field'] || '')
+				.setPlaceholder('project')
+				.onChange(value => this.settings['swimlane-field'] = normalizeSwimlaneField(value)));
+
 		// Card Composer settings
 		contentEl.createEl('h3', { text: 'Card Composer' });
 
@@ -2979,6 +4428,149 @@ class BoardSettingsModal extends Modal {
 	}
 }
 
+class CardPickerModal extends FuzzySuggestModal<KanbanCard> {
+	private cards: KanbanCard[];
+	private onChoose: (card: KanbanCard) => void;
+
+	constructor(app: any, cards: KanbanCard[], placeholder: string, onChoose: (card: KanbanCard) => void) {
+		super(app);
+		this.cards = cards;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): KanbanCard[] {
+		return this.cards;
+	}
+
+	getItemText(item: KanbanCard): string {
+		return plainCardTitle(item.title);
+	}
+
+	onChooseItem(item: KanbanCard, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoose(item);
+	}
+}
+
+class FilterPresetPickerModal extends FuzzySuggestModal<FilterPreset> {
+	private presets: FilterPreset[];
+	private onChoose: (preset: FilterPreset) => void;
+
+	constructor(app: any, presets: FilterPreset[], onChoose: (preset: FilterPreset) => void) {
+		super(app);
+		this.presets = presets;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Filter preset...');
+	}
+
+	getItems(): FilterPreset[] {
+		return this.presets;
+	}
+
+	getItemText(item: FilterPreset): string {
+		return item.name;
+	}
+
+	onChooseItem(item: FilterPreset, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoose(item);
+	}
+}
+
+class LanePickerModal extends FuzzySuggestModal<KanbanLane> {
+	private lanes: KanbanLane[];
+	private onChoose: (lane: KanbanLane) => void;
+
+	constructor(app: any, lanes: KanbanLane[], placeholder: string, onChoose: (lane: KanbanLane) => void) {
+		super(app);
+		this.lanes = lanes;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): KanbanLane[] {
+		return this.lanes;
+	}
+
+	getItemText(item: KanbanLane): string {
+		return item.title;
+	}
+
+	onChooseItem(item: KanbanLane, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoose(item);
+	}
+}
+
+class FilePickerModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: any, files: TFile[], placeholder: string, onChoose: (file: TFile) => void) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(item: TFile): string {
+		return item.path.replace(/\.md$/, '');
+	}
+
+	onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoose(item);
+	}
+}
+
+class AssociatedFilesModal extends Modal {
+	entries: { link: string; file: TFile | null; cards: string[] }[];
+	onOpenFile: (link: string) => void;
+
+	constructor(app: any, entries: { link: string; file: TFile | null; cards: string[] }[], onOpenFile: (link: string) => void) {
+		super(app);
+		this.entries = entries;
+		this.onOpenFile = onOpenFile;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('kanban-associated-files-modal');
+
+		contentEl.createEl('h2', { text: 'Associated Files' });
+
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', { text: 'No cards on this board have associated files.', cls: 'kanban-associated-files-empty' });
+			return;
+		}
+
+		const listEl = contentEl.createDiv({ cls: 'kanban-associated-files-list' });
+		for (const entry of this.entries) {
+			const itemEl = listEl.createDiv({ cls: 'kanban-associated-file' });
+			setIcon(itemEl.createSpan({ cls: 'kanban-associated-file-icon' }), entry.file ? 'file' : 'file-x');
+			const textEl = itemEl.createDiv({ cls: 'kanban-associated-file-text' });
+			textEl.createDiv({ text: entry.file ? entry.file.path : `${entry.link} (missing)`, cls: 'kanban-associated-file-name' });
+			textEl.createDiv({ text: entry.cards.join(', '), cls: 'kanban-associated-file-cards' });
+
+			if (entry.file) {
+				itemEl.addEventListener('click', () => {
+					this.close();
+					this.onOpenFile(entry.link);
+				});
+			} else {
+				itemEl.addClass('is-missing');
+			}
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
 // Confirm Modal
 class ConfirmModal extends Modal {
 	title: string;
@@ -3018,6 +4610,83 @@ class ConfirmModal extends Modal {
 	}
 }
 
+// Board Diagnostics Modal
+class BoardDiagnosticsModal extends Modal {
+	diagnostics: BoardDiagnostic[];
+	onJump: (line: number) => void;
+	onFix: (code: DiagnosticCode) => BoardDiagnostic[];
+
+	constructor(
+		app: any,
+		diagnostics: BoardDiagnostic[],
+		onJump: (line: number) => void,
+		onFix: (code: DiagnosticCode) => BoardDiagnostic[]
+	) {
+		super(app);
+		this.diagnostics = diagnostics;
+		this.onJump = onJump;
+		this.onFix = onFix;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('kanban-diagnostics-modal');
+
+		contentEl.createEl('h2', { text: 'Validate Board' });
+
+		if (this.diagnostics.length === 0) {
+			contentEl.createEl('p', { text: 'No problems found.', cls: 'kanban-diagnostics-empty' });
+			return;
+		}
+
+		const count = this.diagnostics.length;
+		contentEl.createEl('p', {
+			text: `${count} problem${count === 1 ? '' : 's'} found. Click a problem to jump to its line.`,
+			cls: 'setting-item-description'
+		});
+
+		const listEl = contentEl.createDiv({ cls: 'kanban-diagnostics-list' });
+		const icons: Record<string, string> = { error: 'x-circle', warning: 'alert-triangle', info: 'info' };
+
+		for (const diagnostic of this.diagnostics) {
+			const itemEl = listEl.createDiv({ cls: `kanban-diagnostic kanban-diagnostic-${diagnostic.severity}` });
+			setIcon(itemEl.createSpan({ cls: 'kanban-diagnostic-icon' }), icons[diagnostic.severity]);
+			itemEl.createSpan({ text: `Line ${diagnostic.line}`, cls: 'kanban-diagnostic-line' });
+			itemEl.createSpan({ text: diagnostic.message, cls: 'kanban-diagnostic-message' });
+
+			itemEl.addEventListener('click', () => {
+				this.close();
+				this.onJump(diagnostic.line);
+			});
+		}
+
+		// Quick-fixes
+		const fixes: { code: DiagnosticCode; label: string }[] = [
+			{ code: 'duplicate-id', label: 'Regenerate duplicate IDs' },
+			{ code: 'orphaned-lane-config', label: 'Remove orphaned lane configs' },
+		];
+		const fixSetting = new Setting(contentEl);
+		for (const fix of fixes) {
+			if (!this.diagnostics.some(d => d.code === fix.code && d.fixable)) continue;
+			fixSetting.addButton(btn => btn
+				.setButtonText(fix.label)
+				.onClick(() => {
+					this.diagnostics = this.onFix(fix.code);
+					this.onOpen();
+				}));
+		}
+		fixSetting.addButton(btn => btn
+			.setButtonText('Close')
+			.onClick(() => this.close()));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
 // WIP Limit Modal
 class WipLimitModal extends Modal {
 	lane: KanbanLane;
@@ -0,0 +1,171 @@
+/**
+ * Migration from the original obsidian-kanban board format
+ *
+ * The parser already reads the legacy dialect; migration rewrites it on disk:
+ * - @{2024-01-15} and @[[2024-01-15]] dates → @2024-01-15
+ *   (dates in a custom legacy date-format are converted to ISO)
+ * - @@{10:00} times → @@10:00
+ * - **Complete** lane markers and the *** archive divider are removed
+ * - Legacy settings keys (numeric lane-width, date-display-format, ...) are converted
+ *
+ * Everything else in the file is left exactly as it was.
+ */
+
+import { normalizeLegacySettings, parseDateWithFormat } from './parser';
+
+export interface MigrationChange {
+	line: number;           // 1-based line in the original file
+	before: string;
+	after: string | null;   // null when the line is removed
+}
+
+export interface MigrationResult {
+	markdown: string;
+	changes: MigrationChange[];
+	notes: string[];        // Things that were kept but have no equivalent in this plugin
+}
+
+// Legacy settings keys that have no equivalent here
+const UNSUPPORTED_LEGACY_KEYS = [
+	'tag-colors',
+	'date-colors',
+	'metadata-keys',
+	'max-archive-size',
+	'archive-date-format',
+	'archive-date-separator',
+	'prepend-archive-date',
+	'append-archive-date',
+	'show-search',
+	'show-view-as-markdown',
+	'show-board-settings',
+	'show-archive-all',
+	'date-picker-week-start',
+	'list-collapse',
+];
+
+/**
+ * Rewrite a legacy obsidian-kanban board into this plugin's format
+ */
+export function migrateLegacyBoard(markdown: string): MigrationResult {
+	const lines = markdown.split('\n');
+	const changes: MigrationChange[] = [];
+	const notes: string[] = [];
+
+	// Settings decide how legacy dates were written
+	const settingsRange = findSettingsJson(lines);
+	let legacySettings: Record<string, unknown> | null = null;
+	if (settingsRange) {
+		try {
+			legacySettings = JSON.parse(lines.slice(settingsRange.start, settingsRange.end).join('\n'));
+		} catch {
+			notes.push('Board settings are not valid JSON and were left unchanged');
+		}
+	}
+	const storageFormat = typeof legacySettings?.['date-format'] === 'string' ? legacySettings['date-format'] as string : 'YYYY-MM-DD';
+
+	const output: string[] = [];
+	let settingsOutputStart = -1;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const inSettings = !!settingsRange && i >= settingsRange.start && i < settingsRange.end;
+		if (settingsRange && i === settingsRange.start) {
+			settingsOutputStart = output.length;
+		}
+
+		if (!inSettings) {
+			// Lanes marked **Complete** and the *** divider before the archive
+			const isCompleteMarker = line.trim() === '**Complete**' && previousNonEmpty(lines, i)?.match(/^##\s/);
+			const isArchiveDivider = line.trim() === '***' && nextNonEmpty(lines, i)?.match(/^##\s+Archive\s*$/i);
+			if (isCompleteMarker || isArchiveDivider) {
+				changes.push({ line: i + 1, before: line, after: null });
+				if (isCompleteMarker) {
+					notes.push(`Line ${i + 1}: "Mark cards in this list as complete" is not supported and was removed`);
+				}
+				continue;
+			}
+
+			if (line.match(/^\s*-\s*\[[ xX]\]/)) {
+				const migrated = migrateCardLine(line, storageFormat, i + 1, notes);
+				if (migrated !== line) {
+					changes.push({ line: i + 1, before: line, after: migrated });
+				}
+				output.push(migrated);
+				continue;
+			}
+		}
+
+		output.push(line);
+	}
+
+	// Replace the settings JSON with normalized settings
+	if (settingsRange && legacySettings) {
+		const settings: Record<string, unknown> = { ...normalizeLegacySettings(legacySettings) };
+		if (settings['date-format'] === storageFormat && typeof settings['date-display-format'] === 'string') {
+			// Dates are now stored as ISO, so the legacy storage format only mattered for reading
+			settings['date-format'] = settings['date-display-format'];
+			delete settings['date-display-format'];
+		}
+
+		for (const key of UNSUPPORTED_LEGACY_KEYS) {
+			if (key in settings) {
+				notes.push(`Setting "${key}" has no equivalent and was kept as-is`);
+			}
+		}
+
+		const before = lines.slice(settingsRange.start, settingsRange.end).join('\n');
+		const after = JSON.stringify(settings, null, 2);
+		if (JSON.stringify(settings) !== JSON.stringify(legacySettings)) {
+			output.splice(settingsOutputStart, settingsRange.end - settingsRange.start, after);
+			changes.push({ line: settingsRange.start + 1, before, after });
+		}
+	}
+
+	return { markdown: output.join('\n'), changes, notes };
+}
+
+// Rewrite legacy date and time tokens on one card or subtask line
+function migrateCardLine(line: string, storageFormat: string, lineNumber: number, notes: string[]): string {
+	return line
+		.replace(/@@\{(\d{1,2}):(\d{2})\}/g, (_, hours: string, minutes: string) => `@@${hours.padStart(2, '0')}:${minutes}`)
+		.replace(/@\{([^}]+)\}|@\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g, (token, braced: string | undefined, linked: string | undefined) => {
+			const value = (braced ?? linked ?? '').trim();
+			const iso = value.match(/^\d{4}-\d{2}-\d{2}$/) ? value : parseDateWithFormat(value, storageFormat);
+			if (!iso) {
+				notes.push(`Line ${lineNumber}: could not read date "${value}" and left it unchanged`);
+				return token;
+			}
+			return `@${iso}`;
+		});
+}
+
+// Locate the JSON lines inside the %% kanban:settings block (end is exclusive)
+function findSettingsJson(lines: string[]): { start: number; end: number } | null {
+	const blockStart = lines.findIndex(line => line.trim().startsWith('%% kanban:settings'));
+	if (blockStart === -1) return null;
+
+	let start = -1;
+	for (let i = blockStart + 1; i < lines.length; i++) {
+		if (lines[i].trim().startsWith('```')) {
+			if (start === -1) {
+				start = i + 1;
+			} else {
+				return { start, end: i };
+			}
+		}
+	}
+	return null;
+}
+
+function previousNonEmpty(lines: string[], index: number): string | undefined {
+	for (let i = index - 1; i >= 0; i--) {
+		if (lines[i].trim()) return lines[i];
+	}
+	return undefined;
+}
+
+function nextNonEmpty(lines: string[], index: number): string | undefined {
+	for (let i = index + 1; i < lines.length; i++) {
+		if (lines[i].trim()) return lines[i];
+	}
+	return undefined;
+}
@@ -0,0 +1,78 @@
+/**
+ * Swimlanes for Base Kanban
+ *
+ * A board can split every lane into horizontal swimlanes by one card field, set in its
+ * 'swimlane-field' setting:
+ * - project, assignee or priority
+ * - tag                   The card's first tag
+ * - any other key         A [key::value] field
+ *
+ * Swimlanes only change how the board is drawn; the lanes in the markdown stay as they are.
+ * Dropping a card into another swimlane rewrites that field on the card.
+ */
+
+import { KanbanCard } from './types';
+import { setCardField, setCardTags } from './parser';
+
+export interface Swimlane {
+	value: string;                   // Field value shared by the swimlane's cards; '' for none
+	label: string;
+}
+
+export const SWIMLANE_FIELDS = ['project', 'assignee', 'priority', 'tag'];
+
+const PRIORITY_ORDER = ['urgent', 'high', 'medium', 'low'];
+
+export function getSwimlaneValue(card: KanbanCard, field: string): string {
+	if (field === 'tag') return card.tags[0] || '';
+	const value = card.metadata[field];
+	return value !== undefined ? String(value) : '';
+}
+
+/**
+ * The swimlane field for a key as typed, stored the way the parser stores [key::value]
+ * fields (lowercase, without the brackets), or undefined when it can't be a field
+ */
+export function normalizeSwimlaneField(value: string): string | undefined {
+	const key = value.trim().replace(/^\[/, '').replace(/::\]?$|\]$/, '').trim().toLowerCase();
+	return /^[\w-]+$/.test(key) ? key : undefined;
+}
+
+/**
+ * Put a card in another swimlane: set the field, or with '' remove it. With tags, ''
+ * removes them all, since the card would otherwise land in the swimlane of its next tag.
+ */
+export function setSwimlaneValue(card: KanbanCard, field: string, value: string): void {
+	if (field === 'tag') {
+		const otherTags = card.tags.slice(1).filter(tag => tag !== value);
+		setCardTags(card, value ? [value, ...otherTags] : []);
+	} else {
+		setCardField(card, field, value || undefined);
+	}
+}
+
+/**
+ * The swimlanes for a set of cards: priorities from most urgent, other values
+ * alphabetically, and cards without the field last
+ */
+export function getSwimlanes(cards: KanbanCard[], field: string): Swimlane[] {
+	const values = new Set<string>();
+	for (const card of cards) {
+		values.add(getSwimlaneValue(card, field));
+	}
+
+	const sorted = Array.from(values).sort((a, b) => {
+		if (a === '' || b === '') return a === '' ? 1 : -1;
+		if (field === 'priority') {
+			// Custom priorities come after the known ones
+			const rank = (value: string) => PRIORITY_ORDER.includes(value) ? PRIORITY_ORDER.indexOf(value) : PRIORITY_ORDER.length;
+			if (rank(a) !== rank(b)) return rank(a) - rank(b);
+		}
+		return a.localeCompare(b);
+	});
+
+	return sorted.map(value => ({
+		value,
+		label: value === '' ? `No ${field}` : field === 'tag' ? `#${value}` : value,
+	}));
+}
@@ -0,0 +1,374 @@
+/**
+ * Table view for Base Kanban
+ *
+ * Shows a board as a spreadsheet for triage: one row per card, with columns for its
+ * list, title, tags, due date, priority, project, progress, assignee, and every other
+ * [key::value] field used on the board. Columns sort from their headers and filter
+ * from the row beneath them. Clicking a cell edits it in place; changing the list
+ * moves the card.
+ */
+
+import { KanbanBoard, KanbanCard, KanbanLane } from './types';
+import { setCardField, setCardTags } from './parser';
+import { plainCardTitle } from './BoardExport';
+
+/**
+ * What the table needs from the view that hosts it
+ */
+export interface TableHost {
+	getBoard(): KanbanBoard;
+	isCardVisible(card: KanbanCard, lane: KanbanLane): boolean;
+	getLaneColor(lane: KanbanLane): string;
+	moveCard(card: KanbanCard, fromLane: KanbanLane, toLane: KanbanLane): void;
+	setCardDates(card: KanbanCard, startDate: string | undefined, dueDate: string | undefined): void;
+	onCardEdited(card: KanbanCard, column: string): void;
+}
+
+type CellEditor = 'text' | 'date' | 'number' | 'lane' | 'priority';
+
+interface TableColumn {
+	key: string;
+	label: string;
+	editor: CellEditor;
+	getValue(card: KanbanCard, lane: KanbanLane): string;
+	getSortValue?(card: KanbanCard, lane: KanbanLane): string | number;
+	getEditValue?(card: KanbanCard): string;
+	setValue?(card: KanbanCard, value: string): void;
+}
+
+interface TableRow {
+	card: KanbanCard;
+	lane: KanbanLane;
+}
+
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+// Fields with their own column, or shown elsewhere on the card
+const BUILT_IN_FIELDS = ['progress', 'project', 'priority', 'assignee'];
+
+/**
+ * Columns for a board: the built-in ones, then its other fields in alphabetical order
+ */
+export function getTableColumns(board: KanbanBoard): TableColumn[] {
+	const columns: TableColumn[] = [
+		{
+			key: 'lane',
+			label: 'List',
+			editor: 'lane',
+			getValue: (card, lane) => lane.title,
+			getSortValue: (card, lane) => board.lanes.indexOf(lane),
+		},
+		{
+			key: 'title',
+			label: 'Title',
+			editor: 'text',
+			getValue: card => plainCardTitle(card.title),
+			// Edited as written, with its tags and dates
+			getEditValue: card => card.title,
+			setValue: (card, value) => card.title = value,
+		},
+		{
+			key: 'tags',
+			label: 'Tags',
+			editor: 'text',
+			getValue: card => card.tags.map(tag => `#${tag}`).join(' '),
+			setValue: (card, value) => setCardTags(card, parseTagList(value)),
+		},
+		{
+			key: 'due',
+			label: 'Due',
+			editor: 'date',
+			getValue: card => card.dueDate || '',
+		},
+		{
+			key: 'priority',
+			label: 'Priority',
+			editor: 'priority',
+			getValue: card => card.metadata.priority || '',
+			getSortValue: card => card.metadata.priority ? PRIORITIES.indexOf(card.metadata.priority) : '',
+			setValue: (card, value) => setCardField(card, 'priority', value || undefined),
+		},
+		fieldColumn('project', 'Project'),
+		{
+			key: 'progress',
+			label: 'Progress',
+			editor: 'number',
+			getValue: card => card.metadata.progress !== undefined ? `${card.metadata.progress}%` : '',
+			getSortValue: card => card.metadata.progress !== undefined ? card.metadata.progress : '',
+			getEditValue: card => card.metadata.progress !== undefined ? String(card.metadata.progress) : '',
+			setValue: (card, value) => {
+				const progress = parseInt(value, 10);
+				setCardField(card, 'progress', isNaN(progress) ? undefined : Math.min(Math.max(progress, 0), 100));
+			},
+		},
+		fieldColumn('assignee', 'Assignee'),
+	];
+
+	const customKeys = new Set<string>();
+	for (const lane of board.lanes) {
+		for (const card of lane.cards) {
+			for (const [key, value] of Object.entries(card.metadata)) {
+				if (value !== undefined && !BUILT_IN_FIELDS.includes(key)) customKeys.add(key);
+			}
+		}
+	}
+	for (const key of Array.from(customKeys).sort()) {
+		columns.push(fieldColumn(key, key));
+	}
+	return columns;
+}
+
+// A column for a [key::value] field
+function fieldColumn(key: string, label: string): TableColumn {
+	return {
+		key,
+		label,
+		editor: 'text',
+		getValue: card => card.metadata[key] !== undefined ? String(card.metadata[key]) : '',
+		setValue: (card, value) => setCardField(card, key, value.trim() || undefined),
+	};
+}
+
+// "#bug, ui #backend" → ['bug', 'ui', 'backend']
+function parseTagList(text: string): string[] {
+	const tags: string[] = [];
+	for (const part of text.split(/[\s,]+/)) {
+		const tag = part.replace(/^#/, '');
+		if (tag && !tags.includes(tag)) tags.push(tag);
+	}
+	return tags;
+}
+
+export class BoardTable {
+	private sortKey: string | null = null;
+	private sortDescending = false;
+	private columnFilters: Map<string, string> = new Map();
+	private host: TableHost;
+	private containerEl: HTMLElement | null = null;
+	private bodyEl: HTMLElement | null = null;
+	private countEl: HTMLElement | null = null;
+	private columns: TableColumn[] = [];
+
+	constructor(host: TableHost) {
+		this.host = host;
+	}
+
+	render(containerEl: HTMLElement): void {
+		this.containerEl = containerEl.createDiv({ cls: 'kanban-table' });
+		this.columns = getTableColumns(this.host.getBoard());
+
+		const scrollEl = this.containerEl.createDiv({ cls: 'kanban-table-scroll' });
+		const tableEl = scrollEl.createEl('table');
+		this.renderHeader(tableEl.createEl('thead'));
+		this.bodyEl = tableEl.createEl('tbody');
+		this.countEl = this.containerEl.createDiv({ cls: 'kanban-table-count' });
+		this.drawBody();
+	}
+
+	private renderHeader(headEl: HTMLElement): void {
+		const titleRow = headEl.createEl('tr');
+		for (const column of this.columns) {
+			const sorted = this.sortKey === column.key;
+			const thEl = titleRow.createEl('th', {
+				cls: `kanban-table-heading${sorted ? ' is-sorted' : ''}`,
+				text: column.label,
+			});
+			if (sorted) {
+				thEl.createSpan({ cls: 'kanban-table-sort', text: this.sortDescending ? '▼' : '▲' });
+			}
+			// Ascending, then descending, then back to board order
+			thEl.addEventListener('click', () => {
+				if (!sorted) {
+					this.sortKey = column.key;
+					this.sortDescending = false;
+				} else if (!this.sortDescending) {
+					this.sortDescending = true;
+				} else {
+					this.sortKey = null;
+				}
+				this.redraw();
+			});
+		}
+
+		const filterRow = headEl.createEl('tr', { cls: 'kanban-table-filters' });
+		for (const column of this.columns) {
+			const inputEl = filterRow.createEl('th').createEl('input', {
+				type: 'text',
+				cls: 'kanban-table-filter',
+				attr: { placeholder: 'Filter' },
+			});
+			inputEl.value = this.columnFilters.get(column.key) || '';
+			inputEl.addEventListener('input', () => {
+				if (inputEl.value) {
+					this.columnFilters.set(column.key, inputEl.value);
+				} else {
+					this.columnFilters.delete(column.key);
+				}
+				this.drawBody();
+			});
+		}
+	}
+
+	private drawBody(): void {
+		if (!this.bodyEl || !this.countEl) return;
+		this.bodyEl.empty();
+
+		const rows = this.collectRows();
+		for (const row of rows) {
+			const rowEl = this.bodyEl.createEl('tr', { cls: row.card.completed ? 'is-completed' : '' });
+			for (const column of this.columns) {
+				const cellEl = rowEl.createEl('td', { cls: `kanban-table-cell is-${column.editor}` });
+				this.renderCell(cellEl, row, column);
+			}
+		}
+
+		if (rows.length === 0) {
+			const emptyCell = this.bodyEl.createEl('tr').createEl('td', {
+				cls: 'kanban-table-empty',
+				text: 'No cards match',
+			});
+			emptyCell.colSpan = this.columns.length;
+		}
+		this.countEl.setText(`${rows.length} card${rows.length === 1 ? '' : 's'}`);
+	}
+
+	private renderCell(cellEl: HTMLElement, row: TableRow, column: TableColumn): void {
+		cellEl.empty();
+		const value = column.getValue(row.card, row.lane);
+		if (column.key === 'lane') {
+			cellEl.createSpan({ cls: 'kanban-table-lane-dot' })
+				.style.setProperty('--kanban-lane-color', this.host.getLaneColor(row.lane));
+		}
+		cellEl.createSpan({ text: value });
+		cellEl.title = value;
+		cellEl.onclick = () => this.editCell(cellEl, row, column);
+	}
+
+	// Swap the cell for an input; Enter or leaving the cell saves, Escape cancels
+	private editCell(cellEl: HTMLElement, row: TableRow, column: TableColumn): void {
+		if (cellEl.hasClass('is-editing')) return;
+		cellEl.empty();
+		cellEl.addClass('is-editing');
+		cellEl.onclick = null;
+
+		const inputEl = this.createEditor(cellEl, row, column);
+		let finished = false;
+		const finish = (save: boolean) => {
+			if (finished) return;
+			finished = true;
+			cellEl.removeClass('is-editing');
+			if (!save || !this.applyEdit(row, column, inputEl.value)) {
+				this.renderCell(cellEl, row, column);
+			}
+		};
+
+		inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				finish(true);
+			} else if (event.key === 'Escape') {
+				event.preventDefault();
+				finish(false);
+			}
+		});
+		inputEl.addEventListener('blur', () => finish(true));
+		if (inputEl instanceof HTMLSelectElement) {
+			inputEl.addEventListener('change', () => finish(true));
+		}
+		inputEl.focus();
+	}
+
+	private createEditor(cellEl: HTMLElement, row: TableRow, column: TableColumn): HTMLInputElement | HTMLSelectElement {
+		const { card, lane } = row;
+		if (column.editor === 'lane' || column.editor === 'priority') {
+			const selectEl = cellEl.createEl('select', { cls: 'dropdown' });
+			if (column.editor === 'lane') {
+				for (const option of this.host.getBoard().lanes) {
+					selectEl.createEl('option', { text: option.title, value: option.id });
+				}
+				selectEl.value = lane.id;
+			} else {
+				selectEl.createEl('option', { text: 'None', value: '' });
+				for (const priority of PRIORITIES.slice().reverse()) {
+					selectEl.createEl('option', { text: priority, value: priority });
+				}
+				selectEl.value = card.metadata.priority || '';
+			}
+			return selectEl;
+		}
+
+		const inputEl = cellEl.createEl('input', { type: column.editor });
+		if (column.editor === 'number') {
+			inputEl.min = '0';
+			inputEl.max = '100';
+		}
+		inputEl.value = this.getEditValue(row, column);
+		return inputEl;
+	}
+
+	// Returns whether a field changed, in which case the host redraws the table
+	private applyEdit(row: TableRow, column: TableColumn, value: string): boolean {
+		const { card, lane } = row;
+		if (column.key === 'lane') {
+			const toLane = this.host.getBoard().lanes.find(l => l.id === value);
+			if (!toLane || toLane === lane) return false;
+			// The move may be refused, so the cell is redrawn either way
+			this.host.moveCard(card, lane, toLane);
+			return false;
+		}
+		if (column.key === 'due') {
+			if (value === this.getEditValue(row, column)) return false;
+			this.host.setCardDates(card, card.startDate, value || undefined);
+			return true;
+		}
+
+		if (!column.setValue || value === this.getEditValue(row, column)) return false;
+		if (column.key === 'title' && !value.trim()) return false;
+
+		column.setValue(card, value);
+		this.host.onCardEdited(card, column.key);
+		return true;
+	}
+
+	private getEditValue(row: TableRow, column: TableColumn): string {
+		return column.getEditValue ? column.getEditValue(row.card) : column.getValue(row.card, row.lane);
+	}
+
+	// Visible cards that pass the column filters, in board order unless a column is sorted
+	private collectRows(): TableRow[] {
+		const rows: TableRow[] = [];
+		for (const lane of this.host.getBoard().lanes) {
+			for (const card of lane.cards) {
+				if (!this.host.isCardVisible(card, lane)) continue;
+				const matches = this.columns.every(column => {
+					const filter = this.columnFilters.get(column.key);
+					return !filter || column.getValue(card, lane).toLowerCase().includes(filter.toLowerCase());
+				});
+				if (matches) rows.push({ card, lane });
+			}
+		}
+
+		const column = this.columns.find(c => c.key === this.sortKey);
+		if (column) {
+			const sortValue = (row: TableRow) => column.getSortValue
+				? column.getSortValue(row.card, row.lane)
+				: column.getValue(row.card, row.lane).toLowerCase();
+			const direction = this.sortDescending ? -1 : 1;
+			rows.sort((a, b) => {
+				const valueA = sortValue(a);
+				const valueB = sortValue(b);
+				// Empty text sorts last either way
+				if (valueA === '' || valueB === '') return valueA === valueB ? 0 : valueA === '' ? 1 : -1;
+				return (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) * direction;
+			});
+		}
+		return rows;
+	}
+
+	private redraw(): void {
+		if (!this.containerEl) return;
+		const parentEl = this.containerEl.parentElement;
+		this.containerEl.remove();
+		if (parentEl) this.render(parentEl);
+	}
+}
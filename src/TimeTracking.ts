@@ -0,0 +1,210 @@
+/**
+ * Time tracking for Base Kanban
+ *
+ * Estimates ([estimate::]) are durations ("2h", "1d 4h") or story points ("5pt").
+ * Spent time ([spent::]) is always a duration. Days are working days of 8 hours.
+ *
+ * One timer runs at a time; its state lives in the plugin settings, so it survives
+ * view reloads and restarts. Stopping a timer records a time entry on the card:
+ * - The elapsed time is added to [spent::] (e.g. [spent::1h 30m])
+ * - A log line is appended to the card content:
+ *     - ⏱ 2024-01-15 09:00–10:30 (1h 30m)
+ *   Cards with a note of their own keep it under ## Time log in the note instead, since
+ *   their content isn't written to the board. Linked Base tasks get the same log.
+ */
+
+import { KanbanCard } from './types';
+import { setCardField } from './parser';
+
+const TIME_LOG_MARKER = '⏱';
+const TIME_LOG_HEADING = '## Time log';
+const MINUTES_PER_DAY = 8 * 60;
+
+/**
+ * Minutes in a duration like "1h 30m", "90m", "1.5h", "2d" or "45" (plain numbers are minutes).
+ * Other units, such as months, count for nothing.
+ */
+export function parseDuration(text: string | undefined): number {
+	if (!text) return 0;
+	const trimmed = text.trim();
+	if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+		return Math.round(parseFloat(trimmed));
+	}
+
+	let minutes = 0;
+	// Whole unit words only, so that "1mo" isn't read as minutes
+	const partRegex = /(\d+(?:\.\d+)?)\s*(d|days?|h|hrs?|hours?|m|mins?|minutes?)(?![a-z])/gi;
+	let part;
+	while ((part = partRegex.exec(trimmed)) !== null) {
+		const value = parseFloat(part[1]);
+		const unit = part[2][0].toLowerCase();
+		minutes += unit === 'd' ? value * MINUTES_PER_DAY : unit === 'h' ? value * 60 : value;
+	}
+	return Math.round(minutes);
+}
+
+/**
+ * Duration in minutes as "1h 30m", "45m" or "2h"
+ */
+export function formatDuration(minutes: number): string {
+	const hours = Math.floor(minutes / 60);
+	const rest = minutes % 60;
+	if (hours === 0) return `${rest}m`;
+	return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// ============ Estimates ============
+
+export interface Effort {
+	minutes: number;
+	points: number;
+}
+
+export interface EffortTotals {
+	estimate: Effort;
+	spent: number;                   // Minutes
+	remaining: Effort;
+}
+
+/**
+ * Parse an estimate as story points ("5pt", "3 pts", "8 points", "2sp") or a duration
+ */
+export function parseEstimate(text: string | undefined): Effort {
+	if (!text) return { minutes: 0, points: 0 };
+	const pointsMatch = text.trim().match(/^(\d+(?:\.\d+)?)\s*(?:pts?|points?|sp)$/i);
+	if (pointsMatch) {
+		return { minutes: 0, points: parseFloat(pointsMatch[1]) };
+	}
+	return { minutes: parseDuration(text), points: 0 };
+}
+
+/**
+ * Whether more time has been spent on a card than its (duration) estimate
+ */
+export function isOverEstimate(card: KanbanCard): boolean {
+	const estimate = parseEstimate(card.metadata.estimate);
+	return estimate.minutes > 0 && parseDuration(card.metadata.spent) > estimate.minutes;
+}
+
+/**
+ * Total estimate, spent and remaining effort of a set of cards.
+ * Completed cards have nothing remaining; open cards never go below zero.
+ */
+export function sumEffort(cards: KanbanCard[]): EffortTotals {
+	const totals: EffortTotals = {
+		estimate: { minutes: 0, points: 0 },
+		spent: 0,
+		remaining: { minutes: 0, points: 0 },
+	};
+
+	for (const card of cards) {
+		const estimate = parseEstimate(card.metadata.estimate);
+		const spent = parseDuration(card.metadata.spent);
+		totals.estimate.minutes += estimate.minutes;
+		totals.estimate.points += estimate.points;
+		totals.spent += spent;
+		if (!card.completed) {
+			totals.remaining.minutes += Math.max(0, estimate.minutes - spent);
+			totals.remaining.points += estimate.points;
+		}
+	}
+
+	return totals;
+}
+
+/**
+ * Whether any card in the totals had an estimate or logged time
+ */
+export function hasEffort(totals: EffortTotals): boolean {
+	return totals.estimate.minutes > 0 || totals.estimate.points > 0 || totals.spent > 0;
+}
+
+/**
+ * Effort as "4h 30m", "8pt" or "4h 30m + 8pt"
+ */
+export function formatEffort(effort: Effort): string {
+	const parts: string[] = [];
+	if (effort.minutes > 0) parts.push(formatDuration(effort.minutes));
+	if (effort.points > 0) parts.push(`${Math.round(effort.points * 10) / 10}pt`);
+	return parts.length > 0 ? parts.join(' + ') : '0m';
+}
+
+/**
+ * Totals as "3h / 8h · 5h left", with a multi-line tooltip spelling each one out
+ */
+export function describeEffort(totals: EffortTotals): { text: string; tooltip: string } {
+	const estimate = formatEffort(totals.estimate);
+	const spent = formatDuration(totals.spent);
+	const remaining = formatEffort(totals.remaining);
+	return {
+		text: `${spent} / ${estimate} · ${remaining} left`,
+		tooltip: `Estimate: ${estimate}\nSpent: ${spent}\nRemaining: ${remaining}`,
+	};
+}
+
+// ============ Timers ============
+
+/**
+ * Elapsed time as H:MM:SS, for the status bar
+ */
+export function formatElapsed(ms: number): string {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Record a time entry on a card: add it to [spent::] and log it in the card content
+ * (left to the caller for cards with a note, see appendTimeLog).
+ * Returns the logged minutes and the new spent total, or null for entries under a minute.
+ */
+export function addTimeEntry(card: KanbanCard, start: Date, end: Date): { minutes: number; spent: string; logLine: string } | null {
+	const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+	if (minutes < 1) return null;
+
+	const spent = formatDuration(parseDuration(card.metadata.spent) + minutes);
+	const logLine = `${TIME_LOG_MARKER} ${formatTimestamp(start)}–${formatEndTime(start, end)} (${formatDuration(minutes)})`;
+
+	setCardField(card, 'spent', spent);
+	if (!card.notePath) {
+		const line = `\t- ${logLine}`;
+		card.content = card.content && card.content.trim() !== '' ? `${card.content}\n${line}` : line;
+	}
+
+	return { minutes, spent, logLine };
+}
+
+/**
+ * Add a time entry's log line to a note, at the end of its ## Time log section
+ * (which is added at the end of the note when there is none)
+ */
+export function appendTimeLog(markdown: string, logLine: string): string {
+	const lines = markdown.split('\n');
+	const headingIndex = lines.findIndex(line => line.trim().toLowerCase() === TIME_LOG_HEADING.toLowerCase());
+	if (headingIndex === -1) {
+		const body = markdown.replace(/\s*$/, '');
+		return `${body ? `${body}\n\n` : ''}${TIME_LOG_HEADING}\n\n- ${logLine}\n`;
+	}
+
+	// After the last line of the section, before any blank lines that end it
+	let insertAt = headingIndex + 1;
+	for (let i = headingIndex + 1; i < lines.length && !/^#{1,2}\s/.test(lines[i]); i++) {
+		if (lines[i].trim() !== '') insertAt = i + 1;
+	}
+	lines.splice(insertAt, 0, `- ${logLine}`);
+	return lines.join('\n');
+}
+
+// 2024-01-15 09:00 in local time
+function formatTimestamp(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Only the time when the entry ends on the day it started
+function formatEndTime(start: Date, end: Date): string {
+	const timestamp = formatTimestamp(end);
+	return timestamp.slice(0, 10) === formatTimestamp(start).slice(0, 10) ? timestamp.slice(11) : timestamp;
+}
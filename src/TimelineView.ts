@@ -0,0 +1,420 @@
+/**
+ * Timeline view for Base Kanban
+ *
+ * Draws each dated card as a bar from its start date to its due date, grouped by lane
+ * or by project. A card with only one of the two dates is a one-day bar. Arrows run
+ * from each blocker to the cards it blocks. Dragging a bar moves the card in time, and
+ * dragging either end changes its start or due date.
+ */
+
+import { setIcon } from 'obsidian';
+import { KanbanBoard, KanbanCard, KanbanLane } from './types';
+import { formatISODate } from './parser';
+import { plainCardTitle } from './BoardExport';
+
+export type TimelineGrouping = 'lane' | 'project';
+export type TimelineScale = 'weeks' | 'months';
+
+/**
+ * What the timeline needs from the view that hosts it
+ */
+export interface TimelineHost {
+	getBoard(): KanbanBoard;
+	isCardVisible(card: KanbanCard, lane: KanbanLane): boolean;
+	getLaneColor(lane: KanbanLane): string;
+	getBlockers(card: KanbanCard): KanbanCard[];
+	openCard(card: KanbanCard): void;
+	setCardDates(card: KanbanCard, startDate: string | undefined, dueDate: string | undefined): void;
+}
+
+/**
+ * First and last day of a card's bar (YYYY-MM-DD, inclusive)
+ */
+export interface TimelineSpan {
+	start: string;
+	end: string;
+}
+
+export type TimelineDrag = 'move' | 'start' | 'end';
+
+interface CardRow {
+	type: 'card';
+	card: KanbanCard;
+	lane: KanbanLane;
+	span: TimelineSpan;
+}
+
+type TimelineRow = { type: 'group'; title: string; color?: string } | CardRow;
+
+const ROW_HEIGHT = 28;
+const SCALES: Record<TimelineScale, { days: number; dayWidth: number; label: string }> = {
+	weeks: { days: 42, dayWidth: 32, label: 'Weeks' },
+	months: { days: 91, dayWidth: 12, label: 'Months' },
+};
+const NO_PROJECT = 'No project';
+
+/**
+ * A card's bar, or null when it has neither a start nor a due date.
+ * A start date after the due date is read as a one-day bar on the due date.
+ */
+export function getCardSpan(card: KanbanCard): TimelineSpan | null {
+	const start = card.startDate || card.dueDate;
+	const end = card.dueDate || card.startDate;
+	if (!start || !end) return null;
+	return start <= end ? { start, end } : { start: end, end };
+}
+
+/**
+ * Shift a bar by whole days: both ends for a move, or one end for a resize.
+ * A resized end stops at the other end, so a bar is always at least one day long.
+ */
+export function shiftSpan(span: TimelineSpan, drag: TimelineDrag, days: number): TimelineSpan {
+	const start = drag === 'end' ? span.start : shiftDate(span.start, days);
+	const end = drag === 'start' ? span.end : shiftDate(span.end, days);
+	if (drag === 'start' && start > end) return { start: end, end };
+	if (drag === 'end' && end < start) return { start, end: start };
+	return { start, end };
+}
+
+/**
+ * The card's start and due dates after its bar was dragged to a span.
+ * Moving keeps the dates a card has; resizing an end sets that date.
+ */
+export function datesForSpan(card: KanbanCard, span: TimelineSpan, drag: TimelineDrag): { startDate?: string; dueDate?: string } {
+	return {
+		startDate: (card.startDate || drag === 'start') ? span.start : undefined,
+		dueDate: (card.dueDate || drag === 'end') ? span.end : undefined,
+	};
+}
+
+export class BoardTimeline {
+	grouping: TimelineGrouping = 'lane';
+	scale: TimelineScale = 'weeks';
+	private anchor: Date = defaultAnchor();
+	private host: TimelineHost;
+	private containerEl: HTMLElement | null = null;
+
+	constructor(host: TimelineHost) {
+		this.host = host;
+	}
+
+	render(containerEl: HTMLElement): void {
+		this.containerEl = containerEl.createDiv({ cls: 'kanban-timeline' });
+		this.draw();
+	}
+
+	private draw(): void {
+		if (!this.containerEl) return;
+		this.containerEl.empty();
+
+		const { days: dayCount, dayWidth } = SCALES[this.scale];
+		const days: Date[] = [];
+		for (let i = 0; i < dayCount; i++) {
+			days.push(addDays(this.anchor, i));
+		}
+		const { rows, undated } = this.collectRows();
+		this.renderToolbar(this.containerEl, days, undated);
+
+		const bodyEl = this.containerEl.createDiv({ cls: 'kanban-timeline-body' });
+		bodyEl.style.setProperty('--kanban-timeline-day-width', `${dayWidth}px`);
+		bodyEl.style.setProperty('--kanban-timeline-row-height', `${ROW_HEIGHT}px`);
+
+		if (rows.length === 0) {
+			bodyEl.createDiv({ cls: 'kanban-timeline-empty', text: 'No cards have a start or due date' });
+			return;
+		}
+
+		const labelsEl = bodyEl.createDiv({ cls: 'kanban-timeline-labels' });
+		labelsEl.createDiv({ cls: 'kanban-timeline-header-spacer' });
+
+		const chartEl = bodyEl.createDiv({ cls: 'kanban-timeline-chart' });
+		chartEl.style.width = `${dayCount * dayWidth}px`;
+		this.renderHeader(chartEl, days);
+
+		const rowsEl = chartEl.createDiv({ cls: 'kanban-timeline-rows' });
+		const today = formatISODate(new Date());
+		const todayOffset = diffDays(formatISODate(days[0]), today);
+		if (todayOffset >= 0 && todayOffset < dayCount) {
+			const todayEl = rowsEl.createDiv({ cls: 'kanban-timeline-today' });
+			todayEl.style.left = `${(todayOffset + 0.5) * dayWidth}px`;
+		}
+
+		for (const row of rows) {
+			if (row.type === 'group') {
+				const groupEl = labelsEl.createDiv({ cls: 'kanban-timeline-label is-group', text: row.title });
+				if (row.color) groupEl.style.setProperty('--kanban-lane-color', row.color);
+				rowsEl.createDiv({ cls: 'kanban-timeline-track is-group' });
+				continue;
+			}
+
+			const title = plainCardTitle(row.card.title);
+			const labelEl = labelsEl.createDiv({ cls: 'kanban-timeline-label', text: title });
+			labelEl.title = title;
+			labelEl.addEventListener('click', () => this.host.openCard(row.card));
+
+			const trackEl = rowsEl.createDiv({ cls: 'kanban-timeline-track' });
+			this.renderBar(trackEl, row.card, row.lane, row.span, days[0]);
+		}
+
+		this.renderArrows(rowsEl, rows, days[0]);
+	}
+
+	private renderToolbar(containerEl: HTMLElement, days: Date[], undated: number): void {
+		const toolbarEl = containerEl.createDiv({ cls: 'kanban-timeline-toolbar' });
+
+		const navEl = toolbarEl.createDiv({ cls: 'kanban-timeline-nav' });
+		const prevBtn = navEl.createDiv({ cls: 'kanban-timeline-btn', attr: { 'aria-label': 'Earlier' } });
+		setIcon(prevBtn, 'chevron-left');
+		prevBtn.addEventListener('click', () => this.step(-1));
+
+		const todayBtn = navEl.createDiv({ cls: 'kanban-timeline-btn', text: 'Today' });
+		todayBtn.addEventListener('click', () => {
+			this.anchor = defaultAnchor();
+			this.draw();
+		});
+
+		const nextBtn = navEl.createDiv({ cls: 'kanban-timeline-btn', attr: { 'aria-label': 'Later' } });
+		setIcon(nextBtn, 'chevron-right');
+		nextBtn.addEventListener('click', () => this.step(1));
+
+		const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+		toolbarEl.createDiv({ cls: 'kanban-timeline-title', text: `${format(days[0])} – ${format(days[days.length - 1])}` });
+
+		if (undated > 0) {
+			toolbarEl.createDiv({
+				cls: 'kanban-timeline-undated',
+				text: `${undated} card${undated === 1 ? '' : 's'} without dates`,
+			});
+		}
+
+		const optionsEl = toolbarEl.createDiv({ cls: 'kanban-timeline-options' });
+		for (const grouping of ['lane', 'project'] as TimelineGrouping[]) {
+			const groupBtn = optionsEl.createDiv({
+				cls: `kanban-timeline-btn${this.grouping === grouping ? ' is-active' : ''}`,
+				text: grouping === 'lane' ? 'By list' : 'By project',
+			});
+			groupBtn.addEventListener('click', () => {
+				this.grouping = grouping;
+				this.draw();
+			});
+		}
+		for (const scale of ['weeks', 'months'] as TimelineScale[]) {
+			const scaleBtn = optionsEl.createDiv({
+				cls: `kanban-timeline-btn${this.scale === scale ? ' is-active' : ''}`,
+				text: SCALES[scale].label,
+			});
+			scaleBtn.addEventListener('click', () => {
+				this.scale = scale;
+				this.draw();
+			});
+		}
+	}
+
+	private renderHeader(chartEl: HTMLElement, days: Date[]): void {
+		const headerEl = chartEl.createDiv({ cls: 'kanban-timeline-header' });
+		const today = formatISODate(new Date());
+
+		days.forEach((day, index) => {
+			const dayClasses = ['kanban-timeline-day'];
+			if (day.getDay() === 0 || day.getDay() === 6) dayClasses.push('is-weekend');
+			if (formatISODate(day) === today) dayClasses.push('is-today');
+
+			const dayEl = headerEl.createDiv({ cls: dayClasses.join(' ') });
+			if (index === 0 || day.getDate() === 1) {
+				dayEl.createDiv({ cls: 'kanban-timeline-month', text: day.toLocaleDateString(undefined, { month: 'short' }) });
+			}
+			// Months scale only numbers the start of each week
+			if (this.scale === 'weeks' || day.getDay() === 0) {
+				dayEl.createDiv({ cls: 'kanban-timeline-day-number', text: String(day.getDate()) });
+			}
+		});
+	}
+
+	private renderBar(trackEl: HTMLElement, card: KanbanCard, lane: KanbanLane, span: TimelineSpan, firstDay: Date): void {
+		const { days: dayCount, dayWidth } = SCALES[this.scale];
+		const first = formatISODate(firstDay);
+		const startOffset = diffDays(first, span.start);
+		const endOffset = diffDays(first, span.end) + 1;
+		if (endOffset <= 0 || startOffset >= dayCount) return;
+
+		const left = Math.max(startOffset, 0);
+		const right = Math.min(endOffset, dayCount);
+		const barClasses = ['kanban-timeline-bar'];
+		if (card.completed) barClasses.push('is-completed');
+		if (!card.startDate || !card.dueDate) barClasses.push('is-single-date');
+		if (startOffset < 0) barClasses.push('is-clipped-start');
+		if (endOffset > dayCount) barClasses.push('is-clipped-end');
+
+		const barEl = trackEl.createDiv({ cls: barClasses.join(' '), attr: { 'data-card-id': card.id } });
+		barEl.style.left = `${left * dayWidth}px`;
+		barEl.style.width = `${(right - left) * dayWidth}px`;
+		barEl.style.setProperty('--kanban-lane-color', this.host.getLaneColor(lane));
+		barEl.title = [
+			plainCardTitle(card.title),
+			lane.title,
+			span.start === span.end ? span.start : `${span.start} → ${span.end}`,
+		].join('\n');
+		barEl.createSpan({ cls: 'kanban-timeline-bar-title', text: plainCardTitle(card.title) });
+
+		barEl.addEventListener('mousedown', (event: MouseEvent) => this.startDrag(event, barEl, card, span, 'move'));
+		if (startOffset >= 0) {
+			const startHandle = barEl.createDiv({ cls: 'kanban-timeline-handle is-start' });
+			startHandle.addEventListener('mousedown', (event: MouseEvent) => this.startDrag(event, barEl, card, span, 'start'));
+		}
+		if (endOffset <= dayCount) {
+			const endHandle = barEl.createDiv({ cls: 'kanban-timeline-handle is-end' });
+			endHandle.addEventListener('mousedown', (event: MouseEvent) => this.startDrag(event, barEl, card, span, 'end'));
+		}
+	}
+
+	// Follow the mouse in whole days, and write the dates once it is released.
+	// A press that never leaves its day is a click and opens the card.
+	private startDrag(event: MouseEvent, barEl: HTMLElement, card: KanbanCard, span: TimelineSpan, drag: TimelineDrag): void {
+		if (event.button !== 0) return;
+		event.preventDefault();
+		event.stopPropagation();
+
+		const { dayWidth } = SCALES[this.scale];
+		const startX = event.clientX;
+		const baseLeft = barEl.offsetLeft;
+		const baseWidth = barEl.offsetWidth;
+		let days = 0;
+
+		const onMove = (moveEvent: MouseEvent) => {
+			days = Math.round((moveEvent.clientX - startX) / dayWidth);
+			const shifted = shiftSpan(span, drag, days);
+			const startDelta = diffDays(span.start, shifted.start) * dayWidth;
+			const endDelta = diffDays(span.end, shifted.end) * dayWidth;
+			barEl.style.left = `${baseLeft + startDelta}px`;
+			barEl.style.width = `${baseWidth + endDelta - startDelta}px`;
+			barEl.toggleClass('is-dragging', days !== 0);
+		};
+
+		const onUp = () => {
+			document.removeEventListener('mousemove', onMove);
+			document.removeEventListener('mouseup', onUp);
+			barEl.removeClass('is-dragging');
+
+			if (days === 0) {
+				if (drag === 'move') this.host.openCard(card);
+				return;
+			}
+			const dates = datesForSpan(card, shiftSpan(span, drag, days), drag);
+			if (dates.startDate !== card.startDate || dates.dueDate !== card.dueDate) {
+				this.host.setCardDates(card, dates.startDate, dates.dueDate);
+			}
+		};
+
+		document.addEventListener('mousemove', onMove);
+		document.addEventListener('mouseup', onUp);
+	}
+
+	// Arrows from the end of each blocker's bar to the start of the card it blocks
+	private renderArrows(rowsEl: HTMLElement, rows: TimelineRow[], firstDay: Date): void {
+		const { days: dayCount, dayWidth } = SCALES[this.scale];
+		const first = formatISODate(firstDay);
+		const width = dayCount * dayWidth;
+		const clampX = (x: number) => Math.min(Math.max(x, 0), width);
+
+		const rowIndex = new Map<KanbanCard, number>();
+		rows.forEach((row, index) => {
+			if (row.type === 'card') rowIndex.set(row.card, index);
+		});
+
+		const svgEl = rowsEl.createSvg('svg', {
+			cls: 'kanban-timeline-arrows',
+			attr: { width, height: rows.length * ROW_HEIGHT },
+		});
+
+		rows.forEach((row, index) => {
+			if (row.type !== 'card') return;
+			for (const blocker of this.host.getBlockers(row.card)) {
+				const blockerIndex = rowIndex.get(blocker);
+				if (blockerIndex === undefined) continue;
+				const blockerRow = rows[blockerIndex] as CardRow;
+
+				const x1 = clampX((diffDays(first, blockerRow.span.end) + 1) * dayWidth);
+				const x2 = clampX(diffDays(first, row.span.start) * dayWidth);
+				const y1 = blockerIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+				const y2 = index * ROW_HEIGHT + ROW_HEIGHT / 2;
+				// Blocked work planned to start before its blocker ends
+				const late = row.span.start <= blockerRow.span.end && !blocker.completed;
+
+				svgEl.createSvg('path', {
+					cls: `kanban-timeline-arrow${late ? ' is-late' : ''}`,
+					attr: { d: `M ${x1} ${y1} H ${x1 + 6} V ${y2} H ${x2} M ${x2 - 5} ${y2 - 4} L ${x2} ${y2} L ${x2 - 5} ${y2 + 4}` },
+				});
+			}
+		});
+	}
+
+	// Visible dated cards in groups, each sorted by start date; and how many cards have no dates
+	private collectRows(): { rows: TimelineRow[]; undated: number } {
+		const groups = new Map<string, { color?: string; rows: CardRow[] }>();
+		let undated = 0;
+
+		for (const lane of this.host.getBoard().lanes) {
+			if (this.grouping === 'lane') {
+				groups.set(lane.id, { color: this.host.getLaneColor(lane), rows: [] });
+			}
+			for (const card of lane.cards) {
+				if (!this.host.isCardVisible(card, lane)) continue;
+				const span = getCardSpan(card);
+				if (!span) {
+					undated++;
+					continue;
+				}
+
+				const key = this.grouping === 'lane' ? lane.id : String(card.metadata.project || NO_PROJECT);
+				if (!groups.has(key)) groups.set(key, { rows: [] });
+				groups.get(key)!.rows.push({ type: 'card', card, lane, span });
+			}
+		}
+
+		const keys = Array.from(groups.keys());
+		if (this.grouping === 'project') {
+			keys.sort((a, b) => a === NO_PROJECT ? 1 : b === NO_PROJECT ? -1 : a.localeCompare(b));
+		}
+
+		const rows: TimelineRow[] = [];
+		for (const key of keys) {
+			const group = groups.get(key)!;
+			if (group.rows.length === 0) continue;
+			const title = this.grouping === 'lane'
+				? this.host.getBoard().lanes.find(lane => lane.id === key)!.title
+				: key;
+			rows.push({ type: 'group', title, color: group.color });
+			rows.push(...group.rows.sort((a, b) =>
+				a.span.start.localeCompare(b.span.start) || a.span.end.localeCompare(b.span.end)));
+		}
+		return { rows, undated };
+	}
+
+	private step(direction: number): void {
+		const { days } = SCALES[this.scale];
+		// Move by half the visible range, in whole weeks
+		this.anchor = addDays(this.anchor, direction * Math.round(days / 14) * 7);
+		this.draw();
+	}
+}
+
+// The week before this one, so recent work stays in view
+function defaultAnchor(): Date {
+	const today = new Date();
+	return new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - 7);
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function shiftDate(date: string, days: number): string {
+	return formatISODate(addDays(new Date(`${date}T00:00:00`), days));
+}
+
+// Whole days from one YYYY-MM-DD date to another
+function diffDays(from: string, to: string): number {
+	const fromDate = new Date(`${from}T00:00:00`);
+	const toDate = new Date(`${to}T00:00:00`);
+	return Math.round((toDate.getTime() - fromDate.getTime()) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,303 @@
+/**
+ * Trello import for Base Kanban
+ *
+ * Converts a Trello board JSON export (Board menu → Print, export and share → Export as JSON)
+ * into a KanbanBoard that can be written with serializeKanbanBoard.
+ *
+ * Mapping:
+ * - Lists → lanes (archived lists go to the board archive)
+ * - Cards → cards (archived cards go to the board archive)
+ * - Checklists → subtasks (item due dates and members are kept)
+ * - Labels → tags
+ * - Due dates → dueDate / dueTime
+ * - Descriptions → card content
+ * - Members → [assignee::...]
+ *
+ * Anything that has no place in the board format is listed in the import report.
+ */
+
+import { KanbanBoard, KanbanCard, KanbanLane, Subtask } from './types';
+import { BASIC_FRONTMATTER, generateId, serializeSubtask } from './parser';
+
+// Subset of the Trello export format that we read
+interface TrelloLabel {
+	id: string;
+	name?: string;
+	color?: string | null;
+}
+
+interface TrelloList {
+	id: string;
+	name: string;
+	closed?: boolean;
+	pos?: number;
+}
+
+interface TrelloCard {
+	id: string;
+	name: string;
+	desc?: string;
+	idList: string;
+	closed?: boolean;
+	pos?: number;
+	due?: string | null;
+	dueComplete?: boolean;
+	start?: string | null;
+	labels?: TrelloLabel[];
+	idMembers?: string[];
+	attachments?: unknown[];
+	customFieldItems?: unknown[];
+}
+
+interface TrelloCheckItem {
+	name: string;
+	state: 'complete' | 'incomplete';
+	pos?: number;
+	due?: string | null;
+	idMember?: string | null;
+}
+
+interface TrelloChecklist {
+	id: string;
+	idCard: string;
+	name: string;
+	pos?: number;
+	checkItems?: TrelloCheckItem[];
+}
+
+interface TrelloMember {
+	id: string;
+	username?: string;
+	fullName?: string;
+}
+
+interface TrelloAction {
+	type: string;
+	data?: { card?: { id: string } };
+}
+
+export interface TrelloExport {
+	name?: string;
+	lists?: TrelloList[];
+	cards?: TrelloCard[];
+	checklists?: TrelloChecklist[];
+	members?: TrelloMember[];
+	actions?: TrelloAction[];
+	customFields?: unknown[];
+}
+
+// Result of converting a Trello export
+export interface TrelloImportResult {
+	title: string;
+	board: KanbanBoard;
+	unmapped: string[];     // Human-readable notes about data that was not imported
+}
+
+/**
+ * Check whether parsed JSON looks like a Trello board export
+ */
+export function isTrelloExport(data: unknown): data is TrelloExport {
+	return !!data && typeof data === 'object' &&
+		Array.isArray((data as TrelloExport).lists) &&
+		Array.isArray((data as TrelloExport).cards);
+}
+
+/**
+ * Convert a Trello board export into a Kanban board
+ */
+export function trelloToKanbanBoard(data: TrelloExport): TrelloImportResult {
+	const unmapped: string[] = [];
+	const byPos = (a: { pos?: number }, b: { pos?: number }) => (a.pos ?? 0) - (b.pos ?? 0);
+
+	const members = new Map<string, string>();
+	for (const member of data.members || []) {
+		members.set(member.id, member.username || member.fullName || member.id);
+	}
+
+	const checklistsByCard = new Map<string, TrelloChecklist[]>();
+	for (const checklist of data.checklists || []) {
+		const list = checklistsByCard.get(checklist.idCard) || [];
+		list.push(checklist);
+		checklistsByCard.set(checklist.idCard, list);
+	}
+
+	const commentsByCard = new Map<string, number>();
+	for (const action of data.actions || []) {
+		const cardId = action.data?.card?.id;
+		if (action.type === 'commentCard' && cardId) {
+			commentsByCard.set(cardId, (commentsByCard.get(cardId) || 0) + 1);
+		}
+	}
+
+	const lists = [...(data.lists || [])].sort(byPos);
+	const lanes: KanbanLane[] = [];
+	const lanesByListId = new Map<string, KanbanLane>();
+	const closedListIds = new Set<string>();
+
+	for (const list of lists) {
+		if (list.closed) {
+			closedListIds.add(list.id);
+			unmapped.push(`Archived list "${list.name}": its cards were moved to the board archive`);
+			continue;
+		}
+		const lane: KanbanLane = { id: generateId(), title: cleanText(list.name), cards: [] };
+		lanes.push(lane);
+		lanesByListId.set(list.id, lane);
+	}
+
+	const archive: KanbanCard[] = [];
+
+	for (const trelloCard of [...(data.cards || [])].sort(byPos)) {
+		const card = trelloCardToKanbanCard(
+			trelloCard,
+			(checklistsByCard.get(trelloCard.id) || []).sort(byPos),
+			members,
+			unmapped
+		);
+
+		const comments = commentsByCard.get(trelloCard.id);
+		if (comments) {
+			unmapped.push(`"${trelloCard.name}": ${comments} comment${comments === 1 ? '' : 's'} not imported`);
+		}
+
+		const lane = lanesByListId.get(trelloCard.idList);
+		if (trelloCard.closed || closedListIds.has(trelloCard.idList) || !lane) {
+			if (!lane && !closedListIds.has(trelloCard.idList)) {
+				unmapped.push(`"${trelloCard.name}": list not found in export, card was archived`);
+			}
+			archive.push(card);
+		} else {
+			lane.cards.push(card);
+		}
+	}
+
+	if (data.customFields && data.customFields.length > 0) {
+		unmapped.push(`${data.customFields.length} custom field definition${data.customFields.length === 1 ? '' : 's'} not imported`);
+	}
+
+	const title = cleanFileName(data.name || 'Trello Board');
+
+	return {
+		title,
+		board: {
+			lanes,
+			archive,
+			settings: {},
+			_frontmatter: BASIC_FRONTMATTER,
+		},
+		unmapped,
+	};
+}
+
+// Convert a single Trello card, collecting anything that could not be mapped
+function trelloCardToKanbanCard(
+	trelloCard: TrelloCard,
+	checklists: TrelloChecklist[],
+	members: Map<string, string>,
+	unmapped: string[]
+): KanbanCard {
+	const name = cleanText(trelloCard.name) || 'Untitled card';
+
+	// Labels become tags (kept in the title, like cards typed by hand)
+	const tags: string[] = [];
+	for (const label of trelloCard.labels || []) {
+		const tag = label.name ? toTag(label.name) : '';
+		if (tag) {
+			if (!tags.includes(tag)) tags.push(tag);
+		} else if (label.name) {
+			unmapped.push(`"${name}": label "${label.name}" cannot be written as a tag`);
+		} else {
+			unmapped.push(`"${name}": unnamed ${label.color || ''} label not imported`.replace(/\s+/g, ' '));
+		}
+	}
+
+	const card: KanbanCard = {
+		id: generateId(),
+		title: [name, ...tags.map(tag => `#${tag}`)].join(' '),
+		completed: !!trelloCard.dueComplete,
+		tags,
+		metadata: {},
+	};
+
+	if (trelloCard.due) {
+		const due = toLocalDateTime(trelloCard.due);
+		if (due) {
+			card.dueDate = due.date;
+			card.dueTime = due.time;
+		} else {
+			unmapped.push(`"${name}": could not read due date "${trelloCard.due}"`);
+		}
+	}
+
+	if (trelloCard.start) {
+		unmapped.push(`"${name}": start date ${trelloCard.start} not imported`);
+	}
+
+	const assignees = (trelloCard.idMembers || []).map(id => members.get(id) || id);
+	if (assignees.length > 0) {
+		card.metadata.assignee = assignees.join(', ');
+	}
+
+	// Checklists become subtasks; multiple checklists are flattened into one list
+	const subtasks: Subtask[] = [];
+	for (const checklist of checklists) {
+		for (const item of [...(checklist.checkItems || [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))) {
+			const subtask: Subtask = {
+				id: generateId(),
+				text: cleanText(item.name),
+				completed: item.state === 'complete',
+			};
+			const itemDue = item.due ? toLocalDateTime(item.due) : null;
+			if (itemDue) subtask.dueDate = itemDue.date;
+			if (item.idMember) subtask.assignee = members.get(item.idMember) || item.idMember;
+			subtasks.push(subtask);
+		}
+	}
+	if (checklists.length > 1) {
+		unmapped.push(`"${name}": checklists ${checklists.map(c => `"${c.name}"`).join(', ')} were merged into one subtask list`);
+	}
+
+	// Content holds subtasks first, then the description
+	const contentLines = subtasks.map(subtask => `\t${serializeSubtask(subtask)}`);
+	if (trelloCard.desc && trelloCard.desc.trim()) {
+		contentLines.push(...trelloCard.desc.trim().split('\n').map(line => line.trim() ? `\t${line}` : ''));
+	}
+	if (subtasks.length > 0) card.subtasks = subtasks;
+	if (contentLines.length > 0) card.content = contentLines.join('\n');
+
+	const attachments = trelloCard.attachments?.length || 0;
+	if (attachments > 0) {
+		unmapped.push(`"${name}": ${attachments} attachment${attachments === 1 ? '' : 's'} not imported`);
+	}
+	if (trelloCard.customFieldItems && trelloCard.customFieldItems.length > 0) {
+		unmapped.push(`"${name}": custom field values not imported`);
+	}
+
+	return card;
+}
+
+// Convert a Trello ISO timestamp to a local date and time (time omitted at midnight)
+function toLocalDateTime(value: string): { date: string; time?: string } | null {
+	const date = new Date(value);
+	if (isNaN(date.getTime())) return null;
+
+	const pad = (n: number) => String(n).padStart(2, '0');
+	const isoDate = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+	const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+	return { date: isoDate, time: hasTime ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : undefined };
+}
+
+// Turn a label name into a tag (#tags cannot contain spaces)
+function toTag(name: string): string {
+	return name.trim().replace(/\s+/g, '-').replace(/[^\w\-/]/g, '');
+}
+
+// Single-line text without characters that would break the card line
+function cleanText(text: string): string {
+	return text.replace(/\s*\n\s*/g, ' ').replace(/\s\^(?=[\w-]+\s*$)/, ' ').trim();
+}
+
+// Strip characters that are not allowed in file names
+function cleanFileName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Trello Board';
+}
@@ -8,6 +8,9 @@ import {
 	ViewState,
 	WorkspaceLeaf,
 	FuzzySuggestModal,
+	Modal,
+	Setting,
+	normalizePath,
 } from 'obsidian';
 
 import { KanbanView } from './KanbanView';
@@ -18,8 +21,10 @@ import {
 	KANBAN_VIEW_TYPE, 
 	FRONTMATTER_KEY,
 	KanbanCard,
+	KanbanBoard,
+	DEFAULT_BASE_SYNC_CONFIG,
 } from './types';
-import { BASIC_FRONTMATTER, hasFrontmatterKey, parseKanbanBoard, serializeKanbanBoard } from './parser';
+import { BASIC_FRONTMATTER, hasFrontmatterKey, parseKanbanBoard, serializeKanbanBoard, SerializeOptions } from './parser';
 import {
 	queryGptTasks,
 	createBoardFromGptTasks,
@@ -31,6 +36,16 @@ import {
 	GptTask,
 	GptTaskMetadata,
 } from './GptTaskManagerIntegration';
+import { isTrelloExport, trelloToKanbanBoard } from './TrelloImport';
+import { boardFromJson } from './BoardExport';
+import { boardsToIcs, IcsBoardSource } from './IcsExport';
+import { migrateLegacyBoard, MigrationResult } from './LegacyMigration';
+import { addTimeEntry, appendTimeLog, formatDuration, formatElapsed } from './TimeTracking';
+import { BaseSyncService } from './BaseSync';
+import { CardReferenceResolver } from './Dependencies';
+import { replaceFileLinks } from './AssociatedFiles';
+import { plainCardTitle } from './BoardExport';
+import { AGGREGATE_BOARD_TYPE, isAggregateBoard, readFrontmatter } from './AggregateBoard';
 
 /**
  * Public API for external plugin integration (e.g., GPT Task Manager)
@@ -89,6 +104,12 @@ export default class KanbanPlugin extends Plugin {
 	// Track view modes for files (kanban vs markdown)
 	kanbanFileModes: Record<string, string> = {};
 
+	// Time tracking
+	private timerStatusBarEl: HTMLElement | null = null;
+
+	// Card dependencies across boards
+	cardReferences: CardReferenceResolver;
+
 	// Reminder system
 	private reminderIntervalId: number | null = null;
 	private notifiedCards: Set<string> = new Set(); // Track cards already notified
@@ -105,6 +126,9 @@ export default class KanbanPlugin extends Plugin {
 		// Initialize public API
 		this.initializePublicAPI();
 
+		// Boards referenced by card dependencies are re-rendered once the other board loads
+		this.cardReferences = new CardReferenceResolver(this.app, () => this.getBoardOptions(), (path) => this.refreshKanbanViews(path));
+
 		// Register the kanban view
 		this.registerView(KANBAN_VIEW_TYPE, (leaf) => new KanbanView(leaf, this));
 
@@ -140,6 +164,13 @@ export default class KanbanPlugin extends Plugin {
 			this.startReminderCheck();
 		}
 
+		// Status bar item for the running timer
+		this.timerStatusBarEl = this.addStatusBarItem();
+		this.timerStatusBarEl.addClass('kanban-timer-status');
+		this.timerStatusBarEl.addEventListener('click', () => this.stopTimer());
+		this.updateTimerStatus();
+		this.registerInterval(window.setInterval(() => this.updateTimerStatus(), 1000));
+
 		// Handle file renames to keep kanbanFileModes in sync
 		this.registerEvent(
 			this.app.vault.on('rename', (file, oldPath) => {
@@ -147,6 +178,21 @@ export default class KanbanPlugin extends Plugin {
 					this.kanbanFileModes[file.path] = this.kanbanFileModes[oldPath];
 					delete this.kanbanFileModes[oldPath];
 				}
+				const timer = this.settings['active-timer'];
+				if (timer && timer.boardPath === oldPath) {
+					timer.boardPath = file.path;
+					this.saveSettings();
+				}
+				const lastFilters = this.settings['last-filters'];
+				if (lastFilters[oldPath]) {
+					lastFilters[file.path] = lastFilters[oldPath];
+					delete lastFilters[oldPath];
+					this.saveSettings();
+				}
+				this.cardReferences.invalidate(oldPath);
+				if (file instanceof TFile) {
+					this.updateAssociatedFileLinks(oldPath, file);
+				}
 			})
 		);
 
@@ -156,6 +202,27 @@ export default class KanbanPlugin extends Plugin {
 				if (this.kanbanFileModes[file.path]) {
 					delete this.kanbanFileModes[file.path];
 				}
+				if (this.settings['last-filters'][file.path]) {
+					delete this.settings['last-filters'][file.path];
+					this.saveSettings();
+				}
+				this.cardReferences.invalidate(file.path);
+				if (file instanceof TFile) {
+					this.updateAssociatedFileLinks(file.path, null);
+				}
+			})
+		);
+
+		// Boards that depend on cards of a changed board show their new blocked state,
+		// and aggregate boards collect its cards again
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (this.cardReferences.invalidate(file.path)) {
+					this.refreshKanbanViews(file.path);
+				}
+				if (file instanceof TFile && this.isKanbanBoard(file)) {
+					this.refreshAggregateViews();
+				}
 			})
 		);
 	}
@@ -176,6 +243,18 @@ export default class KanbanPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Plugin-wide defaults for reading and writing boards (board settings override them)
+	 */
+	getBoardOptions(): SerializeOptions {
+		return {
+			dateLocale: this.settings['date-locale'],
+			dateFormat: this.settings['date-format'],
+			dateInputFormats: this.settings['date-input-formats'],
+			dateSerializationFormat: this.settings['date-serialization-format'],
+		};
+	}
+
 	/**
 	 * Initialize the public API for external plugin integration
 	 */
@@ -370,6 +449,18 @@ export default class KanbanPlugin extends Plugin {
 			},
 		});
 
+		// Validate board
+		this.addCommand({
+			id: 'validate-board',
+			name: 'Validate board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.validateBoard();
+			},
+		});
+
 		// Create or open card note
 		this.addCommand({
 			id: 'create-or-open-card-note',
@@ -382,6 +473,63 @@ export default class KanbanPlugin extends Plugin {
 			},
 		});
 
+		// Moving between boards
+		this.addCommand({
+			id: 'move-card-to-board',
+			name: 'Move focused card to another board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.moveFocusedCardToBoard();
+			},
+		});
+
+		this.addCommand({
+			id: 'move-lane-to-board',
+			name: 'Move list to another board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.pickLaneToMoveToBoard();
+			},
+		});
+
+		// Filter presets
+		this.addCommand({
+			id: 'switch-filter-preset',
+			name: 'Switch filter preset',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.pickFilterPreset();
+			},
+		});
+
+		// Time tracking
+		this.addCommand({
+			id: 'toggle-card-timer',
+			name: 'Start or stop timer for focused card',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.toggleFocusedCardTimer();
+			},
+		});
+
+		this.addCommand({
+			id: 'stop-timer',
+			name: 'Stop running timer',
+			checkCallback: (checking) => {
+				if (!this.settings['active-timer']) return false;
+				if (checking) return true;
+				this.stopTimer();
+			},
+		});
+
 		// Manual sync with Base
 		this.addCommand({
 			id: 'sync-with-base',
@@ -404,6 +552,97 @@ export default class KanbanPlugin extends Plugin {
 			},
 		});
 
+		// Migrate a board written by the original obsidian-kanban plugin
+		this.addCommand({
+			id: 'migrate-legacy-board',
+			name: 'Migrate board from obsidian-kanban format',
+			checkCallback: (checking) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) return false;
+
+				const fileCache = this.app.metadataCache.getFileCache(activeFile);
+				if (!fileCache?.frontmatter?.[FRONTMATTER_KEY]) return false;
+				if (checking) return true;
+
+				this.migrateLegacyBoard(activeFile);
+			},
+		});
+
+		// Export the active board
+		this.addCommand({
+			id: 'export-board-csv',
+			name: 'Export board to CSV',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.exportBoard('csv');
+			},
+		});
+
+		this.addCommand({
+			id: 'export-board-json',
+			name: 'Export board to JSON',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.exportBoard('json');
+			},
+		});
+
+		// Export due dates to iCalendar
+		this.addCommand({
+			id: 'export-board-ics',
+			name: 'Export board to iCalendar (.ics)',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(KanbanView);
+				if (!view) return false;
+				if (checking) return true;
+				view.exportIcs();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-all-boards-ics',
+			name: 'Export all boards to iCalendar (.ics)',
+			callback: () => this.exportAllBoardsToIcs(),
+		});
+
+		// Import a board exported as JSON
+		this.addCommand({
+			id: 'import-board-json',
+			name: 'Import board from JSON',
+			callback: () => {
+				const jsonFiles = this.app.vault.getFiles().filter(file => file.extension === 'json');
+				if (jsonFiles.length === 0) {
+					new Notice('No JSON files found in the vault');
+					return;
+				}
+
+				new JsonFileSelectorModal(this.app, jsonFiles, 'Select a board JSON export...', async (file) => {
+					await this.importJsonBoard(file);
+				}).open();
+			},
+		});
+
+		// Import a Trello board export
+		this.addCommand({
+			id: 'import-trello-json',
+			name: 'Import from Trello JSON',
+			callback: () => {
+				const jsonFiles = this.app.vault.getFiles().filter(file => file.extension === 'json');
+				if (jsonFiles.length === 0) {
+					new Notice('No JSON files found in the vault. Add the Trello export to your vault first.');
+					return;
+				}
+
+				new JsonFileSelectorModal(this.app, jsonFiles, 'Select a Trello JSON export...', async (file) => {
+					await this.importTrelloBoard(file);
+				}).open();
+			},
+		});
+
 		// ========== GPT Task Manager Integration Commands ==========
 
 		// Create Kanban board from GPT Task Manager Epic
@@ -730,6 +969,245 @@ export default class KanbanPlugin extends Plugin {
 		new Notice(`Created Kanban board with ${tasks.length} active tasks`);
 	}
 
+	/**
+	 * Preview and apply the rewrite of a legacy obsidian-kanban board
+	 */
+	async migrateLegacyBoard(file: TFile): Promise<void> {
+		const content = await this.app.vault.read(file);
+		const result = migrateLegacyBoard(content);
+
+		if (result.changes.length === 0) {
+			new Notice('This board has no legacy syntax to migrate');
+			return;
+		}
+
+		new MigrationPreviewModal(this.app, file.basename, result, async () => {
+			// Don't overwrite edits made while the preview was open
+			const current = await this.app.vault.read(file);
+			if (current !== content) {
+				new Notice('The board changed while previewing. Run the migration again.');
+				return;
+			}
+
+			await this.app.vault.modify(file, result.markdown);
+			new Notice(`Migrated ${file.basename}: ${result.changes.length} change${result.changes.length === 1 ? '' : 's'}`);
+		}).open();
+	}
+
+	/**
+	 * Export every kanban board in the vault to a single .ics file
+	 */
+	async exportAllBoardsToIcs(): Promise<void> {
+		const kanbanFiles = this.getKanbanFiles();
+
+		const sources: IcsBoardSource[] = [];
+		for (const file of kanbanFiles) {
+			try {
+				const content = await this.app.vault.read(file);
+				const board = parseKanbanBoard(content, this.getBoardOptions());
+				sources.push({ name: file.basename, board, dateLocale: board.settings['date-locale'] || this.settings['date-locale'] });
+			} catch (error) {
+				console.warn(`Skipping ${file.path} in calendar export:`, error);
+			}
+		}
+
+		await this.writeIcsExport(sources, this.settings['ics-export-path'] || DEFAULT_SETTINGS['ics-export-path']);
+	}
+
+	/**
+	 * Write boards to an .ics file, replacing an earlier export at the same path
+	 */
+	async writeIcsExport(sources: IcsBoardSource[], path: string): Promise<void> {
+		const filePath = normalizePath(path.endsWith('.ics') ? path : `${path}.ics`);
+		const content = boardsToIcs(sources, this.settings['ics-component'], this.settings.holidays);
+
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(filePath);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+			} else {
+				await this.app.vault.create(filePath, content);
+			}
+			const count = (content.match(/^BEGIN:(VEVENT|VTODO)/gm) || []).length;
+			new Notice(`Exported ${count} dated card${count === 1 ? '' : 's'} to ${filePath}`);
+		} catch (error) {
+			console.error('Error writing calendar export:', error);
+			new Notice(`Failed to write ${filePath}`);
+		}
+	}
+
+	// ============ Time Tracking ============
+
+	/**
+	 * Start a timer on a card, stopping any timer that is already running
+	 */
+	async startTimer(boardPath: string, card: KanbanCard): Promise<void> {
+		if (this.settings['active-timer']) {
+			await this.stopTimer();
+		}
+
+		this.settings['active-timer'] = {
+			boardPath,
+			cardId: card.id,
+			cardTitle: plainCardTitle(card.title) || card.title,
+			startedAt: Date.now(),
+		};
+		await this.saveSettings();
+		this.updateTimerStatus();
+		this.refreshKanbanViews();
+	}
+
+	/**
+	 * Stop the running timer and record the time on its card
+	 */
+	async stopTimer(): Promise<void> {
+		const timer = this.settings['active-timer'];
+		if (!timer) return;
+
+		this.settings['active-timer'] = null;
+		await this.saveSettings();
+		this.updateTimerStatus();
+
+		const start = new Date(timer.startedAt);
+		const end = new Date();
+		const view = this.findKanbanView(timer.boardPath);
+		let board: KanbanBoard;
+		let file: TFile | null = null;
+		if (view) {
+			board = view.board;
+		} else {
+			const abstractFile = this.app.vault.getAbstractFileByPath(timer.boardPath);
+			if (!(abstractFile instanceof TFile)) {
+				new Notice(`Timer stopped, but board ${timer.boardPath} no longer exists`);
+				return;
+			}
+			file = abstractFile;
+			board = parseKanbanBoard(await this.app.vault.read(file), this.getBoardOptions());
+		}
+
+		const cards = board.lanes.reduce<KanbanCard[]>((all, lane) => all.concat(lane.cards), []).concat(board.archive);
+		const card = cards.find(c => c.id === timer.cardId);
+		if (!card) {
+			new Notice(`Timer stopped, but "${timer.cardTitle}" is no longer on the board`);
+			this.refreshKanbanViews();
+			return;
+		}
+
+		const entry = addTimeEntry(card, start, end);
+		if (!entry) {
+			new Notice('Timer stopped after less than a minute; nothing was logged');
+			this.refreshKanbanViews();
+			return;
+		}
+
+		if (view) {
+			view.requestSave();
+		} else if (file) {
+			await this.app.vault.modify(file, serializeKanbanBoard(board, this.getBoardOptions()));
+		}
+
+		// A card's content isn't written while it has a note, so the log goes in the note
+		const note = card.notePath ? this.app.vault.getAbstractFileByPath(card.notePath) : null;
+		if (note instanceof TFile) {
+			await this.app.vault.modify(note, appendTimeLog(await this.app.vault.read(note), entry.logLine));
+		}
+		this.refreshKanbanViews();
+		new Notice(`Logged ${formatDuration(entry.minutes)} on "${timer.cardTitle}"`);
+
+		// Push the new total to the linked Base task
+		const syncConfig = board.settings['base-sync']
+			? { ...DEFAULT_BASE_SYNC_CONFIG, ...board.settings['base-sync'] }
+			: { ...DEFAULT_BASE_SYNC_CONFIG, ...this.settings['base-sync'] };
+		if (syncConfig.enabled && card.baseTaskPath) {
+			await new BaseSyncService(this.app, syncConfig).syncSpent(card, entry.spent, entry.logLine);
+		}
+	}
+
+	private updateTimerStatus(): void {
+		if (!this.timerStatusBarEl) return;
+		const timer = this.settings['active-timer'];
+		if (!timer) {
+			this.timerStatusBarEl.hide();
+			return;
+		}
+		this.timerStatusBarEl.show();
+		this.timerStatusBarEl.setText(`⏱ ${formatElapsed(Date.now() - timer.startedAt)} ${timer.cardTitle}`);
+		this.timerStatusBarEl.title = 'Click to stop the timer';
+	}
+
+	private findKanbanView(path: string): KanbanView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType(KANBAN_VIEW_TYPE)) {
+			if (leaf.view instanceof KanbanView && leaf.view.file?.path === path) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+
+	// Collect the cards of open aggregate boards again
+	private refreshAggregateViews(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(KANBAN_VIEW_TYPE)) {
+			if (leaf.view instanceof KanbanView) {
+				leaf.view.refreshAggregate();
+			}
+		}
+	}
+
+	// Re-render open boards, except the one at exceptPath (it is already up to date)
+	private refreshKanbanViews(exceptPath?: string): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(KANBAN_VIEW_TYPE)) {
+			if (leaf.view instanceof KanbanView && leaf.view.file?.path !== exceptPath) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
+	/**
+	 * Create a Kanban board from a JSON file written by "Export board to JSON"
+	 */
+	async importJsonBoard(file: TFile): Promise<void> {
+		let board: import('./types').KanbanBoard;
+		try {
+			board = boardFromJson(JSON.parse(await this.app.vault.read(file)));
+		} catch (error) {
+			console.error('Error importing board JSON:', error);
+			new Notice(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+
+		await this.createBoardFile(board, file.basename);
+		new Notice(`Imported board from ${file.name}`);
+	}
+
+	/**
+	 * Create a Kanban board from a Trello JSON export in the vault
+	 */
+	async importTrelloBoard(file: TFile): Promise<void> {
+		let data: unknown;
+		try {
+			data = JSON.parse(await this.app.vault.read(file));
+		} catch (error) {
+			console.error('Error reading Trello export:', error);
+			new Notice(`Could not read ${file.name} as JSON`);
+			return;
+		}
+
+		if (!isTrelloExport(data)) {
+			new Notice(`${file.name} does not look like a Trello board export`);
+			return;
+		}
+
+		const { title, board, unmapped } = trelloToKanbanBoard(data);
+		await this.createBoardFile(board, title);
+
+		const cardCount = board.lanes.reduce((sum, lane) => sum + lane.cards.length, 0) + board.archive.length;
+		new Notice(`Imported ${cardCount} cards from Trello board: ${title}`);
+
+		if (unmapped.length > 0) {
+			new ImportReportModal(this.app, 'Trello import report', unmapped).open();
+		}
+	}
+
 	/**
 	 * Create a Kanban board file from a board object
 	 */
@@ -748,7 +1226,7 @@ export default class KanbanPlugin extends Plugin {
 			counter++;
 		}
 
-		const content = serializeKanbanBoard(board);
+		const content = serializeKanbanBoard(board, this.getBoardOptions());
 		const file = await this.app.vault.create(filePath, content);
 
 		// Open the new board
@@ -780,6 +1258,103 @@ export default class KanbanPlugin extends Plugin {
 		}
 	}
 
+	// ============ Moving Between Boards ============
+
+	/**
+	 * Every kanban board in the vault
+	 */
+	getKanbanFiles(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => this.isKanbanBoard(file));
+	}
+
+	// Aggregate boards are left out: they have no cards of their own
+	private isKanbanBoard(file: TFile): boolean {
+		const kanbanType = this.app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_KEY];
+		return !!kanbanType && kanbanType !== AGGREGATE_BOARD_TYPE;
+	}
+
+	/**
+	 * The kanban view an element (such as a drop target) belongs to
+	 */
+	findKanbanViewForElement(el: HTMLElement): KanbanView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType(KANBAN_VIEW_TYPE)) {
+			if (leaf.view instanceof KanbanView && leaf.view.containerEl.contains(el)) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * A board as it is now: from its open view, or read from the file
+	 */
+	async readBoard(file: TFile): Promise<KanbanBoard> {
+		const view = this.findKanbanView(file.path);
+		if (view) return view.board;
+		return parseKanbanBoard(await this.app.vault.read(file), this.getBoardOptions());
+	}
+
+	/**
+	 * Change a board and write it back: through its open view when there is one, otherwise
+	 * as a single read-modify-write of the file. Returning false from change leaves it as it was.
+	 * Aggregate boards are refused: cards put on them would be written nowhere.
+	 */
+	async updateBoard(file: TFile, change: (board: KanbanBoard) => boolean): Promise<boolean> {
+		const view = this.findKanbanView(file.path);
+		if (view) {
+			if (view.aggregateMarkdown !== null || !change(view.board)) return false;
+			view.requestSave();
+			view.refresh();
+			return true;
+		}
+
+		let changed = false;
+		await this.app.vault.process(file, (markdown) => {
+			if (isAggregateBoard(readFrontmatter(markdown))) return markdown;
+			const board = parseKanbanBoard(markdown, this.getBoardOptions());
+			changed = change(board);
+			return changed ? serializeKanbanBoard(board, this.getBoardOptions()) : markdown;
+		});
+		return changed;
+	}
+
+	/**
+	 * Keep the running timer on its card when the card moves to another board
+	 */
+	onCardsMovedToBoard(cards: KanbanCard[], fromPath: string, toPath: string): void {
+		const timer = this.settings['active-timer'];
+		if (timer && timer.boardPath === fromPath && cards.some(card => card.id === timer.cardId)) {
+			timer.boardPath = toPath;
+			this.saveSettings();
+		}
+	}
+
+	// ============ Associated Files ============
+
+	/**
+	 * Follow a renamed (or with null, deleted) file in the [files::] links of every board.
+	 * This waits a moment so that Obsidian's own link updates land first.
+	 */
+	private updateAssociatedFileLinks(oldPath: string, file: TFile | null): void {
+		window.setTimeout(async () => {
+			const oldName = (oldPath.split('/').pop() || oldPath).replace(/\.md$/, '').toLowerCase();
+			for (const boardFile of this.getKanbanFiles()) {
+				if (boardFile === file) continue;
+				try {
+					// Only boards that mention the file can link to it
+					const markdown = await this.app.vault.cachedRead(boardFile);
+					if (!markdown.toLowerCase().includes(oldName)) continue;
+
+					const newLink = file ? this.app.metadataCache.fileToLinktext(file, boardFile.path) : null;
+					const resolves = (link: string) => !!this.app.metadataCache.getFirstLinkpathDest(link.split('#')[0].trim(), boardFile.path);
+					await this.updateBoard(boardFile, (board) => replaceFileLinks(board, oldPath, newLink, resolves));
+				} catch (error) {
+					console.error(`Error updating associated files in ${boardFile.path}:`, error);
+				}
+			}
+		}, 1000);
+	}
+
 	// ============ Reminder System ============
 
 	startReminderCheck(): void {
@@ -805,15 +1380,12 @@ export default class KanbanPlugin extends Plugin {
 		if (!this.settings['enable-reminders']) return;
 
 		const now = new Date();
-		const kanbanFiles = this.app.vault.getMarkdownFiles().filter(file => {
-			const cache = this.app.metadataCache.getFileCache(file);
-			return cache?.frontmatter?.[FRONTMATTER_KEY];
-		});
+		const kanbanFiles = this.getKanbanFiles();
 
 		for (const file of kanbanFiles) {
 			try {
 				const content = await this.app.vault.read(file);
-				const board = parseKanbanBoard(content);
+				const board = parseKanbanBoard(content, this.getBoardOptions());
 				
 				for (const lane of board.lanes) {
 					for (const card of lane.cards) {
@@ -1028,3 +1600,129 @@ class ProjectSelectorModal extends FuzzySuggestModal<string> {
 		this.onChoose(item);
 	}
 }
+
+/**
+ * Modal for selecting a JSON file in the vault to import
+ */
+class JsonFileSelectorModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: import('obsidian').App, files: TFile[], placeholder: string, onChoose: (file: TFile) => void) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(item: TFile): string {
+		return item.path;
+	}
+
+	onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoose(item);
+	}
+}
+
+/**
+ * Modal listing what an import could not map onto the board
+ */
+class ImportReportModal extends Modal {
+	private title: string;
+	private items: string[];
+
+	constructor(app: import('obsidian').App, title: string, items: string[]) {
+		super(app);
+		this.title = title;
+		this.items = items;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('kanban-import-report-modal');
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', {
+			text: `${this.items.length} item${this.items.length === 1 ? '' : 's'} could not be fully imported:`,
+			cls: 'setting-item-description'
+		});
+
+		const listEl = contentEl.createEl('ul', { cls: 'kanban-import-report-list' });
+		for (const item of this.items) {
+			listEl.createEl('li', { text: item });
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Modal previewing the changes a legacy board migration would make
+ */
+class MigrationPreviewModal extends Modal {
+	private boardName: string;
+	private result: MigrationResult;
+	private onConfirm: () => void;
+
+	constructor(app: import('obsidian').App, boardName: string, result: MigrationResult, onConfirm: () => void) {
+		super(app);
+		this.boardName = boardName;
+		this.result = result;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('kanban-migration-modal');
+
+		contentEl.createEl('h2', { text: `Migrate ${this.boardName}` });
+		contentEl.createEl('p', {
+			text: `${this.result.changes.length} line${this.result.changes.length === 1 ? '' : 's'} will be rewritten. Review the changes before applying them.`,
+			cls: 'setting-item-description'
+		});
+
+		const changesEl = contentEl.createDiv({ cls: 'kanban-migration-changes' });
+		for (const change of this.result.changes) {
+			const changeEl = changesEl.createDiv({ cls: 'kanban-migration-change' });
+			changeEl.createDiv({ text: `Line ${change.line}`, cls: 'kanban-migration-line' });
+			changeEl.createEl('pre', { text: change.before, cls: 'kanban-migration-before' });
+			if (change.after !== null) {
+				changeEl.createEl('pre', { text: change.after, cls: 'kanban-migration-after' });
+			}
+		}
+
+		if (this.result.notes.length > 0) {
+			contentEl.createEl('h4', { text: 'Notes' });
+			const notesEl = contentEl.createEl('ul', { cls: 'kanban-import-report-list' });
+			for (const note of this.result.notes) {
+				notesEl.createEl('li', { text: note });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Migrate')
+				.setCta()
+				.onClick(() => {
+					this.onConfirm();
+					this.close();
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -8,6 +8,7 @@
  * - Base task metadata support (progress, project, tags, due date, etc.)
  * - Per-card notes via > block syntax
  * - Round-trip safe serialization
+ * - Minimal-diff saves (untouched cards and lanes are written back verbatim)
  * 
  * Board format:
  * ---
@@ -22,7 +23,9 @@
  * - [ ] Card title #tag @2024-01-15 [progress::50%] [project::Alpha]
  *   > Card notes can span
  *   > multiple lines
+ *   - [ ] Subtask @2024-01-10 [assignee::kim] [weight::2] ^subtask-id-789
  * - [x] Completed card ^card-id-123
+ * - [ ] Tasks plugin fields are read too 🔁 every week ⏫ 📅 2024-01-15
  * 
  * ## Another Lane ^lane-id-456
  * 
@@ -50,17 +53,24 @@ import {
 	DayOfWeek,
 	Subtask,
 	TemplateContext,
+	BoardDiagnostic,
+	FieldSyntax,
+	DateSerializationFormat,
 	FRONTMATTER_KEY,
 	DATE_PATTERNS,
 	METADATA_KEYS,
+	DEPENDENCY_FIELDS,
 	NATURAL_DATE_PATTERNS,
 	RECURRENCE_PATTERNS,
 	DAY_NAMES,
 	DAY_NAMES_REVERSE,
+	MONTH_NAMES,
+	OrdinalWeekday,
 } from './types';
+import { getDateLocale, matchLocalizedDates, matchLocalizedRecurrence, matchLocalizedTime } from './DateLocales';
 
 // ID generation with collision avoidance
-function generateId(): string {
+export function generateId(): string {
 	return Math.random().toString(36).substring(2, 11) + Date.now().toString(36).slice(-4);
 }
 
@@ -153,159 +163,418 @@ function formatDateWithPattern(date: Date, pattern: string): string {
 	const monthNamesShort = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
 		'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 	
-	return pattern
-		.replace(/YYYY/g, String(year))
-		.replace(/YY/g, String(year).slice(-2))
-		.replace(/MMMM/g, monthNames[date.getMonth()])
-		.replace(/MMM/g, monthNamesShort[date.getMonth()])
-		.replace(/MM/g, month)
-		.replace(/M/g, String(date.getMonth() + 1))
-		.replace(/DDDD/g, dayNames[date.getDay()])
-		.replace(/DDD/g, dayNamesShort[date.getDay()])
-		.replace(/DD/g, day)
-		.replace(/D/g, String(date.getDate()))
-		.replace(/HH/g, hours)
-		.replace(/H/g, String(date.getHours()))
-		.replace(/mm/g, minutes)
-		.replace(/m/g, String(date.getMinutes()))
-		.replace(/ss/g, seconds)
-		.replace(/s/g, String(date.getSeconds()));
+	// One pass, so month and day names are not themselves treated as tokens ("Dec" → "15ec")
+	const values: Record<string, string> = {
+		YYYY: String(year),
+		YY: String(year).slice(-2),
+		MMMM: monthNames[date.getMonth()],
+		MMM: monthNamesShort[date.getMonth()],
+		MM: month,
+		M: String(date.getMonth() + 1),
+		DDDD: dayNames[date.getDay()],
+		DDD: dayNamesShort[date.getDay()],
+		DD: day,
+		D: String(date.getDate()),
+		HH: hours,
+		H: String(date.getHours()),
+		mm: minutes,
+		m: String(date.getMinutes()),
+		ss: seconds,
+		s: String(date.getSeconds()),
+	};
+	return pattern.replace(/YYYY|YY|MMMM|MMM|MM|M|DDDD|DDD|DD|D|HH|H|mm|m|ss|s/g, token => values[token]);
 }
 
-// ============ Natural Language Date Parsing ============
-
 /**
- * Parse natural language date expression to ISO date string
+ * Parse a date written with a pattern (YYYY, YY, MMMM, MMM, MM, M, DD, D) into an ISO date.
+ * Returns null when the text does not match the pattern or is not a real date.
  */
-export function parseNaturalDate(text: string, referenceDate: Date = new Date()): { date: string | null; matched: string | null } {
-	const today = new Date(referenceDate);
-	today.setHours(0, 0, 0, 0);
-	
-	// Today
-	const todayMatch = text.match(NATURAL_DATE_PATTERNS.TODAY);
-	if (todayMatch) {
-		return { date: formatISODate(today), matched: todayMatch[0] };
-	}
-	
-	// Tomorrow
-	const tomorrowMatch = text.match(NATURAL_DATE_PATTERNS.TOMORROW);
-	if (tomorrowMatch) {
-		const tomorrow = new Date(today);
-		tomorrow.setDate(tomorrow.getDate() + 1);
-		return { date: formatISODate(tomorrow), matched: tomorrowMatch[0] };
-	}
-	
-	// Yesterday
-	const yesterdayMatch = text.match(NATURAL_DATE_PATTERNS.YESTERDAY);
-	if (yesterdayMatch) {
-		const yesterday = new Date(today);
-		yesterday.setDate(yesterday.getDate() - 1);
-		return { date: formatISODate(yesterday), matched: yesterdayMatch[0] };
+export function parseDateWithFormat(text: string, pattern: string): string | null {
+	const { source, tokens } = compileDateFormat(pattern);
+	const parts = text.trim().match(new RegExp(`^${source}$`, 'i'));
+	if (!parts) return null;
+	return readDateParts(parts.slice(1), tokens);
+}
+
+// ISO date from a field value written as ISO or in one of the given formats, or undefined
+function readStoredDate(text: string, formats: string[]): string | undefined {
+	const value = text.trim();
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+	for (const format of formats) {
+		const date = parseDateWithFormat(value, format);
+		if (date) return date;
 	}
-	
-	// Next [day of week]
-	const nextDayMatch = text.match(NATURAL_DATE_PATTERNS.NEXT_DAY);
-	if (nextDayMatch) {
-		const dayName = nextDayMatch[1].toLowerCase();
-		const targetDay = DAY_NAMES[dayName];
-		if (targetDay !== undefined) {
-			const date = getNextDayOfWeek(today, targetDay, true);
-			return { date: formatISODate(date), matched: nextDayMatch[0] };
+	return undefined;
+}
+
+/**
+ * Find the first @date written in one of the given formats (e.g. @15/01/2027 for DD/MM/YYYY),
+ * optionally followed by a time (@15/01/2027T14:00). The date is returned as ISO.
+ */
+export function findFormattedDate(text: string, formats: string[]): { date: string; time?: string; matched: string } | null {
+	for (const format of formats) {
+		const { source, tokens } = compileDateFormat(format);
+		const regex = new RegExp(`@${source}(?:T(\\d{2}:\\d{2}))?(?![\\w/.-])`, 'gi');
+		let match;
+		while ((match = regex.exec(text)) !== null) {
+			const date = readDateParts(match.slice(1, tokens.length + 1), tokens);
+			if (date) {
+				return { date, time: match[tokens.length + 1], matched: match[0] };
+			}
 		}
 	}
-	
-	// This [day of week]
-	const thisDayMatch = text.match(NATURAL_DATE_PATTERNS.THIS_DAY);
-	if (thisDayMatch) {
-		const dayName = thisDayMatch[1].toLowerCase();
-		const targetDay = DAY_NAMES[dayName];
-		if (targetDay !== undefined) {
-			const date = getNextDayOfWeek(today, targetDay, false);
-			return { date: formatISODate(date), matched: thisDayMatch[0] };
+	return null;
+}
+
+/**
+ * Find the first date in the legacy obsidian-kanban dialect, @{date} or @[[date]], written
+ * as ISO or in one of the given formats. The date is returned as ISO.
+ */
+function findLegacyDate(text: string, formats: string[]): { date: string; matched: string } | null {
+	for (const format of ['YYYY-MM-DD', ...formats]) {
+		const { source, tokens } = compileDateFormat(format);
+		const regex = new RegExp(`@(?:\\{${source}\\}|\\[\\[${source}(?:\\|[^\\]]*)?\\]\\])`, 'gi');
+		let match;
+		while ((match = regex.exec(text)) !== null) {
+			// One set of groups for the braces, one for the link
+			const braced = match[1] !== undefined;
+			const parts = braced ? match.slice(1, tokens.length + 1) : match.slice(tokens.length + 1);
+			const date = readDateParts(parts, tokens);
+			if (date) return { date, matched: match[0] };
 		}
 	}
-	
-	// Last [day of week]
-	const lastDayMatch = text.match(NATURAL_DATE_PATTERNS.LAST_DAY);
-	if (lastDayMatch) {
-		const dayName = lastDayMatch[1].toLowerCase();
-		const targetDay = DAY_NAMES[dayName];
-		if (targetDay !== undefined) {
-			const date = getLastDayOfWeek(today, targetDay);
-			return { date: formatISODate(date), matched: lastDayMatch[0] };
+	return null;
+}
+
+/**
+ * Write an ISO date in a date format, or null if the format could not be read back
+ * (for example because it contains weekday names)
+ */
+export function formatDateForStorage(isoDate: string, format: string): string | null {
+	const [year, month, day] = isoDate.split('-').map(Number);
+	const formatted = formatDateWithPattern(new Date(year, month - 1, day), format);
+	return parseDateWithFormat(formatted, format) === isoDate ? formatted : null;
+}
+
+// Regex source for a date format, with one group per token
+function compileDateFormat(pattern: string): { source: string; tokens: string[] } {
+	const tokenRegex = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+	const tokens: string[] = [];
+	let source = '';
+	let lastIndex = 0;
+	let match;
+
+	while ((match = tokenRegex.exec(pattern)) !== null) {
+		source += escapeRegExp(pattern.slice(lastIndex, match.index));
+		tokens.push(match[0]);
+		switch (match[0]) {
+			case 'YYYY': source += '(\\d{4})'; break;
+			case 'MMMM':
+			case 'MMM': source += '([A-Za-z]+)'; break;
+			case 'YY':
+			case 'MM':
+			case 'DD': source += '(\\d{2})'; break;
+			default: source += '(\\d{1,2})';
 		}
+		lastIndex = tokenRegex.lastIndex;
 	}
-	
-	// In X days
-	const inDaysMatch = text.match(NATURAL_DATE_PATTERNS.IN_X_DAYS);
-	if (inDaysMatch) {
-		const days = parseInt(inDaysMatch[1], 10);
-		const date = new Date(today);
-		date.setDate(date.getDate() + days);
-		return { date: formatISODate(date), matched: inDaysMatch[0] };
+	source += escapeRegExp(pattern.slice(lastIndex));
+	return { source, tokens };
+}
+
+// ISO date from the values matched for each format token, or null if it is not a real date
+function readDateParts(parts: string[], tokens: string[]): string | null {
+	let year = NaN;
+	let month = NaN;
+	let day = NaN;
+	tokens.forEach((token, index) => {
+		const value = parts[index];
+		if (token === 'YYYY') year = parseInt(value, 10);
+		else if (token === 'YY') year = 2000 + parseInt(value, 10);
+		else if (token === 'MMMM' || token === 'MMM') {
+			const name = value.toLowerCase();
+			month = MONTH_NAMES.findIndex(m => m === name || m.slice(0, 3) === name) + 1 || NaN;
+		}
+		else if (token === 'MM' || token === 'M') month = parseInt(value, 10);
+		else day = parseInt(value, 10);
+	});
+
+	if (isNaN(year) || isNaN(month) || isNaN(day)) return null;
+
+	const date = new Date(year, month - 1, day);
+	if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+		return null;
 	}
-	
-	// In X weeks
-	const inWeeksMatch = text.match(NATURAL_DATE_PATTERNS.IN_X_WEEKS);
-	if (inWeeksMatch) {
-		const weeks = parseInt(inWeeksMatch[1], 10);
-		const date = new Date(today);
-		date.setDate(date.getDate() + weeks * 7);
-		return { date: formatISODate(date), matched: inWeeksMatch[0] };
+	return formatISODate(date);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============ Natural Language Date Parsing ============
+
+/**
+ * Result of parsing a natural language date. `matched` is the exact text that was
+ * understood and `span` its position in the input, so callers can replace or highlight it.
+ */
+export interface NaturalDateResult {
+	date: string | null;        // ISO date
+	time: string | null;        // HH:mm, when the text included a time
+	matched: string | null;
+	span: { start: number; end: number } | null;
+}
+
+// A date expression found in the text, before any adjacent time is attached
+interface NaturalDateMatch {
+	start: number;
+	end: number;
+	date: Date;
+	time?: string;
+	requiresTime?: boolean;     // Bare weekdays only count when a time is attached
+}
+
+/**
+ * Parse natural language date expression to ISO date string.
+ * Understands relative days ("tomorrow", "next Monday", "in 3 days"), relative times
+ * ("in 2 hours"), month names ("Jan 5", "5 March 2027"), period ends ("end of quarter")
+ * and times attached to any of them ("tomorrow at 3pm", "friday 14:30").
+ * With a dateLocale (see DateLocales.ts) that language's phrases are understood too;
+ * English always works as a fallback.
+ * Relative expressions are resolved against referenceDate.
+ */
+export function parseNaturalDate(text: string, referenceDate: Date = new Date(), dateLocale?: string): NaturalDateResult {
+	const today = new Date(referenceDate);
+	today.setHours(0, 0, 0, 0);
+
+	const candidates = [
+		...findNaturalDates(text, today, referenceDate),
+		...findLocalizedDates(text, today, referenceDate, dateLocale),
+	];
+	const timeMatch = findTime(text, dateLocale);
+
+	// The earliest expression in the text wins
+	candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+	for (const candidate of candidates) {
+		let { start, end } = candidate;
+		let candidateTime = candidate.time;
+
+		// Attach a time written directly before or after the date ("tomorrow at 3pm", "3pm tomorrow")
+		if (!candidateTime && timeMatch) {
+			if (timeMatch.start >= end && /^\s*,?\s*$/.test(text.slice(end, timeMatch.start))) {
+				end = timeMatch.end;
+				candidateTime = timeMatch.time;
+			} else if (timeMatch.end <= start && /^\s*,?\s*(?:on\s+)?$/i.test(text.slice(timeMatch.end, start))) {
+				start = timeMatch.start;
+				candidateTime = timeMatch.time;
+			}
+		}
+
+		if (candidate.requiresTime && !candidateTime) continue;
+
+		return {
+			date: formatISODate(candidate.date),
+			time: candidateTime || null,
+			matched: text.slice(start, end),
+			span: { start, end },
+		};
 	}
-	
-	// In X months
-	const inMonthsMatch = text.match(NATURAL_DATE_PATTERNS.IN_X_MONTHS);
-	if (inMonthsMatch) {
-		const months = parseInt(inMonthsMatch[1], 10);
+
+	// A time on its own means today, or tomorrow once that time has passed
+	if (timeMatch) {
+		const [hours, minutes] = timeMatch.time.split(':').map(Number);
 		const date = new Date(today);
-		date.setMonth(date.getMonth() + months);
-		return { date: formatISODate(date), matched: inMonthsMatch[0] };
+		if (hours * 60 + minutes <= referenceDate.getHours() * 60 + referenceDate.getMinutes()) {
+			date.setDate(date.getDate() + 1);
+		}
+		return {
+			date: formatISODate(date),
+			time: timeMatch.time,
+			matched: text.slice(timeMatch.start, timeMatch.end),
+			span: { start: timeMatch.start, end: timeMatch.end },
+		};
 	}
-	
-	// X days ago
-	const daysAgoMatch = text.match(NATURAL_DATE_PATTERNS.X_DAYS_AGO);
-	if (daysAgoMatch) {
-		const days = parseInt(daysAgoMatch[1], 10);
+
+	return { date: null, time: null, matched: null, span: null };
+}
+
+// Every date expression in the text, with its position
+function findNaturalDates(text: string, today: Date, referenceDate: Date): NaturalDateMatch[] {
+	const candidates: NaturalDateMatch[] = [];
+	const add = (pattern: RegExp, resolve: (match: RegExpMatchArray) => Date | null, options: { requiresTime?: boolean; withTime?: boolean } = {}) => {
+		const match = text.match(pattern);
+		if (!match || match.index === undefined) return;
+		const date = resolve(match);
+		if (!date) return;
+		candidates.push({
+			start: match.index,
+			end: match.index + match[0].length,
+			date,
+			time: options.withTime ? formatTime(date) : undefined,
+			requiresTime: options.requiresTime,
+		});
+	};
+	const addDays = (days: number) => {
 		const date = new Date(today);
-		date.setDate(date.getDate() - days);
-		return { date: formatISODate(date), matched: daysAgoMatch[0] };
+		date.setDate(date.getDate() + days);
+		return date;
+	};
+	const dayIndex = (name: string) => DAY_NAMES[name.toLowerCase()];
+
+	add(NATURAL_DATE_PATTERNS.TODAY, () => new Date(today));
+	add(NATURAL_DATE_PATTERNS.TOMORROW, () => addDays(1));
+	add(NATURAL_DATE_PATTERNS.YESTERDAY, () => addDays(-1));
+	add(NATURAL_DATE_PATTERNS.NEXT_DAY, match => getNextDayOfWeek(today, dayIndex(match[1]), true));
+	add(NATURAL_DATE_PATTERNS.THIS_DAY, match => getNextDayOfWeek(today, dayIndex(match[1]), false));
+	add(NATURAL_DATE_PATTERNS.LAST_DAY, match => getLastDayOfWeek(today, dayIndex(match[1])));
+	add(NATURAL_DATE_PATTERNS.DAY_OF_WEEK, match => getNextDayOfWeek(today, dayIndex(match[1]), false), { requiresTime: true });
+
+	// Relative times keep the time of day of the reference date
+	add(NATURAL_DATE_PATTERNS.IN_X_MINUTES, match => new Date(referenceDate.getTime() + parseInt(match[1], 10) * 60000), { withTime: true });
+	add(NATURAL_DATE_PATTERNS.IN_X_HOURS, match => new Date(referenceDate.getTime() + parseInt(match[1], 10) * 3600000), { withTime: true });
+
+	add(NATURAL_DATE_PATTERNS.IN_X_DAYS, match => addDays(parseInt(match[1], 10)));
+	add(NATURAL_DATE_PATTERNS.IN_X_WEEKS, match => addDays(parseInt(match[1], 10) * 7));
+	add(NATURAL_DATE_PATTERNS.IN_X_MONTHS, match => addMonths(today, parseInt(match[1], 10)));
+	add(NATURAL_DATE_PATTERNS.IN_X_YEARS, match => addMonths(today, parseInt(match[1], 10) * 12));
+	add(NATURAL_DATE_PATTERNS.X_DAYS_AGO, match => addDays(-parseInt(match[1], 10)));
+
+	add(NATURAL_DATE_PATTERNS.NEXT_WEEK, () => getNextDayOfWeek(today, 1, true)); // Monday
+	add(NATURAL_DATE_PATTERNS.NEXT_MONTH, () => new Date(today.getFullYear(), today.getMonth() + 1, 1));
+	add(NATURAL_DATE_PATTERNS.NEXT_YEAR, () => new Date(today.getFullYear() + 1, 0, 1));
+
+	add(NATURAL_DATE_PATTERNS.END_OF_WEEK, () => {
+		// Sunday, or today if it is Sunday
+		return today.getDay() === 0 ? new Date(today) : getNextDayOfWeek(today, 0, false);
+	});
+	add(NATURAL_DATE_PATTERNS.END_OF_MONTH, () => new Date(today.getFullYear(), today.getMonth() + 1, 0));
+	add(NATURAL_DATE_PATTERNS.END_OF_QUARTER, () => new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3 + 3, 0));
+	add(NATURAL_DATE_PATTERNS.END_OF_YEAR, () => new Date(today.getFullYear(), 11, 31));
+
+	// Month names: without a year, the next such date on or after today
+	add(NATURAL_DATE_PATTERNS.MONTH_DAY, match => resolveMonthDay(today, monthIndex(match[1]), match[2], match[3]));
+	add(NATURAL_DATE_PATTERNS.DAY_MONTH, match => resolveMonthDay(today, monthIndex(match[2]), match[1], match[3]));
+
+	return candidates;
+}
+
+// Date phrases of the board's locale, resolved like their English counterparts
+function findLocalizedDates(text: string, today: Date, referenceDate: Date, dateLocale: string | undefined): NaturalDateMatch[] {
+	const locale = getDateLocale(dateLocale);
+	if (!locale) return [];
+
+	const candidates: NaturalDateMatch[] = [];
+	for (const match of matchLocalizedDates(text, locale)) {
+		const { values } = match;
+		const n = values.n ? parseInt(values.n, 10) : 0;
+		const day = values.day ? DAY_NAMES[values.day] : 0;
+		const addDays = (days: number) => {
+			const date = new Date(today);
+			date.setDate(date.getDate() + days);
+			return date;
+		};
+
+		let date: Date | null = null;
+		let withTime = false;
+		switch (match.kind) {
+			case 'today': date = new Date(today); break;
+			case 'tomorrow': date = addDays(1); break;
+			case 'dayAfterTomorrow': date = addDays(2); break;
+			case 'yesterday': date = addDays(-1); break;
+			case 'nextDay': date = getNextDayOfWeek(today, day, true); break;
+			case 'thisDay':
+			case 'dayOfWeek': date = getNextDayOfWeek(today, day, false); break;
+			case 'lastDay': date = getLastDayOfWeek(today, day); break;
+			case 'nextWeekDay':
+				// Weeks start on Monday: the given day in the week after this one
+				date = addDays(7 - (today.getDay() + 6) % 7 + (day + 6) % 7);
+				break;
+			case 'inMinutes': date = new Date(referenceDate.getTime() + n * 60000); withTime = true; break;
+			case 'inHours': date = new Date(referenceDate.getTime() + n * 3600000); withTime = true; break;
+			case 'inDays': date = addDays(n); break;
+			case 'inWeeks': date = addDays(n * 7); break;
+			case 'inMonths': date = addMonths(today, n); break;
+			case 'inYears': date = addMonths(today, n * 12); break;
+			case 'daysAgo': date = addDays(-n); break;
+			case 'nextWeek': date = getNextDayOfWeek(today, 1, true); break;
+			case 'nextMonth': date = new Date(today.getFullYear(), today.getMonth() + 1, 1); break;
+			case 'nextYear': date = new Date(today.getFullYear() + 1, 0, 1); break;
+			case 'endOfWeek': date = today.getDay() === 0 ? new Date(today) : getNextDayOfWeek(today, 0, false); break;
+			case 'endOfMonth': date = new Date(today.getFullYear(), today.getMonth() + 1, 0); break;
+			case 'endOfQuarter': date = new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3 + 3, 0); break;
+			case 'endOfYear': date = new Date(today.getFullYear(), 11, 31); break;
+			case 'monthDay': date = resolveMonthDay(today, parseInt(values.month, 10) - 1, values.date, values.year); break;
+		}
+		if (!date) continue;
+
+		candidates.push({
+			start: match.start,
+			end: match.end,
+			date,
+			time: withTime ? formatTime(date) : undefined,
+			requiresTime: match.kind === 'dayOfWeek',
+		});
 	}
-	
-	// Next week (next Monday)
-	const nextWeekMatch = text.match(NATURAL_DATE_PATTERNS.NEXT_WEEK);
-	if (nextWeekMatch) {
-		const date = getNextDayOfWeek(today, 1, true); // Monday
-		return { date: formatISODate(date), matched: nextWeekMatch[0] };
+	return candidates;
+}
+
+// Earliest English or localized time in the text
+function findTime(text: string, dateLocale: string | undefined): { start: number; end: number; time: string } | null {
+	const match = text.match(NATURAL_DATE_PATTERNS.TIME);
+	const time = match ? parseTimeMatch(match) : null;
+	const english = match && time && match.index !== undefined
+		? { start: match.index, end: match.index + match[0].length, time }
+		: null;
+
+	const locale = getDateLocale(dateLocale);
+	const localized = locale ? matchLocalizedTime(text, locale) : null;
+	if (english && localized) {
+		return localized.start < english.start || (localized.start === english.start && localized.end > english.end) ? localized : english;
 	}
-	
-	// Next month (1st of next month)
-	const nextMonthMatch = text.match(NATURAL_DATE_PATTERNS.NEXT_MONTH);
-	if (nextMonthMatch) {
-		const date = new Date(today);
-		date.setMonth(date.getMonth() + 1);
-		date.setDate(1);
-		return { date: formatISODate(date), matched: nextMonthMatch[0] };
+	return english || localized;
+}
+
+function monthIndex(monthName: string): number {
+	return MONTH_NAMES.findIndex(name => name.slice(0, 3) === monthName.toLowerCase().slice(0, 3));
+}
+
+// Date for a month (0-11) and day, or null if the day does not exist in that month
+function resolveMonthDay(today: Date, month: number, dayText: string, yearText: string | undefined): Date | null {
+	const day = parseInt(dayText, 10);
+	let year = yearText ? parseInt(yearText, 10) : today.getFullYear();
+
+	let date = new Date(year, month, day);
+	if (!yearText && date.getTime() < today.getTime()) {
+		year += 1;
+		date = new Date(year, month, day);
 	}
-	
-	// End of week (Sunday)
-	const endOfWeekMatch = text.match(NATURAL_DATE_PATTERNS.END_OF_WEEK);
-	if (endOfWeekMatch) {
-		const date = getNextDayOfWeek(today, 0, false); // Sunday
-		if (date.getTime() === today.getTime() && today.getDay() !== 0) {
-			date.setDate(date.getDate() + 7);
-		}
-		return { date: formatISODate(date), matched: endOfWeekMatch[0] };
+	return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Add months, clamping to the last day of shorter months
+function addMonths(from: Date, months: number): Date {
+	const date = new Date(from.getFullYear(), from.getMonth() + months, 1);
+	date.setDate(Math.min(from.getDate(), getDaysInMonth(date)));
+	return date;
+}
+
+// HH:mm from a NATURAL_DATE_PATTERNS.TIME match, or null for an impossible time
+function parseTimeMatch(match: RegExpMatchArray): string | null {
+	if (match[1]) {
+		return match[1].toLowerCase() === 'noon' ? '12:00' : '00:00';
 	}
-	
-	// End of month
-	const endOfMonthMatch = text.match(NATURAL_DATE_PATTERNS.END_OF_MONTH);
-	if (endOfMonthMatch) {
-		const date = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-		return { date: formatISODate(date), matched: endOfMonthMatch[0] };
+	if (match[4]) {
+		const hours = parseInt(match[2], 10);
+		if (hours < 1 || hours > 12) return null;
+		const minutes = match[3] || '00';
+		const isPm = match[4].toLowerCase() === 'pm';
+		return `${String((hours % 12) + (isPm ? 12 : 0)).padStart(2, '0')}:${minutes}`;
 	}
-	
-	return { date: null, matched: null };
+	return `${match[5].padStart(2, '0')}:${match[6]}`;
+}
+
+function formatTime(date: Date): string {
+	return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
 }
 
 // Helper: Get next occurrence of a day of week
@@ -336,8 +605,10 @@ function getLastDayOfWeek(from: Date, targetDay: number): Date {
 	return date;
 }
 
-// Helper: Format date to ISO string (YYYY-MM-DD)
-function formatISODate(date: Date): string {
+/**
+ * Format a date as an ISO string (YYYY-MM-DD) in local time
+ */
+export function formatISODate(date: Date): string {
 	const year = date.getFullYear();
 	const month = String(date.getMonth() + 1).padStart(2, '0');
 	const day = String(date.getDate()).padStart(2, '0');
@@ -346,10 +617,145 @@ function formatISODate(date: Date): string {
 
 // ============ Recurrence Pattern Parsing ============
 
+const RECURRENCE_DAY = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const RECURRENCE_MONTH = `(?:${MONTH_NAMES.join('|')})`;
+const RECURRENCE_ORDINAL = '(?:first|second|third|fourth|fifth|last|[1-5](?:st|nd|rd|th))';
+const RECURRENCE_LIST_SEPARATOR = '\\s*(?:,\\s*(?:and\\s+)?|and\\s+)';
+// "2nd and 4th Tuesday", optionally repeated: "1st Monday and last Friday"
+const RECURRENCE_ORDINAL_ITEM = `${RECURRENCE_ORDINAL}(?:${RECURRENCE_LIST_SEPARATOR}${RECURRENCE_ORDINAL})*\\s+${RECURRENCE_DAY}s?`;
+const RECURRENCE_ORDINAL_LIST = `${RECURRENCE_ORDINAL_ITEM}(?:${RECURRENCE_LIST_SEPARATOR}${RECURRENCE_ORDINAL_ITEM})*`;
+
+const QUARTER_MONTHS = [1, 4, 7, 10];
+
 /**
- * Parse recurrence pattern from text
+ * Parse recurrence pattern from text.
+ * Besides the simple forms ("daily", "every 2 weeks", "every Monday") this understands
+ * ordinal weekdays ("last Friday of every month", "every 2nd and 4th Tuesday",
+ * "first Monday of each quarter") and trailing modifiers: "on Monday, Wednesday",
+ * "on the 15th", "in January and July", "except holidays", "for 10 times", "until 2024-12-31".
+ * With a dateLocale that language's recurrence phrases are tried before the English ones;
+ * the English modifiers can follow either.
  */
-export function parseRecurrence(text: string): { pattern: RecurrencePattern | null; matched: string | null } {
+export function parseRecurrence(text: string, dateLocale?: string): { pattern: RecurrencePattern | null; matched: string | null } {
+	const base = parseLocalizedRecurrence(text, dateLocale) || parseOrdinalRecurrence(text) || parseBasicRecurrence(text);
+	if (!base.pattern || !base.matched) {
+		return { pattern: null, matched: null };
+	}
+
+	const pattern: RecurrencePattern = { ...base.pattern };
+	let matched = base.matched;
+	let rest = text.slice(text.indexOf(matched) + matched.length);
+
+	// Apply modifiers that directly follow the pattern until none match
+	let modifier: RegExpMatchArray | null = null;
+	do {
+		modifier = null;
+		const daysMatch = rest.match(new RegExp(`^\\s+on\\s+(${RECURRENCE_DAY}s?(?:${RECURRENCE_LIST_SEPARATOR}${RECURRENCE_DAY}s?)*)\\b`, 'i'));
+		const dayOfMonthMatch = rest.match(/^\s+on\s+the\s+(?:(\d{1,2})(?:st|nd|rd|th)?|(last)\s+day)\b/i);
+		const monthsMatch = rest.match(new RegExp(`^\\s+in\\s+(${RECURRENCE_MONTH}(?:${RECURRENCE_LIST_SEPARATOR}${RECURRENCE_MONTH})*)\\b`, 'i'));
+		const holidaysMatch = rest.match(/^\s+except\s+(?:on\s+)?holidays\b/i);
+		const countMatch = rest.match(/^\s+(?:for\s+)?(\d+)\s+times\b/i);
+		const untilMatch = rest.match(/^\s+until\s+(\d{4}-\d{2}-\d{2})\b/i);
+
+		if (daysMatch && pattern.frequency === 'weekly') {
+			pattern.daysOfWeek = (daysMatch[1].toLowerCase().match(new RegExp(RECURRENCE_DAY, 'g')) || []) as DayOfWeek[];
+			modifier = daysMatch;
+		} else if (dayOfMonthMatch && pattern.frequency === 'monthly' && !pattern.ordinalWeekdays) {
+			const day = dayOfMonthMatch[2] ? -1 : parseInt(dayOfMonthMatch[1], 10);
+			if (day === -1 || (day >= 1 && day <= 31)) {
+				pattern.dayOfMonth = day;
+				modifier = dayOfMonthMatch;
+			}
+		} else if (monthsMatch) {
+			pattern.monthsOfYear = (monthsMatch[1].toLowerCase().match(new RegExp(RECURRENCE_MONTH, 'g')) || [])
+				.map(name => MONTH_NAMES.indexOf(name) + 1);
+			modifier = monthsMatch;
+		} else if (holidaysMatch) {
+			pattern.skipHolidays = true;
+			modifier = holidaysMatch;
+		} else if (countMatch) {
+			pattern.count = parseInt(countMatch[1], 10);
+			modifier = countMatch;
+		} else if (untilMatch) {
+			pattern.endDate = untilMatch[1];
+			modifier = untilMatch;
+		}
+
+		if (modifier) {
+			matched += modifier[0];
+			rest = rest.slice(modifier[0].length);
+		}
+	} while (modifier);
+
+	pattern._rawPattern = matched;
+	return { pattern, matched };
+}
+
+// "last Friday of every month", "first Monday of each quarter", "every 2nd and 4th Tuesday"
+function parseOrdinalRecurrence(text: string): { pattern: RecurrencePattern | null; matched: string | null } | null {
+	const periodMatch = text.match(new RegExp(
+		`\\b(?:every\\s+|(?:on\\s+)?the\\s+)?(${RECURRENCE_ORDINAL_LIST})\\s+of\\s+(?:every|each|the)\\s+(?:(\\d+)\\s+)?(month|quarter|year)s?\\b`, 'i'));
+	if (periodMatch) {
+		const ordinalWeekdays = parseOrdinalWeekdays(periodMatch[1]);
+		const interval = periodMatch[2] ? parseInt(periodMatch[2], 10) : undefined;
+		const period = periodMatch[3].toLowerCase();
+
+		let pattern: RecurrencePattern;
+		if (period === 'quarter') {
+			pattern = { frequency: 'monthly', ordinalWeekdays, monthsOfYear: [...QUARTER_MONTHS] };
+		} else if (period === 'year') {
+			// Ordinals count within January, or within December for "last"
+			const fromEnd = ordinalWeekdays.every(weekday => weekday.ordinal < 0);
+			pattern = { frequency: 'yearly', ordinalWeekdays, monthsOfYear: [fromEnd ? 12 : 1] };
+		} else {
+			pattern = { frequency: 'monthly', ordinalWeekdays };
+		}
+		if (interval && interval > 1) {
+			pattern.interval = interval;
+		}
+		return { pattern, matched: periodMatch[0] };
+	}
+
+	const everyMatch = text.match(new RegExp(`\\bevery\\s+(${RECURRENCE_ORDINAL_LIST})\\b`, 'i'));
+	if (everyMatch) {
+		return {
+			pattern: { frequency: 'monthly', ordinalWeekdays: parseOrdinalWeekdays(everyMatch[1]) },
+			matched: everyMatch[0]
+		};
+	}
+
+	return null;
+}
+
+// Expand "2nd and 4th Tuesday, last Friday" into ordinal weekdays
+function parseOrdinalWeekdays(text: string): OrdinalWeekday[] {
+	const result: OrdinalWeekday[] = [];
+	const itemRegex = new RegExp(`(${RECURRENCE_ORDINAL}(?:${RECURRENCE_LIST_SEPARATOR}${RECURRENCE_ORDINAL})*)\\s+(${RECURRENCE_DAY})s?`, 'gi');
+	let item;
+	while ((item = itemRegex.exec(text)) !== null) {
+		const day = item[2].toLowerCase() as DayOfWeek;
+		for (const ordinal of item[1].toLowerCase().match(new RegExp(RECURRENCE_ORDINAL, 'g')) || []) {
+			result.push({ ordinal: ordinalToNumber(ordinal), day });
+		}
+	}
+	return result;
+}
+
+function ordinalToNumber(ordinal: string): number {
+	const words = ['first', 'second', 'third', 'fourth', 'fifth'];
+	if (ordinal === 'last') return -1;
+	const index = words.indexOf(ordinal);
+	return index >= 0 ? index + 1 : parseInt(ordinal, 10);
+}
+
+function numberToOrdinal(ordinal: number): string {
+	if (ordinal < 0) return 'last';
+	const suffix = ordinal === 1 ? 'st' : ordinal === 2 ? 'nd' : ordinal === 3 ? 'rd' : 'th';
+	return `${ordinal}${suffix}`;
+}
+
+// Simple recurrence forms, without modifiers
+function parseBasicRecurrence(text: string): { pattern: RecurrencePattern | null; matched: string | null } {
 	// Daily
 	const dailyMatch = text.match(RECURRENCE_PATTERNS.DAILY);
 	if (dailyMatch) {
@@ -425,6 +831,19 @@ export function parseRecurrence(text: string): { pattern: RecurrencePattern | nu
 		};
 	}
 	
+	// Every X years
+	const everyXYearsMatch = text.match(RECURRENCE_PATTERNS.EVERY_X_YEARS);
+	if (everyXYearsMatch) {
+		return {
+			pattern: {
+				frequency: 'yearly',
+				interval: parseInt(everyXYearsMatch[1], 10),
+				_rawPattern: everyXYearsMatch[0]
+			},
+			matched: everyXYearsMatch[0]
+		};
+	}
+	
 	// Every [day(s) of week] - e.g., "every Monday", "every Monday, Wednesday, Friday"
 	const everyDayMatch = text.match(RECURRENCE_PATTERNS.EVERY_DAY_OF_WEEK);
 	if (everyDayMatch) {
@@ -471,6 +890,42 @@ export function parseRecurrence(text: string): { pattern: RecurrencePattern | nu
 	return { pattern: null, matched: null };
 }
 
+// Recurrence phrases of the board's locale ("매주 금요일", "alle 2 Wochen", "毎月最終金曜日")
+function parseLocalizedRecurrence(text: string, dateLocale: string | undefined): { pattern: RecurrencePattern | null; matched: string | null } | null {
+	const locale = getDateLocale(dateLocale);
+	const match = locale ? matchLocalizedRecurrence(text, locale) : null;
+	if (!match) return null;
+
+	const { values } = match;
+	const interval = values.n ? parseInt(values.n, 10) : undefined;
+	let pattern: RecurrencePattern;
+	switch (match.kind) {
+		case 'daily': pattern = { frequency: 'daily' }; break;
+		case 'weekly': pattern = { frequency: 'weekly' }; break;
+		case 'monthly': pattern = { frequency: 'monthly' }; break;
+		case 'yearly': pattern = { frequency: 'yearly' }; break;
+		case 'everyNDays': pattern = { frequency: 'daily', interval }; break;
+		case 'everyNWeeks': pattern = { frequency: 'weekly', interval }; break;
+		case 'everyNMonths': pattern = { frequency: 'monthly', interval }; break;
+		case 'everyNYears': pattern = { frequency: 'yearly', interval }; break;
+		case 'everyWeekday': pattern = { frequency: 'weekly', daysOfWeek: values.days.split(',') as DayOfWeek[] }; break;
+		case 'weekdays': pattern = { frequency: 'weekly', daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }; break;
+		case 'weekends': pattern = { frequency: 'weekly', daysOfWeek: ['saturday', 'sunday'] }; break;
+		case 'monthlyOnDate': {
+			const day = parseInt(values.date, 10);
+			if (day < 1 || day > 31) return null;
+			pattern = { frequency: 'monthly', dayOfMonth: day };
+			break;
+		}
+		case 'nthWeekday':
+			pattern = { frequency: 'monthly', ordinalWeekdays: [{ ordinal: parseInt(values.nth, 10), day: values.day as DayOfWeek }] };
+			break;
+	}
+
+	const matched = text.slice(match.start, match.end);
+	return { pattern: { ...pattern, _rawPattern: matched }, matched };
+}
+
 /**
  * Serialize recurrence pattern to string
  */
@@ -481,46 +936,127 @@ export function serializeRecurrence(pattern: RecurrencePattern): string {
 	}
 	
 	// Generate from structured data
-	if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-		if (pattern.daysOfWeek.length === 5 && 
-			['monday', 'tuesday', 'wednesday', 'thursday', 'friday'].every(d => pattern.daysOfWeek!.includes(d as DayOfWeek))) {
-			return 'weekdays';
+	const interval = pattern.interval || 1;
+	let text: string;
+	// Months already implied by the text ("of every quarter") are not repeated
+	let impliedMonths: number[] | undefined;
+	
+	if (pattern.ordinalWeekdays && pattern.ordinalWeekdays.length > 0) {
+		let period: string;
+		if (pattern.frequency === 'yearly') {
+			period = interval === 1 ? 'year' : `${interval} years`;
+			impliedMonths = [pattern.ordinalWeekdays.every(weekday => weekday.ordinal < 0) ? 12 : 1];
+		} else if (interval === 1 && sameMonths(pattern.monthsOfYear, QUARTER_MONTHS)) {
+			period = 'quarter';
+			impliedMonths = QUARTER_MONTHS;
+		} else {
+			period = interval === 1 ? 'month' : `${interval} months`;
 		}
-		if (pattern.daysOfWeek.length === 2 && 
+		text = `${formatOrdinalWeekdays(pattern.ordinalWeekdays)} of every ${period}`;
+	} else if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+		if (interval > 1) {
+			text = `every ${interval} weeks on ${pattern.daysOfWeek.join(', ')}`;
+		} else if (pattern.daysOfWeek.length === 5 && 
+			['monday', 'tuesday', 'wednesday', 'thursday', 'friday'].every(d => pattern.daysOfWeek!.includes(d as DayOfWeek))) {
+			text = 'weekdays';
+		} else if (pattern.daysOfWeek.length === 2 && 
 			pattern.daysOfWeek.includes('saturday') && pattern.daysOfWeek.includes('sunday')) {
-			return 'weekends';
+			text = 'weekends';
+		} else {
+			text = `every ${pattern.daysOfWeek.join(', ')}`;
+		}
+	} else {
+		switch (pattern.frequency) {
+			case 'daily':
+				text = interval === 1 ? 'daily' : `every ${interval} days`;
+				break;
+			case 'weekly':
+				text = interval === 1 ? 'weekly' : `every ${interval} weeks`;
+				break;
+			case 'monthly':
+				text = interval === 1 ? 'monthly' : `every ${interval} months`;
+				if (pattern.dayOfMonth) {
+					text += ` on the ${pattern.dayOfMonth < 0 ? 'last day' : numberToOrdinal(pattern.dayOfMonth)}`;
+				}
+				break;
+			case 'yearly':
+				text = interval === 1 ? 'yearly' : `every ${interval} years`;
+				break;
+			default:
+				text = 'daily';
 		}
-		return `every ${pattern.daysOfWeek.join(', ')}`;
 	}
 	
-	const interval = pattern.interval || 1;
-	
-	switch (pattern.frequency) {
-		case 'daily':
-			return interval === 1 ? 'daily' : `every ${interval} days`;
-		case 'weekly':
-			return interval === 1 ? 'weekly' : `every ${interval} weeks`;
-		case 'monthly':
-			return interval === 1 ? 'monthly' : `every ${interval} months`;
-		case 'yearly':
-			return interval === 1 ? 'yearly' : `every ${interval} years`;
-		default:
-			return 'daily';
+	if (pattern.monthsOfYear && pattern.monthsOfYear.length > 0 && !sameMonths(pattern.monthsOfYear, impliedMonths)) {
+		text += ` in ${pattern.monthsOfYear.map(month => MONTH_NAMES[month - 1]).join(', ')}`;
+	}
+	if (pattern.skipHolidays) {
+		text += ' except holidays';
+	}
+	if (pattern.count) {
+		text += ` for ${pattern.count} times`;
+	}
+	if (pattern.endDate) {
+		text += ` until ${pattern.endDate}`;
+	}
+	return text;
+}
+
+// "2nd and 4th tuesday, last friday"
+function formatOrdinalWeekdays(weekdays: OrdinalWeekday[]): string {
+	const ordinalsByDay = new Map<DayOfWeek, number[]>();
+	for (const { ordinal, day } of weekdays) {
+		ordinalsByDay.set(day, [...(ordinalsByDay.get(day) || []), ordinal]);
 	}
+	return Array.from(ordinalsByDay.entries())
+		.map(([day, ordinals]) => `${ordinals.map(numberToOrdinal).join(' and ')} ${day}`)
+		.join(', ');
+}
+
+function sameMonths(a: number[] | undefined, b: number[] | undefined): boolean {
+	if (!a || !b) return false;
+	return a.length === b.length && a.every(month => b.includes(month));
 }
 
 /**
- * Calculate next occurrence date based on recurrence pattern
+ * Calculate the next occurrence after fromDate.
+ * Returns null once the recurrence has ended (no occurrences left in count, or past endDate).
+ * Dates listed in holidays are skipped for "except holidays" patterns.
  */
-export function getNextOccurrence(pattern: RecurrencePattern, fromDate: Date = new Date()): Date {
-	const next = new Date(fromDate);
-	next.setHours(0, 0, 0, 0);
+export function getNextOccurrence(pattern: RecurrencePattern, fromDate: Date = new Date(), holidays: string[] = []): Date | null {
+	// count includes the current occurrence
+	if (pattern.count !== undefined && pattern.count <= 1) {
+		return null;
+	}
+
+	let current = new Date(fromDate);
+	current.setHours(0, 0, 0, 0);
+
+	// Month filters and holidays can skip candidates; give up after a generous number of steps
+	for (let step = 0; step < 1000; step++) {
+		const next = getNextCandidate(pattern, current);
+		if (!next) return null;
+
+		const isoDate = formatISODate(next);
+		if (pattern.endDate && isoDate > pattern.endDate) return null;
+
+		current = next;
+		if (pattern.monthsOfYear && pattern.monthsOfYear.length > 0 && !pattern.monthsOfYear.includes(next.getMonth() + 1)) continue;
+		if (pattern.skipHolidays && holidays.includes(isoDate)) continue;
+		return next;
+	}
+	return null;
+}
+
+// Next date after `from` produced by the frequency and day selectors, ignoring filters
+function getNextCandidate(pattern: RecurrencePattern, from: Date): Date | null {
+	const next = new Date(from);
 	const interval = pattern.interval || 1;
 	
 	switch (pattern.frequency) {
 		case 'daily':
 			next.setDate(next.getDate() + interval);
-			break;
+			return next;
 			
 		case 'weekly':
 			if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
@@ -531,30 +1067,158 @@ export function getNextOccurrence(pattern: RecurrencePattern, fromDate: Date = n
 				// Find next day after current
 				let nextDay = targetDays.find(d => d > currentDay);
 				if (nextDay === undefined) {
-					// Wrap to next week
+					// Wrap to the first day of the next week in the cycle
 					nextDay = targetDays[0];
-					next.setDate(next.getDate() + (7 - currentDay + nextDay));
+					next.setDate(next.getDate() + (7 - currentDay + nextDay) + 7 * (interval - 1));
 				} else {
 					next.setDate(next.getDate() + (nextDay - currentDay));
 				}
 			} else {
 				next.setDate(next.getDate() + 7 * interval);
 			}
-			break;
+			return next;
 			
 		case 'monthly':
-			next.setMonth(next.getMonth() + interval);
-			if (pattern.dayOfMonth) {
-				next.setDate(Math.min(pattern.dayOfMonth, getDaysInMonth(next)));
+		case 'yearly': {
+			// Look through the current month (or year) first, then step by the interval
+			for (let period = 0; period < 100; period++) {
+				for (const month of getPeriodMonths(pattern, from, period)) {
+					const candidates = getMonthCandidates(pattern, month, from.getDate());
+					const found = candidates.find(date => date.getTime() > from.getTime());
+					if (found) return found;
+				}
 			}
-			break;
-			
-		case 'yearly':
-			next.setFullYear(next.getFullYear() + interval);
-			break;
+			return null;
+		}
+	}
+	
+	return null;
+}
+
+// First day of each month covered by the nth period after `from`
+function getPeriodMonths(pattern: RecurrencePattern, from: Date, period: number): Date[] {
+	const interval = pattern.interval || 1;
+	if (pattern.frequency === 'monthly') {
+		return [new Date(from.getFullYear(), from.getMonth() + period * interval, 1)];
+	}
+	const year = from.getFullYear() + period * interval;
+	const months = pattern.monthsOfYear && pattern.monthsOfYear.length > 0
+		? [...pattern.monthsOfYear].sort((a, b) => a - b)
+		: [from.getMonth() + 1];
+	return months.map(month => new Date(year, month - 1, 1));
+}
+
+// Dates in a month selected by ordinal weekdays, dayOfMonth, or the anchor day
+function getMonthCandidates(pattern: RecurrencePattern, month: Date, anchorDay: number): Date[] {
+	const daysInMonth = getDaysInMonth(month);
+	let days: number[];
+	
+	if (pattern.ordinalWeekdays && pattern.ordinalWeekdays.length > 0) {
+		days = [];
+		for (const { ordinal, day } of pattern.ordinalWeekdays) {
+			const date = getNthWeekdayOfMonth(month, ordinal, DAY_NAMES[day]);
+			if (date !== null) days.push(date);
+		}
+	} else if (pattern.dayOfMonth) {
+		days = [pattern.dayOfMonth < 0 ? daysInMonth : Math.min(pattern.dayOfMonth, daysInMonth)];
+	} else {
+		days = [Math.min(anchorDay, daysInMonth)];
 	}
 	
-	return next;
+	return days
+		.sort((a, b) => a - b)
+		.map(day => new Date(month.getFullYear(), month.getMonth(), day));
+}
+
+// Day of month of the nth weekday (negative counts from the end), or null if the month has none
+function getNthWeekdayOfMonth(month: Date, ordinal: number, weekday: number): number | null {
+	const daysInMonth = getDaysInMonth(month);
+	if (ordinal > 0) {
+		const firstDay = new Date(month.getFullYear(), month.getMonth(), 1).getDay();
+		const day = 1 + ((weekday - firstDay + 7) % 7) + 7 * (ordinal - 1);
+		return day <= daysInMonth ? day : null;
+	}
+	const lastDay = new Date(month.getFullYear(), month.getMonth(), daysInMonth).getDay();
+	const day = daysInMonth - ((lastDay - weekday + 7) % 7) - 7 * (-ordinal - 1);
+	return day >= 1 ? day : null;
+}
+
+// Text without the ⏱ lines that time tracking logs, or undefined when nothing else is left
+function withoutTimeLog(text: string | undefined): string | undefined {
+	if (text === undefined) return undefined;
+	const kept = text.split('\n').filter(line => !/^\s*-\s+⏱/.test(line)).join('\n');
+	return kept.trim() === '' && text.trim() !== '' ? undefined : kept;
+}
+
+/**
+ * Build the next instance of a completed recurring card: due date advanced,
+ * subtasks unchecked, new IDs, no linked note, no time spent or progress carried over,
+ * and one fewer occurrence left in count.
+ * Returns null when the card does not recur or the series has ended.
+ */
+export function createNextOccurrenceCard(card: KanbanCard, holidays: string[] = [], today: Date = new Date()): KanbanCard | null {
+	if (!card.recurrence) return null;
+
+	const fromDate = card.dueDate ? new Date(`${card.dueDate}T00:00:00`) : today;
+	const nextDate = getNextOccurrence(card.recurrence, fromDate, holidays);
+	if (!nextDate) return null;
+	const nextDueDate = formatISODate(nextDate);
+
+	const recurrence: RecurrencePattern = { ...card.recurrence };
+	const rawPattern = recurrence._rawPattern;
+	if (recurrence.count !== undefined) {
+		recurrence.count -= 1;
+		if (rawPattern) {
+			recurrence._rawPattern = rawPattern.replace(/\d+(\s+times\b)/i, `${recurrence.count}$1`);
+		}
+	}
+
+	// The start date keeps its distance from the due date
+	let startDate = card.startDate;
+	if (card.startDate && card.dueDate) {
+		const start = new Date(`${card.startDate}T00:00:00`);
+		const leadDays = Math.round((fromDate.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+		startDate = formatISODate(new Date(nextDate.getFullYear(), nextDate.getMonth(), nextDate.getDate() - leadDays));
+	}
+
+	// Move an inline date in the title along with the card, and count down an inline recurrence
+	let title = card.dueDate && card.title.includes(card.dueDate)
+		? card.title.replace(card.dueDate, nextDueDate)
+		: card.title;
+	if (rawPattern && recurrence._rawPattern !== rawPattern && title.includes(rawPattern)) {
+		title = title.replace(rawPattern, recurrence._rawPattern!);
+	}
+
+	// Subtasks start unchecked, with fresh block IDs; time logged belongs to this occurrence
+	const content = withoutTimeLog(card.content)?.split('\n').map(line => {
+		const match = line.match(SUBTASK_LINE_REGEX);
+		if (!match) return line;
+		const reset = line.replace(/\[[xX]\]/, '[ ]');
+		return extractId(reset).id ? reset.replace(/\^[\w-]+\s*$/, `^${generateId()}`) : reset;
+	}).join('\n');
+
+	const metadata: BaseTaskMetadata = { ...card.metadata };
+	for (const key of ['done', 'spent', 'progress', 'status']) {
+		delete metadata[key];
+	}
+
+	return {
+		id: generateId(),
+		title,
+		completed: false,
+		tags: [...card.tags],
+		startDate,
+		dueDate: nextDueDate,
+		dueTime: card.dueTime,
+		recurrence,
+		reminderTime: card.reminderTime,
+		notes: withoutTimeLog(card.notes),
+		content,
+		subtasks: content !== undefined
+			? parseSubtasksFromContent(content)
+			: card.subtasks?.map(subtask => ({ ...subtask, id: generateId(), completed: false })),
+		metadata,
+	};
 }
 
 // Helper: Get days in a month
@@ -608,13 +1272,55 @@ function extractId(line: string): { content: string; id: string | null } {
 	return { content: line, id: null };
 }
 
+/**
+ * An inline [key::value] field. Values may hold wikilinks, as in [blocked-by::[[Board#^id]]].
+ */
+export const INLINE_FIELD_REGEX = /\[([\w-]+)::((?:\[\[[^\]]*\]\]|[^\]])+)\]/;
+
+/**
+ * Set (or with undefined, remove) a metadata field on a card, keeping any copy of the
+ * field written in the title in step, since serializeCard leaves title fields as they are
+ */
+export function setCardField(card: KanbanCard, key: string, value: string | number | undefined): void {
+	if (value === undefined) {
+		delete card.metadata[key];
+	} else {
+		card.metadata[key] = value;
+	}
+
+	let written = false;
+	const fieldRegex = new RegExp(`(\\s*)${INLINE_FIELD_REGEX.source}`, 'g');
+	card.title = card.title.replace(fieldRegex, (field: string, space: string, rawKey: string) => {
+		if (rawKey.toLowerCase() !== key) return field;
+		if (value === undefined || written) return '';
+		written = true;
+		return `${space}[${rawKey}::${key === 'progress' ? `${value}%` : value}]`;
+	}).trim();
+}
+
+/**
+ * Replace a card's tags, taking dropped #tags out of its title and adding new ones at the end
+ */
+export function setCardTags(card: KanbanCard, tags: string[]): void {
+	let title = card.title;
+	for (const tag of card.tags.filter(t => !tags.includes(t))) {
+		title = title.replace(new RegExp(`(^|\\s)#${escapeRegExp(tag)}(?![\\w/-])`, 'g'), '$1');
+	}
+	const added = tags.filter(tag => !card.tags.includes(tag));
+	if (added.length > 0) {
+		title = `${title} ${added.map(tag => `#${tag}`).join(' ')}`;
+	}
+	card.title = title.replace(/\s{2,}/g, ' ').trim();
+	card.tags = [...tags];
+}
+
 // Parse metadata from [key::value] format
 function parseInlineMetadata(text: string): { cleanText: string; metadata: BaseTaskMetadata } {
 	const metadata: BaseTaskMetadata = {};
 	let cleanText = text;
 
 	// Match [key::value] patterns
-	const metadataRegex = /\[(\w+)::([^\]]+)\]/g;
+	const metadataRegex = new RegExp(INLINE_FIELD_REGEX.source, 'g');
 	let match;
 
 	while ((match = metadataRegex.exec(text)) !== null) {
@@ -625,6 +1331,8 @@ function parseInlineMetadata(text: string): { cleanText: string; metadata: BaseT
 		if (key === 'progress') {
 			const numValue = parseInt(rawValue.replace('%', ''), 10);
 			metadata[key] = isNaN(numValue) ? 0 : numValue;
+		} else if (DEPENDENCY_FIELDS.includes(key) && metadata[key] !== undefined) {
+			metadata[key] = `${metadata[key]}, ${rawValue}`;
 		} else {
 			metadata[key] = rawValue;
 		}
@@ -658,19 +1366,56 @@ function parseTags(text: string): { cleanText: string; tags: string[] } {
 	return { cleanText: text, tags };
 }
 
+/**
+ * The natural language due date in a card title: an @date ("@next Monday"), or else a
+ * date anywhere in the text. Recurrences are skipped, so "last Friday of every month" is
+ * not a date, and a bare time only counts after an @ ("John 3:16" is no due date).
+ * The span covers the @ and is a position in the text as given.
+ */
+export function findTitleNaturalDate(text: string, dateLocale?: string, referenceDate: Date = new Date()): NaturalDateResult | null {
+	// Blank out the recurrence rather than removing it, to keep positions in the text
+	let searchText = text;
+	const { pattern, matched: recurMatched } = parseRecurrence(text, dateLocale);
+	if (pattern && recurMatched) {
+		const index = text.indexOf(recurMatched);
+		searchText = text.slice(0, index) + ' '.repeat(recurMatched.length) + text.slice(index + recurMatched.length);
+	}
+
+	// @natural-date format (e.g., @tomorrow at 3pm, @next Monday) must start right after the @
+	const prefixRegex = /(^|[^@])@(?=[^\s@])/g;
+	let prefixMatch;
+	while ((prefixMatch = prefixRegex.exec(searchText)) !== null) {
+		const atIndex = prefixMatch.index + prefixMatch[1].length;
+		const result = parseNaturalDate(searchText.slice(atIndex + 1), referenceDate, dateLocale);
+		if (result.date && result.span && result.span.start === 0) {
+			const span = { start: atIndex, end: atIndex + 1 + result.span.end };
+			return { ...result, matched: text.slice(span.start, span.end), span };
+		}
+	}
+
+	// Inline natural dates need a date: a bare time is too easily a false positive
+	const result = parseNaturalDate(searchText, referenceDate, dateLocale);
+	if (!result.date || !result.matched) return null;
+	const timeInMatch = findTime(result.matched, dateLocale);
+	if (timeInMatch && timeInMatch.start === 0 && timeInMatch.end === result.matched.length) return null;
+	return result;
+}
+
 // Parse date from @date or @@datetime format, including natural language
-function parseDate(text: string, parseNatural: boolean = true): { 
+function parseDate(text: string, parseNatural: boolean = true, dateLocale?: string, dateFormats: string[] = []): { 
 	cleanText: string; 
 	dueDate?: string; 
 	dueTime?: string;
 	recurrence?: RecurrencePattern;
 	reminderTime?: string;
+	naturalDate?: { text: string; time: boolean };
 } {
 	let cleanText = text;
 	let dueDate: string | undefined;
 	let dueTime: string | undefined;
 	let recurrence: RecurrencePattern | undefined;
 	let reminderTime: string | undefined;
+	let naturalDate: { text: string; time: boolean } | undefined;
 
 	// Match @YYYY-MM-DD or @YYYY-MM-DDTHH:mm (ISO format takes priority)
 	const dateTimeMatch = text.match(/@(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/);
@@ -680,44 +1425,52 @@ function parseDate(text: string, parseNatural: boolean = true): {
 		cleanText = cleanText.replace(dateTimeMatch[0], '').trim();
 	}
 
-	// Match @@HH:mm for time-only
-	const timeOnlyMatch = text.match(/@@(\d{2}:\d{2})/);
+	// Dates in the board's date format(s), e.g. @15/01/2027
+	const formattedDate = dueDate ? null : findFormattedDate(text, dateFormats);
+	if (formattedDate) {
+		dueDate = formattedDate.date;
+		dueTime = formattedDate.time;
+		cleanText = cleanText.replace(formattedDate.matched, '').trim();
+	}
+
+	// Legacy obsidian-kanban dialect: @{2024-01-15} and @[[2024-01-15]], or in the board's date format
+	const legacyDate = dueDate ? null : findLegacyDate(text, dateFormats);
+	if (legacyDate) {
+		dueDate = legacyDate.date;
+		cleanText = cleanText.replace(legacyDate.matched, '').trim();
+	}
+
+	// Match @@HH:mm (or legacy @@{H:mm}) for time-only
+	const timeOnlyMatch = text.match(/@@\{?(\d{1,2}:\d{2})\}?/);
 	if (timeOnlyMatch && !dueTime) {
-		dueTime = timeOnlyMatch[1];
+		dueTime = timeOnlyMatch[1].padStart(5, '0');
 		cleanText = cleanText.replace(timeOnlyMatch[0], '').trim();
 	}
 
+	// Parse recurrence patterns first, so "last Friday of every month" is not read as a date
+	const { pattern, matched: recurMatched } = parseRecurrence(cleanText, dateLocale);
+	if (pattern && recurMatched) {
+		recurrence = pattern;
+		cleanText = cleanText.replace(recurMatched, '').trim();
+	}
+
 	// Parse natural language dates if enabled and no ISO date found
 	if (parseNatural && !dueDate) {
-		// Check for @natural-date format (e.g., @tomorrow, @next Monday)
-		const naturalDatePrefixMatch = text.match(/@(today|tomorrow|yesterday|next\s+\w+|this\s+\w+|last\s+\w+|in\s+\d+\s+\w+|\d+\s+\w+\s+ago|end\s+of\s+\w+)/i);
-		if (naturalDatePrefixMatch) {
-			const { date, matched } = parseNaturalDate(naturalDatePrefixMatch[1]);
-			if (date && matched) {
-				dueDate = date;
-				cleanText = cleanText.replace(`@${naturalDatePrefixMatch[1]}`, '').trim();
-			}
-		} else {
-			// Also try parsing without @ prefix for inline natural dates
-			const { date, matched } = parseNaturalDate(text);
-			if (date && matched) {
-				dueDate = date;
-				cleanText = cleanText.replace(matched, '').trim();
+		const natural = findTitleNaturalDate(cleanText, dateLocale);
+		if (natural) {
+			dueDate = natural.date!;
+			if (natural.time && !dueTime) {
+				dueTime = natural.time;
 			}
+			naturalDate = { text: natural.matched!, time: !!natural.time };
+			cleanText = cleanText.replace(natural.matched!, '').trim();
 		}
 	}
-
-	// Parse recurrence patterns
-	const { pattern, matched: recurMatched } = parseRecurrence(cleanText);
-	if (pattern && recurMatched) {
-		recurrence = pattern;
-		cleanText = cleanText.replace(recurMatched, '').trim();
-	}
 	
 	// Also check for [recur::pattern] metadata format
 	const recurMetaMatch = cleanText.match(/\[recur::([^\]]+)\]/);
 	if (recurMetaMatch && !recurrence) {
-		const { pattern: metaPattern } = parseRecurrence(recurMetaMatch[1]);
+		const { pattern: metaPattern } = parseRecurrence(recurMetaMatch[1], dateLocale);
 		if (metaPattern) {
 			recurrence = { ...metaPattern, _rawPattern: recurMetaMatch[1] };
 		} else {
@@ -734,11 +1487,11 @@ function parseDate(text: string, parseNatural: boolean = true): {
 		cleanText = cleanText.replace(remindMatch[0], '').trim();
 	}
 
-	return { cleanText, dueDate, dueTime, recurrence, reminderTime };
+	return { cleanText, dueDate, dueTime, recurrence, reminderTime, naturalDate };
 }
 
 // Parse a single card from markdown lines
-function parseCard(lines: string[], startIndex: number, parseNaturalDates: boolean = true): { card: KanbanCard | null; endIndex: number } {
+function parseCard(lines: string[], startIndex: number, parseNaturalDates: boolean = true, dateLocale?: string, dateFormats: string[] = []): { card: KanbanCard | null; endIndex: number } {
 	const line = lines[startIndex];
 	
 	// Match checkbox format: - [ ] or - [x]
@@ -765,11 +1518,43 @@ function parseCard(lines: string[], startIndex: number, parseNaturalDates: boole
 		delete metadata.note;
 	}
 	
+	// Tasks plugin emoji fields are taken out of the title like [key::value] metadata
+	const tasksFields = parseTasksEmojiFields(afterMetadata, dateLocale);
+	const titleText = tasksFields.cleanText;
+	for (const [key, value] of Object.entries(tasksFields.metadata)) {
+		if (metadata[key] === undefined) {
+			metadata[key] = value;
+		}
+	}
+
 	// Parse tags (keep in title, just extract list)
-	const { tags } = parseTags(afterMetadata);
+	const { tags } = parseTags(titleText);
 	
 	// Parse date (with natural language and recurrence support)
-	const { cleanText: finalTitle, dueDate, dueTime, recurrence, reminderTime } = parseDate(afterMetadata, parseNaturalDates);
+	const parsedDate = parseDate(titleText, parseNaturalDates && !tasksFields.dueDate, dateLocale, dateFormats);
+	const dueDate = parsedDate.dueDate || tasksFields.dueDate;
+	const dueTime = parsedDate.dueTime;
+	const inlineReminder = parsedDate.reminderTime;
+
+	// [recur::] and [remind::] were already taken out of the title as metadata; they are card fields
+	let recurrence = tasksFields.recurrence || parsedDate.recurrence;
+	if (!recurrence && metadata.recur !== undefined) {
+		const rawPattern = String(metadata.recur);
+		const { pattern } = parseRecurrence(rawPattern, dateLocale);
+		recurrence = { ...(pattern || { frequency: 'daily' }), _rawPattern: rawPattern };
+		delete metadata.recur;
+	}
+	let reminderTime = inlineReminder;
+	if (!reminderTime && metadata.remind !== undefined) {
+		reminderTime = String(metadata.remind);
+		delete metadata.remind;
+	}
+
+	// [start::] and 🛫 hold the start date, when it is a date (ISO, or in the board's date formats)
+	const startDate = metadata.start !== undefined ? readStoredDate(String(metadata.start), dateFormats) : undefined;
+	if (startDate) {
+		delete metadata.start;
+	}
 
 	// Parse card content (indented lines following the card)
 	// This includes notes (> lines), subtasks (- [ ] lines), and general content
@@ -820,16 +1605,10 @@ function parseCard(lines: string[], startIndex: number, parseNaturalDates: boole
 		// Check if it's a subtask (indented checkbox)
 		const subtaskMatch = contentLine.match(/^(\s+)-\s*\[([ xX])\]\s*(.*)$/);
 		if (subtaskMatch && subtaskMatch[1].length > cardIndent) {
-			const subtaskCompleted = subtaskMatch[2].toLowerCase() === 'x';
-			const subtaskText = subtaskMatch[3].trim();
-			const subtaskId = generateId();
-			
-			subtasks.push({
-				id: subtaskId,
-				text: subtaskText,
-				completed: subtaskCompleted,
-			});
-			contentLines.push(contentLine);
+			const subtask = parseSubtaskLine(contentLine)!;
+			subtasks.push(subtask);
+			// Give the subtask a block ID on disk so it stays addressable across reloads
+			contentLines.push(extractId(contentLine).id ? contentLine : `${contentLine.replace(/\s+$/, '')} ^${subtask.id}`);
 			endIndex = i;
 			continue;
 		}
@@ -847,9 +1626,10 @@ function parseCard(lines: string[], startIndex: number, parseNaturalDates: boole
 
 	const card: KanbanCard = {
 		id: existingId || generateId(),
-		title: afterMetadata, // Keep original with tags/dates for display control
+		title: titleText, // Keep original with tags/dates for display control
 		completed,
 		tags,
+		startDate,
 		dueDate,
 		dueTime,
 		recurrence,
@@ -860,13 +1640,161 @@ function parseCard(lines: string[], startIndex: number, parseNaturalDates: boole
 		subtasks: subtasks.length > 0 ? subtasks : undefined,
 		metadata,
 		_rawLine: line,
+		_rawText: lines.slice(startIndex, endIndex + 1).join('\n'),
+		_naturalDate: parsedDate.naturalDate,
 	};
+	card._rawSnapshot = snapshotCard(card);
 
 	return { card, endIndex };
 }
 
+// ============ Tasks Plugin Emoji Fields ============
+
+// Card fields the Tasks plugin writes as emoji, in the order it writes them
+type TasksField = 'priority' | 'recurrence' | 'start' | 'scheduled' | 'due' | 'done';
+const TASKS_FIELD_ORDER: TasksField[] = ['priority', 'recurrence', 'start', 'scheduled', 'due', 'done'];
+
+// Date signifiers; 'due' becomes card.dueDate and 'start' card.startDate, the others are kept as metadata
+const TASKS_DATE_EMOJI: Record<'start' | 'scheduled' | 'due' | 'done', string> = {
+	start: '🛫',
+	scheduled: '⏳',
+	due: '📅',
+	done: '✅',
+};
+
+// Priority signifiers (⏬ lowest has no equivalent and stays in the title)
+const TASKS_PRIORITY_EMOJI: Record<NonNullable<BaseTaskMetadata['priority']>, string> = {
+	urgent: '🔺',
+	high: '⏫',
+	medium: '🔼',
+	low: '🔽',
+};
+
+// Any signifier ends the recurrence text before it
+const TASKS_SIGNIFIER = '(?:📅|⏳|🛫|✅|➕|❌|🔺|⏫|🔼|🔽|⏬|🔁)';
+
+// Read Tasks plugin fields (📅 ⏳ 🛫 ✅ 🔁 and priority) out of a card title
+function parseTasksEmojiFields(text: string, dateLocale?: string): {
+	cleanText: string;
+	dueDate?: string;
+	recurrence?: RecurrencePattern;
+	metadata: BaseTaskMetadata;
+} {
+	const metadata: BaseTaskMetadata = {};
+	let cleanText = text;
+	let dueDate: string | undefined;
+	let recurrence: RecurrencePattern | undefined;
+
+	for (const [field, emoji] of Object.entries(TASKS_DATE_EMOJI)) {
+		const match = cleanText.match(new RegExp(`\\s*${emoji}\\uFE0F?\\s*(\\d{4}-\\d{2}-\\d{2})`));
+		if (!match) continue;
+		if (field === 'due') {
+			dueDate = match[1];
+		} else {
+			metadata[field] = match[1];
+		}
+		cleanText = cleanText.replace(match[0], '');
+	}
+
+	for (const [priority, emoji] of Object.entries(TASKS_PRIORITY_EMOJI)) {
+		const match = cleanText.match(new RegExp(`\\s*${emoji}\\uFE0F?`));
+		if (match) {
+			metadata.priority = priority as BaseTaskMetadata['priority'];
+			cleanText = cleanText.replace(match[0], '');
+			break;
+		}
+	}
+
+	// 🔁 runs until the next signifier, a tag or the end of the line
+	const recurMatch = cleanText.match(new RegExp(`\\s*🔁\\uFE0F?\\s*(.+?)\\s*(?=${TASKS_SIGNIFIER}|\\s#[\\w/-]|$)`));
+	if (recurMatch) {
+		const rawPattern = recurMatch[1];
+		const { pattern } = parseRecurrence(rawPattern, dateLocale);
+		recurrence = { ...(pattern || { frequency: 'daily' }), _rawPattern: rawPattern };
+		cleanText = cleanText.replace(recurMatch[0], '');
+	}
+
+	return { cleanText: cleanText.trim(), dueDate, recurrence, metadata };
+}
+
+// Emoji form of a metadata field, or null if it has to stay as [key::value]
+function tasksEmojiForMetadata(key: string, value: string | number): { field: TasksField; text: string } | null {
+	if (key === 'priority') {
+		const emoji = TASKS_PRIORITY_EMOJI[value as NonNullable<BaseTaskMetadata['priority']>];
+		return emoji ? { field: 'priority', text: emoji } : null;
+	}
+	if ((key === 'start' || key === 'scheduled' || key === 'done') && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+		return { field: key, text: `${TASKS_DATE_EMOJI[key]} ${value}` };
+	}
+	return null;
+}
+
+// ============ Change Detection ============
+
+/**
+ * Fingerprint every field that serializeCard writes, so an unchanged card
+ * can be written back from its raw text instead of being regenerated.
+ */
+export function snapshotCard(card: KanbanCard): string {
+	return JSON.stringify([
+		card.id,
+		card.title,
+		card.completed,
+		card.tags,
+		card.startDate,
+		card.dueDate,
+		card.dueTime,
+		card.recurrence,
+		card.reminderTime,
+		card.notes,
+		card.notePath,
+		card.content,
+		(card.subtasks || []).map(s => [s.id, s.text, s.completed, s.dueDate, s.assignee, s.weight]),
+		card.metadata,
+	]);
+}
+
+// Fingerprint of a lane's own structure (title, ID and card order)
+function snapshotLane(lane: KanbanLane): string {
+	return JSON.stringify([lane.id, lane.title, lane.cards.map(c => c.id)]);
+}
+
+// A card is untouched if it still matches the fingerprint taken at parse time.
+// A natural language due date still has to be pinned, so that card counts as changed.
+function isCardUnchanged(card: KanbanCard): boolean {
+	return !!card._rawText && !card._naturalDate && card._rawSnapshot === snapshotCard(card);
+}
+
+// A lane is untouched if its structure and every card in it are unchanged.
+// Cards or subtasks that were read without a ^id still need one written, so they count as changed.
+function isLaneUnchanged(lane: KanbanLane): boolean {
+	return !!lane._rawText &&
+		lane._rawSnapshot === snapshotLane(lane) &&
+		lane.cards.every(card => isCardUnchanged(card) && rawCardText(card, true) === card._rawText);
+}
+
+// Raw text of an unchanged card, with any block IDs assigned at parse time filled in
+function rawCardText(card: KanbanCard, includeId: boolean): string {
+	const rawText = card._rawText!;
+	const newlineIndex = rawText.indexOf('\n');
+	const firstLine = newlineIndex === -1 ? rawText : rawText.slice(0, newlineIndex);
+	const rest = card.content !== undefined ? `\n${card.content}` : (newlineIndex === -1 ? '' : rawText.slice(newlineIndex));
+	return (includeId ? ensureRawId(firstLine, card.id) : firstLine) + rest;
+}
+
+// Append a ^id marker to a raw first line that does not carry one yet
+function ensureRawId(rawText: string, id: string): string {
+	const newlineIndex = rawText.indexOf('\n');
+	const firstLine = newlineIndex === -1 ? rawText : rawText.slice(0, newlineIndex);
+	if (extractId(firstLine).id === id) {
+		return rawText;
+	}
+	const rest = newlineIndex === -1 ? '' : rawText.slice(newlineIndex);
+	return `${firstLine.replace(/\s+$/, '')} ^${id}${rest}`;
+}
+
 // Parse a lane section
-function parseLane(content: string): KanbanLane | null {
+function parseLane(content: string, dateLocale?: string, dateFormats: string[] = []): KanbanLane | null {
 	const lines = content.split('\n');
 	
 	// First line should be ## header
@@ -886,12 +1814,14 @@ function parseLane(content: string): KanbanLane | null {
 
 	// Parse cards
 	let i = 1;
+	let lastCardEnd = 0;
 	while (i < lines.length) {
 		const line = lines[i];
 		if (line.trim().startsWith('- [')) {
-			const { card, endIndex } = parseCard(lines, i);
+			const { card, endIndex } = parseCard(lines, i, true, dateLocale, dateFormats);
 			if (card) {
 				lane.cards.push(card);
+				lastCardEnd = endIndex;
 				i = endIndex + 1;
 				continue;
 			}
@@ -899,6 +1829,10 @@ function parseLane(content: string): KanbanLane | null {
 		i++;
 	}
 
+	// Raw text only covers the header and cards, trailing content is handled by the board
+	lane._rawText = lines.slice(0, lastCardEnd + 1).join('\n');
+	lane._rawSnapshot = snapshotLane(lane);
+
 	return lane;
 }
 
@@ -907,7 +1841,7 @@ function parseSettings(content: string): BoardSettings {
 	const settingsMatch = content.match(/%% kanban:settings\s*```(?:json)?\s*([\s\S]*?)\s*```\s*%%/);
 	if (settingsMatch) {
 		try {
-			return JSON.parse(settingsMatch[1]);
+			return normalizeLegacySettings(JSON.parse(settingsMatch[1]));
 		} catch {
 			console.warn('Failed to parse kanban settings JSON');
 			return {};
@@ -916,6 +1850,32 @@ function parseSettings(content: string): BoardSettings {
 	return {};
 }
 
+/**
+ * Read settings written by the original obsidian-kanban plugin:
+ * numeric lane-width, 'prepend-compact' insertion and date-display-format.
+ * Legacy keys without an equivalent are left untouched.
+ */
+export function normalizeLegacySettings(settings: Record<string, unknown>): BoardSettings {
+	const result: Record<string, unknown> = { ...settings };
+
+	if (typeof result['lane-width'] === 'number') {
+		result['lane-width'] = `${result['lane-width']}px`;
+	}
+
+	if (result['new-card-insertion-method'] === 'prepend-compact') {
+		result['new-card-insertion-method'] = 'prepend';
+	}
+
+	// Legacy date-format is the storage format; only take over the display format when storage is ISO
+	const storageFormat = result['date-format'];
+	if (typeof result['date-display-format'] === 'string' && (storageFormat === undefined || storageFormat === 'YYYY-MM-DD')) {
+		result['date-format'] = result['date-display-format'];
+		delete result['date-display-format'];
+	}
+
+	return result as BoardSettings;
+}
+
 // Extract frontmatter
 function extractFrontmatter(content: string): { frontmatter: string; body: string } {
 	const match = content.match(/^(---\s*\n[\s\S]*?\n---\s*\n?)/);
@@ -978,9 +1938,67 @@ function findLaneContentEnd(sectionContent: string): number {
 	return charPos;
 }
 
+/**
+ * Options for reading a board. Board settings take precedence over these plugin-wide defaults.
+ */
+export interface ParseOptions {
+	dateLocale?: string;        // Locale pack for natural dates and recurrence (see DateLocales.ts)
+	dateFormat?: string;        // Date format, read in addition to ISO dates
+	dateInputFormats?: string[];  // Further formats accepted when reading dates
+}
+
+/**
+ * Options for writing a board. Board settings take precedence over these plugin-wide defaults.
+ */
+export interface SerializeOptions extends ParseOptions {
+	dateSerializationFormat?: DateSerializationFormat;
+}
+
+// How card dates are written back: writeFormat is null for ISO
+interface DateStorage {
+	writeFormat: string | null;
+	readFormats: string[];
+}
+
+const ISO_DATE_STORAGE: DateStorage = { writeFormat: null, readFormats: [] };
+
+// Dates are written in the date format only when asked to, and it is not ISO already
+function getDateStorage(settings: BoardSettings, options: SerializeOptions): DateStorage {
+	const dateFormat = settings['date-format'] || options.dateFormat;
+	const serialization = settings['date-serialization-format'] || options.dateSerializationFormat || 'iso';
+	return {
+		writeFormat: serialization === 'date-format' && dateFormat && dateFormat !== 'YYYY-MM-DD' ? dateFormat : null,
+		readFormats: getAcceptedDateFormats(settings, options),
+	};
+}
+
+/**
+ * Formats other than ISO that card dates may be written in, the date format first
+ */
+export function getAcceptedDateFormats(settings: BoardSettings, options: ParseOptions = {}): string[] {
+	const formats = [
+		settings['date-format'] || options.dateFormat,
+		...(settings['date-input-formats'] || options.dateInputFormats || []),
+	];
+	return formats.filter((format, index): format is string =>
+		!!format && format !== 'YYYY-MM-DD' && formats.indexOf(format) === index);
+}
+
+// Line breaks between a section and the content before it, if there is any
+function readRawGap(body: string, start: number): string | undefined {
+	const before = body.slice(0, start);
+	if (!before.trim()) return undefined;
+	return before.match(/\n\s*$/)?.[0];
+}
+
 // Main parser function
-export function parseKanbanBoard(markdown: string): KanbanBoard {
+export function parseKanbanBoard(markdown: string, options: ParseOptions = {}): KanbanBoard {
 	const { frontmatter, body } = extractFrontmatter(markdown);
+
+	// Settings first, since the board's date locale decides how cards are read
+	const settings = parseSettings(body);
+	const dateLocale = settings['date-locale'] || options.dateLocale;
+	const dateFormats = getAcceptedDateFormats(settings, options);
 	
 	// Find lane sections
 	const laneSectionRegex = /^## .+$/gm;
@@ -1013,6 +2031,7 @@ export function parseKanbanBoard(markdown: string): KanbanBoard {
 	// Parse lanes
 	const lanes: KanbanLane[] = [];
 	let archive: KanbanCard[] = [];
+	let rawArchive: KanbanLane | undefined;
 	let preSettingsContent = ''; // Content between last lane and settings block
 
 	for (let i = 0; i < laneMatches.length; i++) {
@@ -1043,13 +2062,16 @@ export function parseKanbanBoard(markdown: string): KanbanBoard {
 
 		// Check if this is the archive section
 		if (headerText.match(/^##\s+Archive\s*$/i)) {
-			const archiveLane = parseLane(sectionContent);
+			const archiveLane = parseLane(sectionContent, dateLocale, dateFormats);
 			if (archiveLane) {
+				archiveLane._rawGap = readRawGap(body, start);
 				archive = archiveLane.cards;
+				rawArchive = archiveLane;
 			}
 		} else {
-			const lane = parseLane(sectionContent);
+			const lane = parseLane(sectionContent, dateLocale, dateFormats);
 			if (lane) {
+				lane._rawGap = readRawGap(body, start);
 				lanes.push(lane);
 			}
 		}
@@ -1071,8 +2093,6 @@ export function parseKanbanBoard(markdown: string): KanbanBoard {
 		}
 	}
 
-	const settings = parseSettings(body);
-
 	return {
 		lanes,
 		archive,
@@ -1081,16 +2101,312 @@ export function parseKanbanBoard(markdown: string): KanbanBoard {
 		_headerContent: headerContent,
 		_footerContent: footerContent,
 		_preSettingsContent: preSettingsContent,
+		_rawArchive: rawArchive,
+		_rawSettings: settingsMatch ? settingsMatch[0] : undefined,
+		_rawSettingsSnapshot: settingsMatch ? JSON.stringify(settings) : undefined,
+		_rawSettingsGap: settingsMatch ? readRawGap(body, settingsStart) : undefined,
 	};
 }
 
+// ============ Board Diagnostics ============
+
+// Check that an ISO date (and optional time) describes a real calendar moment
+function isValidDateTime(date: string, time?: string): boolean {
+	const parsed = new Date(`${date}T00:00:00`);
+	if (isNaN(parsed.getTime()) || formatISODate(parsed) !== date) return false;
+	if (time) {
+		const [hours, minutes] = time.split(':').map(Number);
+		if (hours > 23 || minutes > 59) return false;
+	}
+	return true;
+}
+
+/**
+ * Lint a board file and return structured diagnostics with 1-based line numbers.
+ * Reports duplicate ^ids, unparseable dates, invalid settings JSON, stray content
+ * and lane-configs entries that no longer match any lane. This reads every card again,
+ * so it runs when a board is opened or validated rather than on every parse.
+ */
+export function lintKanbanBoard(markdown: string, options: ParseOptions = {}): BoardDiagnostic[] {
+	const diagnostics: BoardDiagnostic[] = [];
+	const { frontmatter, body } = extractFrontmatter(markdown);
+	const boardSettings = parseSettings(body);
+	const dateLocale = boardSettings['date-locale'] || options.dateLocale;
+	const dateFormats = getAcceptedDateFormats(boardSettings, options);
+	const lineOffset = frontmatter ? frontmatter.split('\n').length - (frontmatter.endsWith('\n') ? 1 : 0) : 0;
+	const lines = body.split('\n');
+
+	// Locate the settings block by line
+	let settingsStartLine = -1;
+	let settingsEndLine = -1;
+	const settingsMatch = body.match(/%% kanban:settings[\s\S]*?%%/);
+	if (settingsMatch && settingsMatch.index !== undefined) {
+		settingsStartLine = body.slice(0, settingsMatch.index).split('\n').length - 1;
+		settingsEndLine = settingsStartLine + settingsMatch[0].split('\n').length - 1;
+	}
+
+	const laneStarts: number[] = [];
+	lines.forEach((line, index) => {
+		const inSettings = settingsStartLine !== -1 && index >= settingsStartLine && index <= settingsEndLine;
+		if (!inSettings && line.match(/^## .+$/)) {
+			laneStarts.push(index);
+		}
+	});
+
+	const seenIds = new Map<string, number>();
+	const recordId = (id: string | null, index: number) => {
+		if (!id) return;
+		const firstLine = seenIds.get(id);
+		if (firstLine !== undefined) {
+			diagnostics.push({
+				line: index + lineOffset + 1,
+				severity: 'error',
+				code: 'duplicate-id',
+				message: `Duplicate ID ^${id} (first used on line ${firstLine})`,
+				fixable: true,
+			});
+		} else {
+			seenIds.set(id, index + lineOffset + 1);
+		}
+	};
+
+	const laneKeys = new Set<string>();
+
+	for (let l = 0; l < laneStarts.length; l++) {
+		const start = laneStarts[l];
+		const isLastLane = l === laneStarts.length - 1;
+		let end = lines.length;
+		if (!isLastLane) {
+			end = laneStarts[l + 1];
+		} else if (settingsStartLine > start) {
+			end = settingsStartLine;
+		}
+
+		const sectionLines = lines.slice(start, end);
+		const { content: laneTitle, id: laneId } = extractId(sectionLines[0].replace(/^##\s+/, '').trim());
+		laneKeys.add(laneTitle);
+		if (laneId) laneKeys.add(laneId);
+		recordId(laneId, start);
+
+		// Walk the section the same way parseLane does, collecting stray blocks
+		const strayBlocks: { from: number; to: number }[] = [];
+		let lastCardEnd = 0;
+		let i = 1;
+		while (i < sectionLines.length) {
+			const line = sectionLines[i];
+			if (line.trim().startsWith('- [')) {
+				const { card, endIndex } = parseCard(sectionLines, i, true, dateLocale, dateFormats);
+				if (card) {
+					const lineIndex = start + i;
+					recordId(extractId(line.trim()).id, lineIndex);
+					for (let j = i + 1; j <= endIndex; j++) {
+						if (SUBTASK_LINE_REGEX.test(sectionLines[j])) {
+							recordId(extractId(sectionLines[j]).id, start + j);
+						}
+					}
+
+					if (card.dueDate && !isValidDateTime(card.dueDate, card.dueTime)) {
+						diagnostics.push({
+							line: lineIndex + lineOffset + 1,
+							severity: 'warning',
+							code: 'invalid-date',
+							message: `Invalid due date "${card.dueDate}${card.dueTime ? ' ' + card.dueTime : ''}"`,
+						});
+					}
+
+					const leftover = parseDate(card.title, true, dateLocale, dateFormats).cleanText.match(/(?:^|\s)(@{1,2}[^\s@]\S*)/);
+					if (leftover) {
+						diagnostics.push({
+							line: lineIndex + lineOffset + 1,
+							severity: 'warning',
+							code: 'invalid-date',
+							message: `Could not parse date "${leftover[1]}"`,
+						});
+					}
+
+					lastCardEnd = endIndex;
+					i = endIndex + 1;
+					continue;
+				}
+			}
+			if (line.trim() !== '') {
+				const previous = strayBlocks[strayBlocks.length - 1];
+				if (previous && previous.to === i - 1) {
+					previous.to = i;
+				} else {
+					strayBlocks.push({ from: i, to: i });
+				}
+			}
+			i++;
+		}
+
+		for (const block of strayBlocks) {
+			// Trailing text in the last lane is kept, but moved out of the lane on save
+			const keptOutside = isLastLane && block.from > lastCardEnd;
+			diagnostics.push({
+				line: start + block.from + lineOffset + 1,
+				severity: keptOutside ? 'info' : 'warning',
+				code: 'stray-content',
+				message: keptOutside
+					? `Text after the last card of "${laneTitle}" is kept outside the board`
+					: `Text in "${laneTitle}" is not part of any card and may be lost when the lane is edited`,
+			});
+		}
+	}
+
+	// Settings JSON
+	if (settingsStartLine !== -1) {
+		const settingsLine = settingsStartLine + lineOffset + 1;
+		const jsonMatch = body.match(/%% kanban:settings\s*```(?:json)?\s*([\s\S]*?)\s*```\s*%%/);
+		let settings: BoardSettings | null = null;
+		if (!jsonMatch) {
+			diagnostics.push({
+				line: settingsLine,
+				severity: 'error',
+				code: 'invalid-settings',
+				message: 'Board settings block is missing its ``` fence',
+			});
+		} else {
+			try {
+				settings = JSON.parse(jsonMatch[1]);
+			} catch (e) {
+				diagnostics.push({
+					line: settingsLine,
+					severity: 'error',
+					code: 'invalid-settings',
+					message: `Board settings are not valid JSON: ${e instanceof Error ? e.message : String(e)}`,
+				});
+			}
+		}
+
+		const laneConfigs = settings?.['lane-configs'] || {};
+		for (const key of Object.keys(laneConfigs)) {
+			if (laneKeys.has(key)) continue;
+			// Point at the key inside the settings block when we can find it
+			let keyLine = settingsStartLine;
+			for (let j = settingsStartLine; j <= settingsEndLine; j++) {
+				if (lines[j].includes(JSON.stringify(key))) {
+					keyLine = j;
+					break;
+				}
+			}
+			diagnostics.push({
+				line: keyLine + lineOffset + 1,
+				severity: 'warning',
+				code: 'orphaned-lane-config',
+				message: `Lane config "${key}" does not match any lane`,
+				fixable: true,
+			});
+		}
+	}
+
+	return diagnostics.sort((a, b) => a.line - b.line);
+}
+
+/** Give lanes, cards and subtasks that share an ID a fresh one (first occurrence keeps it). Returns the number changed. */
+export function regenerateDuplicateIds(board: KanbanBoard): number {
+	const claimer = createIdClaimer(new Set());
+	for (const lane of board.lanes) {
+		claimer.claim(lane);
+		lane.cards.forEach(claimer.claimCard);
+	}
+	board.archive.forEach(claimer.claimCard);
+	return claimer.changed();
+}
+
+/**
+ * Give cards (and the lane they come in) moving to another board new IDs wherever
+ * they clash with IDs already on that board. Returns the number of IDs replaced.
+ */
+export function regenerateClashingIds(board: KanbanBoard, cards: KanbanCard[], lane?: KanbanLane): number {
+	const seen = new Set<string>();
+	const addCard = (card: KanbanCard) => {
+		seen.add(card.id);
+		card.subtasks?.forEach(subtask => seen.add(subtask.id));
+	};
+	for (const boardLane of board.lanes) {
+		seen.add(boardLane.id);
+		boardLane.cards.forEach(addCard);
+	}
+	board.archive.forEach(addCard);
+
+	const claimer = createIdClaimer(seen);
+	if (lane) claimer.claim(lane);
+	cards.forEach(claimer.claimCard);
+	return claimer.changed();
+}
+
+// Claims IDs in order, giving anything whose ID was claimed before a new one
+function createIdClaimer(seen: Set<string>): { claim: (item: { id: string }) => void; claimCard: (card: KanbanCard) => void; changed: () => number } {
+	let changed = 0;
+	const claim = (item: { id: string }) => {
+		if (seen.has(item.id)) {
+			item.id = generateId();
+			changed++;
+		}
+		seen.add(item.id);
+	};
+
+	// Subtask IDs live in the card content, so rewrite the lines and re-read them
+	const claimCard = (card: KanbanCard) => {
+		claim(card);
+		if (card.content) {
+			card.content = card.content
+				.split('\n')
+				.map(line => {
+					const { content, id } = extractId(line);
+					if (!id || !SUBTASK_LINE_REGEX.test(line)) return line;
+					const subtask = { id };
+					claim(subtask);
+					return subtask.id === id ? line : `${content} ^${subtask.id}`;
+				})
+				.join('\n');
+			const subtasks = parseSubtasksFromContent(card.content);
+			card.subtasks = subtasks.length > 0 ? subtasks : undefined;
+		} else {
+			card.subtasks?.forEach(claim);
+		}
+	};
+
+	return { claim, claimCard, changed: () => changed };
+}
+
+/** Remove lane-configs entries that match neither a lane title nor a lane ID. Returns the number removed. */
+export function removeOrphanedLaneConfigs(board: KanbanBoard): number {
+	const laneConfigs = board.settings['lane-configs'];
+	if (!laneConfigs) return 0;
+
+	const laneKeys = new Set<string>();
+	for (const lane of board.lanes) {
+		laneKeys.add(lane.title);
+		laneKeys.add(lane.id);
+	}
+
+	let removed = 0;
+	for (const key of Object.keys(laneConfigs)) {
+		if (!laneKeys.has(key)) {
+			delete laneConfigs[key];
+			removed++;
+		}
+	}
+	return removed;
+}
+
 // Serialize a card to markdown
-function serializeCard(card: KanbanCard, includeId: boolean = true, serializationFormat: 'iso' | 'natural' = 'iso'): string {
+function serializeCard(card: KanbanCard, includeId: boolean = true, fieldSyntax: FieldSyntax = 'dataview', dateStorage: DateStorage = ISO_DATE_STORAGE): string {
+	// Untouched cards are written back exactly as they were read
+	if (isCardUnchanged(card)) {
+		return rawCardText(card, includeId);
+	}
+
 	const checkbox = card.completed ? '[x]' : '[ ]';
-	let content = card.title;
+	const useTasksSyntax = fieldSyntax === 'tasks';
+	let content = rewriteTitleDate(card, dateStorage, useTasksSyntax);
+	const dueDateText = card.dueDate ? formatStoredDate(card.dueDate, dateStorage) : undefined;
 
 	// Add metadata that's not in title
 	const metadataToAdd: string[] = [];
+	const tasksFields: Partial<Record<TasksField, string>> = {};
 	
 	if (card.metadata.progress !== undefined && !content.includes('progress::')) {
 		metadataToAdd.push(`[progress::${card.metadata.progress}%]`);
@@ -1104,21 +2420,38 @@ function serializeCard(card: KanbanCard, includeId: boolean = true, serializatio
 		metadataToAdd.push(`[note::${card.notePath}]`);
 	}
 	
-	// Add recurrence as [recur::pattern] if present and not already in title
+	// Add recurrence as [recur::pattern] (or 🔁 pattern) if present and not already in title
 	if (card.recurrence && !content.includes('recur::') && !content.match(/\b(daily|weekly|monthly|yearly|every\s)/i)) {
 		const recurStr = serializeRecurrence(card.recurrence);
-		metadataToAdd.push(`[recur::${recurStr}]`);
+		if (useTasksSyntax) {
+			tasksFields.recurrence = `🔁 ${recurStr}`;
+		} else {
+			metadataToAdd.push(`[recur::${recurStr}]`);
+		}
 	}
 	
 	// Add reminder time if present and not already in title
 	if (card.reminderTime && !content.includes('remind::')) {
 		metadataToAdd.push(`[remind::${card.reminderTime}]`);
 	}
+
+	// Add start date as [start::date] (or 🛫 date, which the Tasks plugin only reads as ISO)
+	// if present and not already in title
+	if (card.startDate && !content.includes('start::')) {
+		if (useTasksSyntax) {
+			tasksFields.start = `${TASKS_DATE_EMOJI.start} ${card.startDate}`;
+		} else {
+			metadataToAdd.push(`[start::${formatStoredDate(card.startDate, dateStorage)}]`);
+		}
+	}
 	
 	// Add other metadata
 	for (const [key, value] of Object.entries(card.metadata)) {
 		if (key !== 'progress' && key !== 'project' && value !== undefined) {
-			if (!content.includes(`${key}::`)) {
+			const emoji = useTasksSyntax ? tasksEmojiForMetadata(key, value) : null;
+			if (emoji) {
+				tasksFields[emoji.field] = emoji.text;
+			} else if (!content.includes(`${key}::`)) {
 				metadataToAdd.push(`[${key}::${value}]`);
 			}
 		}
@@ -1129,11 +2462,25 @@ function serializeCard(card: KanbanCard, includeId: boolean = true, serializatio
 	}
 
 	// Add due date/time if not in title
-	if (!content.includes('@')) {
-		if (card.dueDate && card.dueTime) {
-			content = `${content} @${card.dueDate}T${card.dueTime}`;
-		} else if (card.dueDate) {
-			content = `${content} @${card.dueDate}`;
+	if (useTasksSyntax) {
+		// The Tasks plugin only reads fields at the end of the line, and has no due times
+		if (!content.includes('@')) {
+			if (card.dueTime) {
+				content = `${content} @@${card.dueTime}`;
+			}
+			if (card.dueDate) {
+				tasksFields.due = `${TASKS_DATE_EMOJI.due} ${card.dueDate}`;
+			}
+		}
+		const emojiParts = TASKS_FIELD_ORDER.filter(field => tasksFields[field]).map(field => tasksFields[field]);
+		if (emojiParts.length > 0) {
+			content = `${content} ${emojiParts.join(' ')}`;
+		}
+	} else if (!content.includes('@')) {
+		if (dueDateText && card.dueTime) {
+			content = `${content} @${dueDateText}T${card.dueTime}`;
+		} else if (dueDateText) {
+			content = `${content} @${dueDateText}`;
 		} else if (card.dueTime) {
 			// Time-only: use @@ syntax
 			content = `${content} @@${card.dueTime}`;
@@ -1159,8 +2506,7 @@ function serializeCard(card: KanbanCard, includeId: boolean = true, serializatio
 		// Add subtasks
 		if (card.subtasks && card.subtasks.length > 0) {
 			for (const subtask of card.subtasks) {
-				const subtaskCheckbox = subtask.completed ? '[x]' : '[ ]';
-				contentParts.push(`\t- ${subtaskCheckbox} ${subtask.text}`);
+				contentParts.push(`\t${serializeSubtask(subtask)}`);
 			}
 		}
 		
@@ -1178,45 +2524,136 @@ function serializeCard(card: KanbanCard, includeId: boolean = true, serializatio
 	return result;
 }
 
+// ISO date in the board's storage format
+function formatStoredDate(isoDate: string, dateStorage: DateStorage): string {
+	return dateStorage.writeFormat ? formatDateForStorage(isoDate, dateStorage.writeFormat) || isoDate : isoDate;
+}
+
+// Card title with its @date token written as the card's due date, in the board's storage format
+function rewriteTitleDate(card: KanbanCard, dateStorage: DateStorage, useTasksSyntax: boolean): string {
+	if (!card.dueDate) return card.title;
+
+	const isoMatch = card.title.match(/@\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?/);
+	const formatted = isoMatch ? null : findFormattedDate(card.title, dateStorage.readFormats);
+	const token = isoMatch ? isoMatch[0] : formatted?.matched;
+	if (!token) return pinNaturalDate(card, dateStorage, useTasksSyntax);
+
+	const hasTime = isoMatch ? !!isoMatch[1] : !!formatted?.time;
+	const time = hasTime && card.dueTime ? `T${card.dueTime}` : '';
+	return card.title.replace(token, `@${formatStoredDate(card.dueDate, dateStorage)}${time}`);
+}
+
+// Card title with its natural language due date ("tomorrow") written as the date it was read as,
+// so it doesn't move on. With Tasks fields the words are taken out for the 📅 field instead.
+function pinNaturalDate(card: KanbanCard, dateStorage: DateStorage, useTasksSyntax: boolean): string {
+	const natural = card._naturalDate;
+	const index = natural ? card.title.indexOf(natural.text) : -1;
+	if (!natural || index === -1) return card.title;
+
+	const before = card.title.slice(0, index).trimEnd();
+	const after = card.title.slice(index + natural.text.length).trimStart();
+	const time = natural.time && card.dueTime ? `T${card.dueTime}` : '';
+	const token = useTasksSyntax ? '' : `@${formatStoredDate(card.dueDate!, dateStorage)}${time}`;
+	return [before, token, after].filter(part => part).join(' ');
+}
+
+// ============ Subtasks ============
+
+const SUBTASK_LINE_REGEX = /^\s*-\s*\[([ xX])\]\s*(.*)$/;
+
+/**
+ * Parse a single subtask line: `- [ ] text @YYYY-MM-DD [assignee::name] [weight::n] ^id`
+ */
+export function parseSubtaskLine(line: string): Subtask | null {
+	const match = line.match(SUBTASK_LINE_REGEX);
+	if (!match) return null;
+
+	const { content, id } = extractId(match[2].trim());
+	const subtask: Subtask = {
+		id: id || generateId(),
+		text: content,
+		completed: match[1].toLowerCase() === 'x',
+	};
+
+	let text = content;
+	const metadataRegex = /\[(assignee|weight)::([^\]]+)\]/gi;
+	let metaMatch;
+	while ((metaMatch = metadataRegex.exec(content)) !== null) {
+		const value = metaMatch[2].trim();
+		if (metaMatch[1].toLowerCase() === 'assignee') {
+			subtask.assignee = value;
+		} else {
+			const weight = parseFloat(value);
+			if (!isNaN(weight)) subtask.weight = weight;
+		}
+		text = text.replace(metaMatch[0], '');
+	}
+
+	const dateMatch = text.match(/@(\d{4}-\d{2}-\d{2})/);
+	if (dateMatch) {
+		subtask.dueDate = dateMatch[1];
+		text = text.replace(dateMatch[0], '');
+	}
+
+	subtask.text = text.replace(/\s+/g, ' ').trim();
+	return subtask;
+}
+
+/**
+ * Serialize a subtask to a list line (without indentation)
+ */
+export function serializeSubtask(subtask: Subtask): string {
+	const parts = [`- [${subtask.completed ? 'x' : ' '}]`, subtask.text];
+	if (subtask.dueDate) parts.push(`@${subtask.dueDate}`);
+	if (subtask.assignee) parts.push(`[assignee::${subtask.assignee}]`);
+	if (subtask.weight !== undefined) parts.push(`[weight::${subtask.weight}]`);
+	parts.push(`^${subtask.id}`);
+	return parts.join(' ');
+}
+
 /**
  * Parse subtasks from content string
  */
 export function parseSubtasksFromContent(content: string): Subtask[] {
 	const subtasks: Subtask[] = [];
-	const lines = content.split('\n');
-	
-	for (const line of lines) {
-		const match = line.match(/^\s*-\s*\[([ xX])\]\s*(.*)$/);
-		if (match) {
-			subtasks.push({
-				id: generateId(),
-				text: match[2].trim(),
-				completed: match[1].toLowerCase() === 'x',
-			});
+
+	for (const line of content.split('\n')) {
+		const subtask = parseSubtaskLine(line);
+		if (subtask) {
+			subtasks.push(subtask);
 		}
 	}
-	
+
 	return subtasks;
 }
 
 /**
- * Update subtask completion in content string
+ * Append a block ID to every subtask line in content that does not have one
+ */
+export function assignSubtaskIds(content: string): string {
+	return content
+		.split('\n')
+		.map(line => {
+			if (!SUBTASK_LINE_REGEX.test(line) || extractId(line).id) return line;
+			return `${line.replace(/\s+$/, '')} ^${generateId()}`;
+		})
+		.join('\n');
+}
+
+/**
+ * Update subtask completion in content string, addressing the subtask by its block ID
  */
-export function updateSubtaskInContent(content: string, subtaskIndex: number, completed: boolean): string {
+export function updateSubtaskInContent(content: string, subtaskId: string, completed: boolean): string {
 	const lines = content.split('\n');
-	let subtaskCount = 0;
-	
+
 	for (let i = 0; i < lines.length; i++) {
 		const match = lines[i].match(/^(\s*-\s*\[)([ xX])(\]\s*.*)$/);
-		if (match) {
-			if (subtaskCount === subtaskIndex) {
-				lines[i] = `${match[1]}${completed ? 'x' : ' '}${match[3]}`;
-				break;
-			}
-			subtaskCount++;
+		if (match && extractId(lines[i]).id === subtaskId) {
+			lines[i] = `${match[1]}${completed ? 'x' : ' '}${match[3]}`;
+			break;
 		}
 	}
-	
+
 	return lines.join('\n');
 }
 
@@ -1224,7 +2661,7 @@ export function updateSubtaskInContent(content: string, subtaskIndex: number, co
  * Add a subtask to content string
  */
 export function addSubtaskToContent(content: string | undefined, subtaskText: string): string {
-	const newSubtask = `\t- [ ] ${subtaskText}`;
+	const newSubtask = `\t- [ ] ${subtaskText} ^${generateId()}`;
 	
 	if (!content || content.trim() === '') {
 		return newSubtask;
@@ -1233,13 +2670,36 @@ export function addSubtaskToContent(content: string | undefined, subtaskText: st
 	return content + '\n' + newSubtask;
 }
 
+/**
+ * Share of a card's subtask work that is done (0-100), weighting each subtask by [weight::n]
+ */
+export function getSubtaskProgress(subtasks: Subtask[]): number {
+	const total = subtasks.reduce((sum, s) => sum + (s.weight ?? 1), 0);
+	if (total <= 0) return 0;
+	const done = subtasks.filter(s => s.completed).reduce((sum, s) => sum + (s.weight ?? 1), 0);
+	return Math.round((done / total) * 100);
+}
+
 // Serialize a lane to markdown
-function serializeLane(lane: KanbanLane, includeIds: boolean = true): string {
+function serializeLane(lane: KanbanLane, includeIds: boolean = true, fieldSyntax: FieldSyntax = 'dataview', dateStorage: DateStorage = ISO_DATE_STORAGE): string {
 	const idMarker = includeIds ? ` ^${lane.id}` : '';
-	const lines = [`## ${lane.title}${idMarker}`, ''];
+	const headerHasId = !!lane._rawHeader && extractId(lane._rawHeader).id === lane.id;
+
+	// Untouched lane: reuse the original block, including blank lines between cards
+	if (includeIds && headerHasId && isLaneUnchanged(lane)) {
+		return `${lane._rawText}\n`;
+	}
+
+	// Keep the original header line if only the cards changed
+	const rawTitleMatch = lane._rawHeader?.match(/^##\s+(.+)$/);
+	const titleUnchanged = !!rawTitleMatch && extractId(rawTitleMatch[1].trim()).content === lane.title;
+	const header = includeIds && headerHasId && titleUnchanged
+		? lane._rawHeader!
+		: `## ${lane.title}${idMarker}`;
+	const lines = [header, ''];
 	
 	for (const card of lane.cards) {
-		lines.push(serializeCard(card, includeIds));
+		lines.push(serializeCard(card, includeIds, fieldSyntax, dateStorage));
 	}
 	
 	lines.push('');
@@ -1255,24 +2715,37 @@ function serializeSettings(settings: BoardSettings): string {
 }
 
 // Serialize archive section
-function serializeArchive(archive: KanbanCard[], includeIds: boolean = true): string {
+function serializeArchive(archive: KanbanCard[], rawArchive: KanbanLane | undefined, includeIds: boolean = true, fieldSyntax: FieldSyntax = 'dataview', dateStorage: DateStorage = ISO_DATE_STORAGE): string {
 	if (archive.length === 0) return '';
+
+	// Untouched archive: reuse the original section
+	if (rawArchive && isLaneUnchanged({ ...rawArchive, cards: archive })) {
+		return `${rawArchive._rawText}\n`;
+	}
 	
 	const lines = ['## Archive', ''];
 	for (const card of archive) {
-		lines.push(serializeCard(card, includeIds));
+		lines.push(serializeCard(card, includeIds, fieldSyntax, dateStorage));
 	}
 	lines.push('');
 	return lines.join('\n');
 }
 
+// Put the next part after the line breaks that were before it when the board was read
+function pushRawGap(parts: string[], gap: string | undefined): void {
+	if (!gap) return;
+	const text = parts.join('\n').replace(/\n*$/, '');
+	parts.splice(0, parts.length, text + gap.slice(1));
+}
+
 // Main serializer function - preserves original content
-export function serializeKanbanBoard(board: KanbanBoard): string {
+export function serializeKanbanBoard(board: KanbanBoard, options: SerializeOptions = {}): string {
 	const parts: string[] = [];
 
-	// Frontmatter (ensure kanban key exists)
+	// Frontmatter (ensure kanban key exists). Trailing blank lines are normalized so
+	// repeated saves do not keep adding empty lines after the closing ---
 	const frontmatter = ensureKanbanFrontmatter(board._frontmatter || '');
-	parts.push(frontmatter);
+	parts.push(frontmatter.replace(/\s*$/, '\n'));
 
 	// Header content (preserved)
 	if (board._headerContent) {
@@ -1281,13 +2754,17 @@ export function serializeKanbanBoard(board: KanbanBoard): string {
 	}
 
 	// Lanes
+	const fieldSyntax = board.settings['field-syntax'] || 'dataview';
+	const dateStorage = getDateStorage(board.settings, options);
 	for (const lane of board.lanes) {
-		parts.push(serializeLane(lane));
+		pushRawGap(parts, lane._rawGap);
+		parts.push(serializeLane(lane, true, fieldSyntax, dateStorage));
 	}
 
 	// Archive
 	if (board.archive.length > 0) {
-		parts.push(serializeArchive(board.archive));
+		pushRawGap(parts, board._rawArchive?._rawGap);
+		parts.push(serializeArchive(board.archive, board._rawArchive, true, fieldSyntax, dateStorage));
 	}
 
 	// Pre-settings content (preserved - content between last lane and settings block)
@@ -1296,10 +2773,15 @@ export function serializeKanbanBoard(board: KanbanBoard): string {
 		parts.push('');
 	}
 
-	// Settings
-	const settingsBlock = serializeSettings(board.settings);
-	if (settingsBlock) {
-		parts.push(settingsBlock);
+	// Settings, as they were read while unchanged
+	if (board._rawSettings && board._rawSettingsSnapshot === JSON.stringify(board.settings)) {
+		pushRawGap(parts, board._rawSettingsGap);
+		parts.push(`${board._rawSettings}\n`);
+	} else {
+		const settingsBlock = serializeSettings(board.settings);
+		if (settingsBlock) {
+			parts.push(settingsBlock);
+		}
 	}
 
 	// Footer content (preserved)
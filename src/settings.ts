@@ -1,6 +1,7 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type KanbanPlugin from './main';
-import { KanbanPluginSettings, DEFAULT_SETTINGS, DEFAULT_BASE_SYNC_CONFIG, DEFAULT_GPT_TASK_MANAGER_CONFIG, GPT_TASK_MANAGER_LANE_MAPPING, ConflictResolution } from './types';
+import { KanbanPluginSettings, DateSerializationFormat, DEFAULT_SETTINGS, DEFAULT_BASE_SYNC_CONFIG, DEFAULT_GPT_TASK_MANAGER_CONFIG, GPT_TASK_MANAGER_LANE_MAPPING, ConflictResolution } from './types';
+import { DATE_LOCALES } from './DateLocales';
 
 export class KanbanSettingTab extends PluginSettingTab {
 	plugin: KanbanPlugin;
@@ -218,6 +219,40 @@ export class KanbanSettingTab extends PluginSettingTab {
 					})
 			);
 
+		const globalPresets = this.plugin.settings['filter-presets'];
+		new Setting(containerEl)
+			.setName('Filter presets for all boards')
+			.setDesc(globalPresets.length > 0
+				? 'Saved from the Presets menu of the filter toolbar.'
+				: 'None yet. Save the filter of any board for all boards from the Presets menu of its filter toolbar.');
+		for (const preset of globalPresets) {
+			new Setting(containerEl)
+				.setName(preset.name)
+				.addExtraButton((button) =>
+					button
+						.setIcon('trash')
+						.setTooltip('Delete preset')
+						.onClick(async () => {
+							this.plugin.settings['filter-presets'] = this.plugin.settings['filter-presets'].filter(p => p !== preset);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName('Your assignee name')
+			.setDesc('The name you are assigned cards by in [assignee::]. It stands for "me" in the assignee of aggregate boards and in filter queries (assignee:me).')
+			.addText((text) =>
+				text
+					.setPlaceholder('kim')
+					.setValue(this.plugin.settings['assignee-name'])
+					.onChange(async (value) => {
+						this.plugin.settings['assignee-name'] = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// ========== WIP Limits Settings ==========
 		containerEl.createEl('h2', { text: 'WIP Limits' });
 
@@ -324,7 +359,7 @@ export class KanbanSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Date format')
-			.setDesc('Format for displaying dates (YYYY-MM-DD, DD/MM/YYYY, etc.)')
+			.setDesc('Format for displaying dates (YYYY-MM-DD, DD/MM/YYYY, etc.). Dates typed in this format are understood too.')
 			.addText((text) =>
 				text
 					.setPlaceholder('YYYY-MM-DD')
@@ -335,6 +370,22 @@ export class KanbanSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('Other accepted date formats')
+			.setDesc('Further formats understood when typing dates, one per line (e.g. MM-DD-YYYY)')
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('MM-DD-YYYY')
+					.setValue(this.plugin.settings['date-input-formats'].join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings['date-input-formats'] = value
+							.split('\n')
+							.map(line => line.trim())
+							.filter(line => line);
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName('Time format')
 			.setDesc('Format for displaying times (HH:mm, hh:mm A, etc.)')
@@ -425,15 +476,48 @@ export class KanbanSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('Date language')
+			.setDesc('Also understand dates and recurrences written in this language, like "내일 오후 3시" or "jeden Freitag". English always works.')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('en', 'English');
+				for (const locale of Object.values(DATE_LOCALES)) {
+					dropdown.addOption(locale.id, locale.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings['date-locale'])
+					.onChange(async (value) => {
+						this.plugin.settings['date-locale'] = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Holidays')
+			.setDesc('Dates skipped by recurrences like "every weekday except holidays", one YYYY-MM-DD per line')
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('2024-12-25')
+					.setValue(this.plugin.settings['holidays'].join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings['holidays'] = value
+							.split('\n')
+							.map(line => line.trim())
+							.filter(line => /^\d{4}-\d{2}-\d{2}$/.test(line));
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName('Date serialization format')
-			.setDesc('How dates are saved in markdown (ISO format recommended for compatibility)')
+			.setDesc('How edited cards save dates in markdown (ISO format recommended for compatibility)')
 			.addDropdown((dropdown) =>
 				dropdown
 					.addOption('iso', 'ISO format (2024-01-15)')
+					.addOption('date-format', 'Date format setting (e.g. 15/01/2024)')
 					.addOption('natural', 'Natural language (tomorrow)')
 					.setValue(this.plugin.settings['date-serialization-format'])
-					.onChange(async (value: 'iso' | 'natural') => {
+					.onChange(async (value: DateSerializationFormat) => {
 						this.plugin.settings['date-serialization-format'] = value;
 						await this.plugin.saveSettings();
 					})
@@ -482,6 +566,36 @@ export class KanbanSettingTab extends PluginSettingTab {
 					})
 			);
 
+		// ========== Calendar Export ==========
+		containerEl.createEl('h2', { text: 'Calendar Export' });
+
+		new Setting(containerEl)
+			.setName('Calendar item type')
+			.setDesc('Export cards as events (shown by most calendar apps) or as to-dos')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('VEVENT', 'Events')
+					.addOption('VTODO', 'To-dos')
+					.setValue(this.plugin.settings['ics-component'])
+					.onChange(async (value: 'VEVENT' | 'VTODO') => {
+						this.plugin.settings['ics-component'] = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('All boards export path')
+			.setDesc('Where "Export all boards to iCalendar" writes its .ics file. Re-exporting replaces the file.')
+			.addText((text) =>
+				text
+					.setPlaceholder('Kanban.ics')
+					.setValue(this.plugin.settings['ics-export-path'])
+					.onChange(async (value) => {
+						this.plugin.settings['ics-export-path'] = value || DEFAULT_SETTINGS['ics-export-path'];
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// ========== Archive Settings ==========
 		containerEl.createEl('h2', { text: 'Archive' });
 
@@ -594,6 +708,19 @@ export class KanbanSettingTab extends PluginSettingTab {
 						})
 				);
 
+			new Setting(containerEl)
+				.setName('Time spent field')
+				.setDesc('Frontmatter field name for time tracked on the card. Each time entry is also added under ## Time log in the task.')
+				.addText((text) =>
+					text
+						.setPlaceholder('spent')
+						.setValue(syncConfig.spentField || DEFAULT_BASE_SYNC_CONFIG.spentField)
+						.onChange(async (value) => {
+							this.plugin.settings['base-sync'].spentField = value || 'spent';
+							await this.plugin.saveSettings();
+						})
+				);
+
 		new Setting(containerEl)
 			.setName('Conflict resolution')
 			.setDesc('How to handle conflicts between local cards and remote tasks')
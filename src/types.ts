@@ -6,21 +6,33 @@
 export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
 
+// Nth weekday of a month, e.g. { ordinal: 2, day: 'tuesday' } (RFC 5545 BYDAY=2TU)
+export interface OrdinalWeekday {
+	ordinal: number;                // 1-5, or -1 for the last one
+	day: DayOfWeek;
+}
+
 export interface RecurrencePattern {
 	frequency: RecurrenceFrequency;
 	interval?: number;              // e.g., every 2 weeks
 	daysOfWeek?: DayOfWeek[];       // for weekly: which days
-	dayOfMonth?: number;            // for monthly: which day (1-31)
+	dayOfMonth?: number;            // for monthly: which day (1-31, or -1 for the last day)
+	ordinalWeekdays?: OrdinalWeekday[]; // for monthly/yearly: e.g. 2nd and 4th Tuesday
+	monthsOfYear?: number[];        // only these months (1-12), e.g. quarters
+	skipHolidays?: boolean;         // skip dates in the holidays setting
 	endDate?: string;               // when recurrence ends (ISO date)
-	count?: number;                 // number of occurrences
+	count?: number;                 // occurrences left, including the current one
 	_rawPattern?: string;           // original text for round-trip
 }
 
 // Subtask interface for checklist items within a card
 export interface Subtask {
-	id: string;
+	id: string;                 // Stable block ID, stored as ^id on the subtask line
 	text: string;
 	completed: boolean;
+	dueDate?: string;           // @YYYY-MM-DD
+	assignee?: string;          // [assignee::name]
+	weight?: number;            // [weight::n] contribution to card progress (defaults to 1)
 }
 
 // Base task metadata fields
@@ -40,6 +52,7 @@ export interface KanbanCard {
 	title: string;
 	completed: boolean;
 	tags: string[];
+	startDate?: string;              // Day work on the card begins (YYYY-MM-DD)
 	dueDate?: string;
 	dueTime?: string;
 	recurrence?: RecurrencePattern;  // Recurrence pattern for recurring tasks
@@ -54,6 +67,9 @@ export interface KanbanCard {
 	baseSyncTime?: number;           // Last sync timestamp (ms)
 	// Raw line content for round-trip preservation
 	_rawLine?: string;
+	_rawText?: string;               // Full original markdown (title line + content block)
+	_rawSnapshot?: string;           // Fingerprint taken at parse time, used to detect edits
+	_naturalDate?: { text: string; time: boolean };  // Natural language due date in the title, pinned when written
 }
 
 // Lane to Base status mapping
@@ -107,6 +123,7 @@ export interface BaseSyncConfig {
 	statusField: string;             // Field name for status (default: 'status')
 	progressField: string;           // Field name for progress (default: 'progress')
 	projectField: string;            // Field name for project (default: 'project')
+	spentField: string;              // Field name for time spent (default: 'spent')
 	laneMapping: LaneStatusMapping;  // Lane title → status value mapping
 	conflictResolution: ConflictResolution;  // How to handle conflicts
 	syncInterval: number;            // Auto-sync interval in minutes (0 = manual only)
@@ -125,14 +142,26 @@ export interface WipLimitConfig {
 export interface LaneConfig {
 	wipLimit?: WipLimitConfig;       // WIP limit for this lane
 	template?: string;               // Lane-specific card template path
+	color?: LaneColor;               // Shown on the lane header and on its cards in the calendar
 }
 
+// Lane colors, named after Obsidian's --color-* theme variables
+export const LANE_COLORS = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink'] as const;
+export type LaneColor = typeof LANE_COLORS[number];
+
+// How a board is shown in its view (see CalendarView.ts, TimelineView.ts and TableView.ts)
+export const BOARD_VIEW_MODES = ['board', 'calendar', 'timeline', 'table'] as const;
+export type BoardViewMode = typeof BOARD_VIEW_MODES[number];
+
 export interface KanbanLane {
 	id: string;
 	title: string;
 	cards: KanbanCard[];
 	// Raw header for round-trip
 	_rawHeader?: string;
+	_rawText?: string;               // Original markdown from header to the end of the last card
+	_rawSnapshot?: string;           // Fingerprint taken at parse time, used to detect edits
+	_rawGap?: string;                // Line breaks before the header, as read
 }
 
 // Board filter state (runtime only, not persisted)
@@ -145,6 +174,7 @@ export interface BoardFilterState {
 	dueState: DueStateFilter;        // Filter by due date state
 	showCompleted: boolean;          // Show/hide completed cards
 	priority?: string;               // Filter by priority
+	query: string;                   // Filter query (see FilterQuery.ts)
 }
 
 export const DEFAULT_FILTER_STATE: BoardFilterState = {
@@ -153,8 +183,15 @@ export const DEFAULT_FILTER_STATE: BoardFilterState = {
 	projects: [],
 	dueState: 'all',
 	showCompleted: true,
+	query: '',
 };
 
+// A named filter, saved on one board or for every board
+export interface FilterPreset {
+	name: string;
+	filter: BoardFilterState;
+}
+
 // Template variable context
 export interface TemplateContext {
 	title: string;
@@ -187,13 +224,37 @@ export interface KanbanBoard {
 	_headerContent?: string;      // Content before first lane
 	_footerContent?: string;      // Content after archive/settings
 	_preSettingsContent?: string; // Content between last lane and settings block
+	_rawArchive?: KanbanLane;     // Archive section as read, written back while unchanged
+	_rawSettings?: string;        // Settings block as read
+	_rawSettingsSnapshot?: string; // Settings fingerprint taken at parse time, used to detect edits
+	_rawSettingsGap?: string;     // Line breaks before the settings block, as read
 }
 
+// Board diagnostics produced by lintKanbanBoard
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+export type DiagnosticCode = 'duplicate-id' | 'invalid-date' | 'invalid-settings' | 'stray-content' | 'orphaned-lane-config';
+
+export interface BoardDiagnostic {
+	line: number;                    // 1-based line in the board file
+	severity: DiagnosticSeverity;
+	code: DiagnosticCode;
+	message: string;
+	fixable?: boolean;               // A quick-fix is available for this diagnostic
+}
+
+// Card field syntax: [key::value] metadata, or Tasks plugin emoji (📅 2024-01-15 ⏫)
+export type FieldSyntax = 'dataview' | 'tasks';
+
+// How card dates are written: ISO (2024-01-15), or in the board's date-format (15/01/2024)
+export type DateSerializationFormat = 'iso' | 'natural' | 'date-format';
+
 export interface BoardSettings {
 	'lane-width'?: string;
 	'show-checkboxes'?: boolean;
 	'show-card-menu'?: boolean;
 	'date-format'?: string;
+	'date-input-formats'?: string[];   // Further formats accepted when reading dates
+	'date-serialization-format'?: DateSerializationFormat;
 	'time-format'?: string;
 	'archive-with-date'?: boolean;
 	'link-date-to-daily-note'?: boolean;
@@ -213,6 +274,7 @@ export interface BoardSettings {
 	// Date handling
 	'parse-natural-dates'?: boolean;       // Parse natural language dates
 	'parse-recurrence'?: boolean;          // Parse recurrence patterns
+	'date-locale'?: string;                // Locale pack for natural dates and recurrence, '' for the global one
 	'enable-reminders'?: boolean;          // Enable due date reminders
 	'reminder-time'?: string;              // Default reminder time before due (e.g., "1h")
 	// Card composer
@@ -223,17 +285,37 @@ export interface BoardSettings {
 	'base-sync'?: BaseSyncConfig;          // Base sync configuration for this board
 	// Filtering
 	'show-filter-toolbar'?: boolean;       // Show filter toolbar
+	'filter-presets'?: FilterPreset[];     // Named filters for this board
+	'default-filter-preset'?: string;      // Preset a board opens with when it has no last-used filter
 	// Lane configs (keyed by lane title or id)
 	'lane-configs'?: Record<string, LaneConfig>;
+	// How changed cards write priority, dates and recurrence
+	'field-syntax'?: FieldSyntax;
+	// Recurring cards
+	'recurring-card-lane'?: 'first' | 'same';  // Where the next occurrence is added
+	'archive-completed-recurring'?: boolean;  // Archive a recurring card once it is completed
+	// Dependencies
+	'refuse-blocked-done'?: boolean;       // Refuse (rather than warn about) moving blocked cards into done lanes
+	// Swimlanes
+	'swimlane-field'?: string;             // Field that splits lanes into swimlanes (see Swimlanes.ts), unset for none
 	// Auto-create note on new card
 	'auto-create-note'?: boolean;          // Auto-create note for new cards
 }
 
+// The running time tracking timer (see TimeTracking.ts)
+export interface ActiveTimer {
+	boardPath: string;
+	cardId: string;
+	cardTitle: string;          // For the status bar, without opening the board
+	startedAt: number;          // Epoch milliseconds
+}
+
 export interface KanbanPluginSettings {
 	'new-card-insertion-method': 'prepend' | 'append';
 	'prepend-archive-date': boolean;
 	'prepend-archive-format': string;
 	'date-format': string;
+	'date-input-formats': string[];   // Further formats accepted when reading dates
 	'time-format': string;
 	'date-trigger': string;
 	'time-trigger': string;
@@ -254,10 +336,17 @@ export interface KanbanPluginSettings {
 	// Date handling
 	'parse-natural-dates': boolean;        // Parse natural language dates
 	'parse-recurrence': boolean;           // Parse recurrence patterns
+	'date-locale': string;                 // Locale pack for natural dates and recurrence ('en' for English only)
 	'enable-reminders': boolean;           // Enable due date reminders
 	'reminder-time': string;               // Default reminder time before due
 	'reminder-type': 'notice' | 'system';  // Type of reminder notification
-	'date-serialization-format': 'iso' | 'natural';  // How to serialize dates
+	'date-serialization-format': DateSerializationFormat;  // How to serialize dates
+	'holidays': string[];                  // ISO dates skipped by "except holidays" recurrences
+	// Calendar export
+	'ics-component': 'VEVENT' | 'VTODO';   // Calendar component written for each card
+	'ics-export-path': string;             // Vault path of the all-boards .ics export
+	// Time tracking
+	'active-timer': ActiveTimer | null;    // Timer state, kept here so it survives reloads
 	// Card composer
 	'show-card-composer': boolean;         // Show quick-add composer in lanes
 	'composer-position': 'top' | 'bottom'; // Position of card composer
@@ -266,6 +355,9 @@ export interface KanbanPluginSettings {
 	'base-sync': BaseSyncConfig;           // Default Base sync configuration
 	// Filtering
 	'show-filter-toolbar': boolean;        // Show filter toolbar by default
+	'filter-presets': FilterPreset[];      // Named filters for every board
+	'last-filters': Record<string, BoardFilterState>;  // Last filter used on each board, by file path
+	'assignee-name': string;               // Your name in [assignee::], for "me" in aggregate boards and filter queries
 	// Default WIP limits
 	'default-wip-limit': number;           // Default WIP limit (0 = no limit)
 	'wip-block-exceeded': boolean;         // Block adding when WIP exceeded
@@ -282,6 +374,7 @@ export const DEFAULT_BASE_SYNC_CONFIG: BaseSyncConfig = {
 	statusField: 'status',
 	progressField: 'progress',
 	projectField: 'project',
+	spentField: 'spent',
 	laneMapping: {},
 	conflictResolution: 'prompt',
 	syncInterval: 0,
@@ -333,6 +426,7 @@ export const DEFAULT_SETTINGS: KanbanPluginSettings = {
 	'prepend-archive-date': false,
 	'prepend-archive-format': 'YYYY-MM-DD',
 	'date-format': 'YYYY-MM-DD',
+	'date-input-formats': [],
 	'time-format': 'HH:mm',
 	'date-trigger': '@',
 	'time-trigger': '@@',
@@ -353,10 +447,17 @@ export const DEFAULT_SETTINGS: KanbanPluginSettings = {
 	// Date handling
 	'parse-natural-dates': true,
 	'parse-recurrence': true,
+	'date-locale': 'en',
 	'enable-reminders': false,
 	'reminder-time': '1h',
 	'reminder-type': 'notice',
 	'date-serialization-format': 'iso',
+	'holidays': [],
+	// Calendar export
+	'ics-component': 'VEVENT',
+	'ics-export-path': 'Kanban.ics',
+	// Time tracking
+	'active-timer': null,
 	// Card composer
 	'show-card-composer': true,
 	'composer-position': 'bottom',
@@ -365,6 +466,9 @@ export const DEFAULT_SETTINGS: KanbanPluginSettings = {
 	'base-sync': { ...DEFAULT_BASE_SYNC_CONFIG },
 	// Filtering
 	'show-filter-toolbar': true,
+	'filter-presets': [],
+	'last-filters': {},
+	'assignee-name': '',
 	// WIP limits
 	'default-wip-limit': 0,
 	'wip-block-exceeded': false,
@@ -385,6 +489,8 @@ export const DATE_PATTERNS = {
 };
 
 // Natural language date patterns for parsing
+const MONTH_NAME_PATTERN = '(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec)';
+
 export const NATURAL_DATE_PATTERNS = {
 	TODAY: /\btoday\b/i,
 	TOMORROW: /\btomorrow\b/i,
@@ -392,14 +498,24 @@ export const NATURAL_DATE_PATTERNS = {
 	NEXT_DAY: /\bnext\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,
 	THIS_DAY: /\bthis\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,
 	LAST_DAY: /\blast\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,
+	DAY_OF_WEEK: /\b(?:on\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,  // only used together with a time
+	IN_X_MINUTES: /\bin\s+(\d+)\s+(?:minutes?|mins?)\b/i,
+	IN_X_HOURS: /\bin\s+(\d+)\s+(?:hours?|hrs?)\b/i,
 	IN_X_DAYS: /\bin\s+(\d+)\s+days?\b/i,
 	IN_X_WEEKS: /\bin\s+(\d+)\s+weeks?\b/i,
 	IN_X_MONTHS: /\bin\s+(\d+)\s+months?\b/i,
+	IN_X_YEARS: /\bin\s+(\d+)\s+years?\b/i,
 	X_DAYS_AGO: /\b(\d+)\s+days?\s+ago\b/i,
 	NEXT_WEEK: /\bnext\s+week\b/i,
 	NEXT_MONTH: /\bnext\s+month\b/i,
-	END_OF_WEEK: /\bend\s+of\s+week\b/i,
-	END_OF_MONTH: /\bend\s+of\s+month\b/i,
+	NEXT_YEAR: /\bnext\s+year\b/i,
+	END_OF_WEEK: /\bend\s+of\s+(?:the\s+)?week\b/i,
+	END_OF_MONTH: /\bend\s+of\s+(?:the\s+)?month\b/i,
+	END_OF_QUARTER: /\bend\s+of\s+(?:the\s+)?quarter\b/i,
+	END_OF_YEAR: /\bend\s+of\s+(?:the\s+)?year\b/i,
+	MONTH_DAY: new RegExp(`\\b${MONTH_NAME_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'i'),       // Jan 5, March 5th 2027
+	DAY_MONTH: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME_PATTERN}\\b\\.?(?:,?\\s+(\\d{4})\\b)?`, 'i'), // 5 March 2027, 5th of Jan
+	TIME: /\b(?:at\s+)?(?:(noon|midnight)|(\d{1,2})(?::(\d{2}))?\s*(am|pm)|([01]?\d|2[0-3]):([0-5]\d))\b/i,                     // 3pm, 3:30 pm, 14:30, at noon
 };
 
 // Recurrence pattern matching
@@ -411,6 +527,7 @@ export const RECURRENCE_PATTERNS = {
 	EVERY_X_DAYS: /\bevery\s+(\d+)\s+days?\b/i,
 	EVERY_X_WEEKS: /\bevery\s+(\d+)\s+weeks?\b/i,
 	EVERY_X_MONTHS: /\bevery\s+(\d+)\s+months?\b/i,
+	EVERY_X_YEARS: /\bevery\s+(\d+)\s+years?\b/i,
 	EVERY_DAY_OF_WEEK: /\bevery\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)(?:\s*,\s*(sunday|monday|tuesday|wednesday|thursday|friday|saturday))*\b/i,
 	WEEKDAYS: /\b(?:every\s+weekday|weekdays)\b/i,
 	WEEKENDS: /\b(?:every\s+weekend|weekends)\b/i,
@@ -437,6 +554,12 @@ export const DAY_NAMES_REVERSE: Record<number, DayOfWeek> = {
 	6: 'saturday',
 };
 
+// Month names, indexed from 0 (january)
+export const MONTH_NAMES = [
+	'january', 'february', 'march', 'april', 'may', 'june',
+	'july', 'august', 'september', 'october', 'november', 'december',
+];
+
 // Metadata key patterns for Base integration
 export const METADATA_KEYS = [
 	'progress',
@@ -447,3 +570,6 @@ export const METADATA_KEYS = [
 	'estimate',
 	'spent',
 ];
+
+// Card dependency fields (see Dependencies.ts); repeated fields are merged into one list
+export const DEPENDENCY_FIELDS = ['blocked-by', 'blocks'];